@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const ASSET_MAP_FILENAME = 'web-icons.assets.json';
+
+// Logical filename → fingerprinted filename, both relative to the directory the map is in
+export type AssetMap = Record<string, string>;
+
+// Six hex digits before the extension: icon-192.png → icon-192.3f9a1c.png
+const CONTENT_HASH = /\.[0-9a-f]{6}(?=\.[^./]+$)/;
+
+export function fingerprintFilename(file: string, data: Buffer): string {
+  const hash = createHash('sha256').update(data).digest('hex').slice(0, 6);
+  const extension = path.extname(file);
+  return `${file.slice(0, file.length - extension.length)}.${hash}${extension}`;
+}
+
+// icon-192.3f9a1c.png → icon-192.png
+export function stripContentHash(file: string): string {
+  return file.replace(CONTENT_HASH, '');
+}
+
+export function serializeAssetMap(assets: AssetMap): string {
+  const sorted = Object.fromEntries(Object.entries(assets).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  return JSON.stringify(sorted, null, 2) + '\n';
+}
+
+/**
+ * Read the asset map written by a run with content hashing. Returns null
+ * when there is none, so callers fall back to the logical names.
+ */
+export async function readAssetMap(dir: string): Promise<AssetMap | null> {
+  const mapPath = path.join(dir, ASSET_MAP_FILENAME);
+  let content: string;
+  try {
+    content = await fs.readFile(mapPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  try {
+    const assets = JSON.parse(content);
+    return assets && typeof assets === 'object' && !Array.isArray(assets) ? assets as AssetMap : null;
+  } catch (error) {
+    throw new Error(`Could not parse ${mapPath}: ${(error as Error).message}`);
+  }
+}
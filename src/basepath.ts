@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Node, ObjectExpression } from '@babel/types';
+import { findDefaultExportObject, getProperty, parseModule } from './codemod.js';
+import type { DetectedFramework, WebIconsConfig } from './types.js';
+
+// Where a site and its icon files are served from, when that isn't the domain root
+export interface UrlPrefix {
+  basePath?: string;
+  assetPrefix?: string;
+}
+
+/**
+ * Base path and asset prefix for a project: explicit options win, then the
+ * project config, then the framework's own config file (Next.js basePath and
+ * assetPrefix, Vite and Astro base, SvelteKit paths.base and paths.assets,
+ * Nuxt app.baseURL and app.cdnURL).
+ */
+export async function resolveUrlPrefix(
+  projectRoot: string,
+  framework: DetectedFramework | null,
+  config: WebIconsConfig,
+  explicit: UrlPrefix
+): Promise<UrlPrefix> {
+  const basePath = explicit.basePath ?? config.basePath;
+  const assetPrefix = explicit.assetPrefix ?? config.assetPrefix;
+  if (basePath !== undefined || assetPrefix !== undefined) {
+    return { basePath, assetPrefix };
+  }
+  return framework ? readFrameworkUrlPrefix(projectRoot, framework) : {};
+}
+
+/**
+ * Read the base path and asset prefix from the framework's config file.
+ * Only literal strings count; values computed at build time (environment
+ * variables, conditionals) can't be known here and are left out.
+ */
+export async function readFrameworkUrlPrefix(projectRoot: string, framework: DetectedFramework): Promise<UrlPrefix> {
+  if (!framework.urlConfig) return {};
+
+  for (const file of framework.configFiles) {
+    const filePath = path.join(projectRoot, file);
+    let source: string;
+    try {
+      source = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let config: ObjectExpression | null;
+    try {
+      config = findDefaultExportObject(parseModule(source, filePath));
+    } catch {
+      return {};
+    }
+    if (!config) return {};
+
+    const { basePath, assetPrefix } = framework.urlConfig;
+    return {
+      ...(basePath ? { basePath: readString(config, basePath) } : {}),
+      ...(assetPrefix ? { assetPrefix: readString(config, assetPrefix) } : {}),
+    };
+  }
+  return {};
+}
+
+/**
+ * URL of a generated file: `/docs` + `icon.svg` → `/docs/icon.svg`. The
+ * asset prefix takes precedence over the base path; a relative base like
+ * Vite's `./` resolves from the root, as the tags may be on any page.
+ */
+export function toAssetUrl(prefix: UrlPrefix, file: string): string {
+  return `${normalizePrefix(prefix.assetPrefix || prefix.basePath || '')}/${file}`;
+}
+
+// "docs/" → "/docs", "https://cdn.example.com/" → "https://cdn.example.com", "/" and "./" → ""
+export function normalizePrefix(value: string): string {
+  const trimmed = value.trim().replace(/^\.\/?/, '').replace(/\/+$/, '');
+  if (!trimmed || /^([a-z][a-z\d+.-]*:)?\/\//i.test(trimmed) || trimmed.startsWith('/')) {
+    return trimmed;
+  }
+  return `/${trimmed}`;
+}
+
+// A string literal at a property path of an object literal
+function readString(object: ObjectExpression, keys: string[]): string | undefined {
+  let value: Node = object;
+  for (const key of keys) {
+    if (value.type !== 'ObjectExpression') return undefined;
+    const property = getProperty(value, key);
+    if (!property) return undefined;
+    value = property.value;
+  }
+
+  if (value.type === 'StringLiteral') return value.value;
+  if (value.type === 'TemplateLiteral' && value.expressions.length === 0) return value.quasis[0].value.cooked ?? undefined;
+  return undefined;
+}
@@ -1,15 +1,21 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import ora from 'ora';
+import { Command, Option } from 'commander';
+import ora, { type Ora } from 'ora';
 import chalk from 'chalk';
 import prompts from 'prompts';
 import path from 'path';
 import { IconGenerator } from './generator.js';
-import { FrameworkDetector, validateSourceFile, findAppIcon } from './utils.js';
+import { validateSourceFile, findAppIcon } from './utils.js';
+import { normalizePrefix } from './basepath.js';
+import { CONFIG_FILENAME, loadProjectConfig } from './config.js';
+import { resolveGeneratorOptions, type ResolvedProject } from './project.js';
 import { readFile } from 'fs/promises';
 import { fileURLToPath } from 'url';
-import type { GenerationMode } from './types.js';
+import { findWorkspaces, formatTable, selectWorkspaces, type Workspace } from './workspace.js';
+import { FileWatcher } from './watch.js';
+import { assertUsableSource } from './lint.js';
+import { SPLASH_SCREEN_CONFIGS, type DarkModeOptions, type DetectedFramework, type GenerationMode, type IconCheckResult, type IconSourceKind, type IconTarget, type ManifestOptions, type PlannedFile, type ProjectOptions } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -24,6 +30,488 @@ async function getPackageVersion(): Promise<string> {
   }
 }
 
+// CI runners, piped stdin and hooks cannot answer prompts
+function isInteractiveEnvironment(): boolean {
+  const ci = process.env.CI;
+  if (ci && ci !== 'false' && ci !== '0') {
+    return false;
+  }
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+function printPlan(plan: PlannedFile[], cwd: string): void {
+  const symbols = { create: chalk.green('+ create   '), overwrite: chalk.yellow('~ overwrite'), unchanged: chalk.gray('= unchanged'), delete: chalk.red('- delete   ') };
+
+  console.log(chalk.bold.cyan('\n📋 Dry run – no files were written:\n'));
+  for (const file of plan) {
+    const dimensions = file.dimensions ? chalk.gray(` (${file.dimensions})`) : '';
+    console.log(`  ${symbols[file.action]} ${path.relative(cwd, file.path)}${dimensions}`);
+  }
+
+  const count = (action: PlannedFile['action']) => plan.filter(file => file.action === action).length;
+  const deletions = count('delete') ? `, ${count('delete')} to delete` : '';
+  console.log(chalk.white(`\n${count('create')} to create, ${count('overwrite')} to overwrite, ${count('unchanged')} unchanged${deletions}\n`));
+}
+
+function printJSON(result: Record<string, unknown>): void {
+  process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+}
+
+interface CliOptions {
+  output?: string;
+  color?: string;
+  mode?: string;
+  target?: IconTarget;
+  name?: string;
+  shortName?: string;
+  description?: string;
+  themeColor?: string;
+  backgroundColor?: string;
+  display?: ManifestOptions['display'];
+  startUrl?: string;
+  scope?: string;
+  manifestId?: string;
+  manifest?: string;
+  darkSource?: string;
+  dark?: DarkModeOptions['strategy'];
+  darkColor?: string;
+  splash?: boolean;
+  splashBackground?: string;
+  tiles?: boolean;
+  tileColor?: string;
+  og?: boolean;
+  ogTitle?: string;
+  ogSubtitle?: string;
+  ogBackground?: string;
+  ogTextColor?: string;
+  maskableSource?: string;
+  maskableSafeZone?: number;
+  maskableBackground?: string;
+  maskablePreview?: boolean;
+  basePath?: string;
+  assetPrefix?: string;
+  hash?: boolean;
+  strict?: boolean;
+  preview?: boolean;
+  app?: string[];
+  workspaces?: boolean;
+  json?: boolean;
+}
+
+// Options that shape the output; `check` accepts the same ones so it can compare against them
+function addGenerationOptions(command: Command): Command {
+  return command
+    .option('-o, --output <dir>', 'Output directory (auto-detected if not specified)')
+    .option('-c, --color <color>', 'Color for Safari pinned tab icon (default: #5bbad5)')
+    .option('-m, --mode <mode>', 'Generation mode: traditional (public/), nextjs (app/), or auto-detect (default: auto)')
+    .addOption(new Option('--target <target>', 'Platform: web icons, Android launcher icons (mipmap-*), an iOS AppIcon.appiconset or desktop icons (.icns, .ico, hicolor PNGs) (default: web)').choices(['web', 'android', 'ios', 'desktop']))
+    .option('--name <name>', 'Manifest name (default: package.json name)')
+    .option('--short-name <name>', 'Manifest short_name')
+    .option('--description <text>', 'Manifest description (default: package.json description)')
+    .option('--theme-color <color>', 'Manifest theme_color')
+    .option('--background-color <color>', 'Manifest background_color')
+    .addOption(new Option('--display <display>', 'Manifest display mode').choices(['fullscreen', 'standalone', 'minimal-ui', 'browser']))
+    .option('--start-url <url>', 'Manifest start_url')
+    .option('--scope <scope>', 'Manifest scope')
+    .option('--manifest-id <id>', 'Manifest id')
+    .option('--manifest <filename>', 'Manifest filename: site.webmanifest, manifest.webmanifest or manifest.json (default: existing file or site.webmanifest)')
+    .option('--dark-source <path>', 'Separate source image for dark color schemes')
+    .addOption(new Option('--dark <strategy>', 'Derive a dark color scheme variant from the source').choices(['invert', 'recolor']))
+    .option('--dark-color <color>', 'Color for the recolor dark strategy (default: #ffffff)')
+    .option('--splash', 'Generate iOS splash screens (apple-touch-startup-image) for installed PWAs')
+    .option('--splash-background <color>', 'Splash screen background (default: manifest background color or #ffffff); implies --splash')
+    .option('--tiles', 'Generate Windows tiles (mstile-*.png) and browserconfig.xml')
+    .option('--tile-color <color>', 'Windows TileColor (default: manifest theme color or #da532c); implies --tiles')
+    .option('--og', 'Generate Open Graph and Twitter card images (og-image.png, twitter-image.png)')
+    .option('--og-title <text>', 'Title text on the social images; implies --og')
+    .option('--og-subtitle <text>', 'Subtitle text on the social images; implies --og')
+    .option('--og-background <colors>', 'Social image background: a hex color, or comma-separated colors for a gradient (default: manifest background color or #ffffff); implies --og')
+    .option('--og-text-color <color>', 'Social image text color (default: black or white, by background); implies --og')
+    .option('--maskable-source <path>', 'Separate source image for the maskable icon, e.g. artwork without its own background')
+    .option('--maskable-safe-zone <percent>', 'Maskable icon artwork size as a percentage of the icon (default: 60)', parseFloat)
+    .option('--maskable-background <colors>', 'Maskable icon background: a hex color, or comma-separated colors for a gradient (default: manifest background color or #ffffff)')
+    .option('--maskable-preview', 'Write maskable-preview.png: the maskable icon under circle, squircle, rounded square and teardrop masks')
+    .option('--base-path <path>', 'URL path the site is served under, e.g. /docs (default: from the framework config)')
+    .option('--asset-prefix <url>', 'URL prefix the icon files are served from, e.g. a CDN origin (default: the base path)')
+    .option('--hash', 'Add a content hash to icon filenames (icon-192.3f9a1c.png) and write web-icons.assets.json; favicon.ico and apple-touch-icon.png keep their names')
+    .option('--preview', 'Write icon-preview.html: every generated image at 1× and 2× and in browser tab, home screen and pinned tab mockups, self-contained for sharing')
+    .option('--app <name>', 'Monorepo: only this workspace app (package name or directory); repeatable', (value: string, previous: string[] = []) => [...previous, value])
+    .option('--no-workspaces', 'Treat a monorepo root as a single project');
+}
+
+// The flags as per-run options; resolveGeneratorOptions() layers them over the project config
+function toProjectOptions(options: CliOptions): ProjectOptions {
+  return {
+    outputDir: options.output,
+    color: options.color,
+    mode: options.mode as GenerationMode | undefined,
+    target: options.target,
+    manifest: {
+      filename: options.manifest,
+      name: options.name,
+      shortName: options.shortName,
+      description: options.description,
+      themeColor: options.themeColor,
+      backgroundColor: options.backgroundColor,
+      display: options.display,
+      startUrl: options.startUrl,
+      scope: options.scope,
+      id: options.manifestId,
+    },
+    dark: { source: options.darkSource, strategy: options.dark, color: options.darkColor },
+    splash: options.splash || options.splashBackground ? { backgroundColor: options.splashBackground } : undefined,
+    tiles: options.tiles || options.tileColor ? { color: options.tileColor } : undefined,
+    og: options.og || options.ogTitle || options.ogSubtitle || options.ogBackground || options.ogTextColor
+      ? { title: options.ogTitle, subtitle: options.ogSubtitle, background: options.ogBackground, textColor: options.ogTextColor }
+      : undefined,
+    maskable: {
+      source: options.maskableSource,
+      safeZone: options.maskableSafeZone,
+      background: options.maskableBackground,
+      preview: options.maskablePreview,
+    },
+    basePath: options.basePath,
+    assetPrefix: options.assetPrefix,
+    hash: options.hash,
+    strict: options.strict,
+    preview: options.preview,
+  };
+}
+
+/**
+ * Resolve generator options for a project without prompting, the same way an
+ * interactive run does when every prompt takes its default. Used by `check`,
+ * `--watch` and for each app of a monorepo. `sharedSource` is used when the
+ * project has no source of its own (monorepo root icon).
+ */
+async function resolveProject(
+  projectRoot: string,
+  source: string | undefined,
+  options: CliOptions,
+  sharedSource?: string | null
+): Promise<ResolvedProject> {
+  const { config } = await loadProjectConfig(projectRoot);
+
+  const sourceArg = source || config.source || await findAppIcon(projectRoot) || sharedSource;
+  if (!sourceArg) {
+    throw new Error('No source image found. Pass a source path, set "source" in web-icons.config.json, or add app-icon.svg/app-icon.png to the project root.');
+  }
+  const sourcePath = path.resolve(projectRoot, sourceArg);
+  await validateSourceFile(sourcePath);
+
+  return resolveGeneratorOptions(toProjectOptions(options), config, projectRoot, sourcePath);
+}
+
+// At a monorepo root, the workspaces to process (null for a single project)
+async function findWorkspaceTargets(cwd: string, options: CliOptions): Promise<{ all: Workspace[]; selected: Workspace[] } | null> {
+  if (options.workspaces === false || options.output) {
+    return null;
+  }
+
+  const all = await findWorkspaces(cwd);
+  if (all.length === 0) {
+    if (options.app?.length) {
+      throw new Error('--app can only be used at the root of a monorepo (pnpm-workspace.yaml, package.json "workspaces", turbo.json or nx.json).');
+    }
+    return null;
+  }
+
+  const selected = selectWorkspaces(all, options.app);
+  return selected.length > 0 || options.app?.length ? { all, selected } : null;
+}
+
+// Shared root icon for apps without their own source
+async function findSharedSource(cwd: string, source: string | undefined): Promise<string | null> {
+  if (source) {
+    return path.resolve(cwd, source);
+  }
+  const { config } = await loadProjectConfig(cwd);
+  return config.source ? path.resolve(cwd, config.source) : findAppIcon(cwd);
+}
+
+function describeCheck(result: IconCheckResult, cwd: string): string[] {
+  const reasons: string[] = [];
+  if (!result.stampFound) {
+    reasons.push(`No generation stamp at ${path.relative(cwd, result.stampPath)}; icons were never generated here or predate stamps`);
+  }
+  if (result.sourceChanged) {
+    reasons.push('Source image changed since the icons were generated');
+  }
+  if (result.optionsChanged) {
+    reasons.push('Options or config changed since the icons were generated');
+  }
+  reasons.push(...result.missingFiles.map(file => `Missing: ${file}`));
+  reasons.push(...result.modifiedFiles.map(file => `Modified: ${file}`));
+  return reasons;
+}
+
+function printCheck(result: IconCheckResult, cwd: string): void {
+  if (result.upToDate) {
+    console.log(chalk.green(`✓ Icons are up to date (${path.relative(cwd, result.stampPath)})`));
+    return;
+  }
+
+  console.log(chalk.red('✗ Icons are out of date:'));
+  for (const reason of describeCheck(result, cwd)) {
+    console.log(chalk.red(`  - ${reason}`));
+  }
+  console.log(chalk.yellow('\nRegenerate the icons with the same options to fix this.'));
+}
+
+// `webicons check`: resolves options like a non-interactive run, then compares with the stamp
+async function checkCommand(source: string | undefined, options: CliOptions): Promise<void> {
+  const json = Boolean(options.json);
+
+  try {
+    const cwd = process.cwd();
+
+    const targets = await findWorkspaceTargets(cwd, options);
+    if (targets) {
+      const sharedSource = await findSharedSource(cwd, source);
+      const results = await Promise.all(targets.selected.map(async (workspace) => {
+        try {
+          const { generatorOptions, framework } = await resolveProject(workspace.dir, undefined, options, sharedSource);
+          return { workspace, framework, result: await new IconGenerator(generatorOptions).check() };
+        } catch (error) {
+          return { workspace, framework: workspace.framework, error: error instanceof Error ? error.message : String(error) };
+        }
+      }));
+
+      if (json) {
+        printJSON({
+          success: true,
+          upToDate: results.every(entry => entry.result?.upToDate),
+          workspaces: results.map(({ workspace, framework, result, error }) => ({
+            app: workspace.name,
+            path: workspace.relativeDir,
+            framework: framework?.name || null,
+            ...(result ? { ...result, stampPath: path.relative(cwd, result.stampPath) } : { upToDate: false, error }),
+          })),
+        });
+      } else {
+        console.log(formatTable(
+          ['App', 'Framework', 'Status'],
+          results.map(({ workspace, framework, result, error }) => [
+            workspace.name,
+            framework?.name || '-',
+            error ? `error: ${error}` : result!.upToDate ? 'up to date' : `stale: ${describeCheck(result!, workspace.dir).join('; ')}`,
+          ])
+        ));
+      }
+
+      if (!results.every(entry => entry.result?.upToDate)) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    const { generatorOptions } = await resolveProject(cwd, source, options);
+    const result = await new IconGenerator(generatorOptions).check();
+
+    if (json) {
+      printJSON({
+        success: true,
+        ...result,
+        stampPath: path.relative(cwd, result.stampPath),
+      });
+    } else {
+      printCheck(result, cwd);
+    }
+
+    if (!result.upToDate) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (json) {
+      printJSON({ success: false, error: error instanceof Error ? error.message : String(error) });
+    } else {
+      console.error(chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : String(error)}\n`));
+    }
+    process.exit(1);
+  }
+}
+
+interface WorkspaceRun {
+  workspace: Workspace;
+  framework: DetectedFramework | null;
+  mode?: string;
+  sourcePath?: string;
+  outputDir?: string;
+  files: string[]; // Written files, or planned changes in a dry run
+  warnings: string[];
+  error?: string;
+}
+
+/**
+ * Generate (or plan) icons for each selected app of a monorepo. Apps are
+ * processed one after another; a failing app is reported without stopping
+ * the others.
+ */
+async function runWorkspaces(
+  cwd: string,
+  workspaces: Workspace[],
+  source: string | undefined,
+  options: CliOptions & { dryRun?: boolean },
+  spinner: (text: string) => Ora
+): Promise<WorkspaceRun[]> {
+  const sharedSource = await findSharedSource(cwd, source);
+  const runs: WorkspaceRun[] = [];
+
+  for (const workspace of workspaces) {
+    const appSpinner = spinner(`${options.dryRun ? 'Planning' : 'Generating'} icons for ${workspace.name}...`);
+    try {
+      const { generatorOptions, framework } = await resolveProject(workspace.dir, undefined, options, sharedSource);
+      const generator = new IconGenerator(generatorOptions);
+
+      let files: string[];
+      if (options.dryRun) {
+        const plan = await generator.plan();
+        files = plan.filter(file => file.changed).map(file => file.path);
+      } else {
+        await generator.generate();
+        files = generator.getWrittenFiles();
+      }
+
+      runs.push({
+        workspace,
+        framework,
+        mode: generator.getTarget() === 'web' ? generator.getMode() : generator.getTarget(),
+        sourcePath: generatorOptions.sourcePath,
+        outputDir: generatorOptions.outputDir,
+        files,
+        warnings: generator.getWarnings(),
+      });
+      appSpinner.succeed(workspace.name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      runs.push({ workspace, framework: workspace.framework, files: [], warnings: [], error: message });
+      appSpinner.fail(`${workspace.name}: ${message}`);
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Regenerate whenever the source image, the dark source or the project
+ * config changes, until interrupted. Every run resolves the project again,
+ * so config edits apply, and only files whose content changed are
+ * rewritten. An edit to the dark or maskable source only re-renders the
+ * images made from it. A failing run (say, an SVG saved halfway) is
+ * reported and watching goes on.
+ */
+async function watchProject(cwd: string, source: string | undefined, options: CliOptions, json: boolean): Promise<void> {
+  // Always watched: the config and wherever a source image can come from
+  const baseFiles = [
+    path.join(cwd, CONFIG_FILENAME),
+    path.join(cwd, 'package.json'),
+    ...(source ? [path.resolve(cwd, source)] : ['app-icon.svg', 'app-icon.png'].map(name => path.join(cwd, name))),
+  ];
+  const pending = new Set<string>();
+  let running = false;
+  // Kept between runs so unchanged sources aren't rendered again
+  let generator: IconGenerator | null = null;
+  let previousOptions = '';
+
+  const watcher = new FileWatcher(files => void run(files));
+
+  const run = async (changed: string[]): Promise<void> => {
+    // Changes during a run are picked up by one more run afterwards
+    if (running) {
+      changed.forEach(file => pending.add(file));
+      return;
+    }
+    running = true;
+
+    const started = Date.now();
+    const time = chalk.gray(`[${new Date().toLocaleTimeString()}]`);
+    const trigger = changed.length > 0 ? `${changed.map(file => path.relative(cwd, file)).join(', ')} changed` : 'Initial run';
+    try {
+      const { generatorOptions } = await resolveProject(cwd, source, options);
+      watcher.setFiles([
+        ...baseFiles,
+        generatorOptions.sourcePath,
+        ...(generatorOptions.dark?.source ? [generatorOptions.dark.source] : []),
+        ...(generatorOptions.maskable?.source ? [generatorOptions.maskable.source] : []),
+      ]);
+
+      // Source edits re-render what that source feeds; anything else (config, package.json, another source) is a full run
+      const sources: [string | undefined, IconSourceKind][] = [
+        [generatorOptions.sourcePath, 'source'],
+        [generatorOptions.dark?.source, 'dark'],
+        [generatorOptions.maskable?.source, 'maskable'],
+      ];
+      const changedSources = changed
+        .map(file => sources.find(([sourcePath]) => sourcePath && path.resolve(sourcePath) === file)?.[1])
+        .filter((kind): kind is IconSourceKind => kind !== undefined);
+      const serializedOptions = JSON.stringify(generatorOptions);
+      const partial = generator !== null && serializedOptions === previousOptions && changed.length > 0 && changedSources.length === changed.length;
+      if (!generator || !partial) {
+        generator = new IconGenerator(generatorOptions);
+      }
+      previousOptions = serializedOptions;
+
+      await generator.generate({ onlyChanged: true, changedSources: partial ? changedSources : undefined });
+      const written = generator.getWrittenFiles().map(file => path.relative(cwd, file));
+      const removed = generator.getRemovedFiles().map(file => path.relative(cwd, file));
+
+      if (json) {
+        printJSON({ success: true, trigger, files: written, removedFiles: removed, warnings: generator.getWarnings() });
+      } else {
+        const summary = written.length > 0 ? `${written.length} file${written.length === 1 ? '' : 's'} updated` : 'no changes';
+        const cleanup = removed.length > 0 ? `, ${removed.length} stale removed` : '';
+        console.log(`${time} ${chalk.green('✓')} ${trigger} → ${summary}${cleanup} ${chalk.gray(`(${((Date.now() - started) / 1000).toFixed(1)}s)`)}`);
+        for (const file of written) {
+          console.log(chalk.gray(`    ${file}`));
+        }
+        for (const warning of generator.getWarnings()) {
+          console.log(chalk.yellow(`    ⚠️  ${warning}`));
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (json) {
+        printJSON({ success: false, trigger, error: message });
+      } else {
+        console.log(`${time} ${chalk.red('✗')} ${trigger} → ${chalk.red(message)}`);
+      }
+    } finally {
+      running = false;
+      if (pending.size > 0) {
+        const files = [...pending];
+        pending.clear();
+        void run(files);
+      }
+    }
+  };
+
+  watcher.setFiles(baseFiles);
+  await run([]);
+  if (!json) {
+    console.log(chalk.cyan('\n👀 Watching the source image and config for changes (Ctrl+C to stop)\n'));
+  }
+
+  await new Promise<void>(resolve => process.once('SIGINT', () => {
+    watcher.close();
+    resolve();
+  }));
+}
+
+function formatWorkspaceSummary(runs: WorkspaceRun[], cwd: string, dryRun: boolean): string {
+  return formatTable(
+    ['App', 'Framework', 'Mode', 'Source', 'Output', dryRun ? 'Changes' : 'Files', 'Status'],
+    runs.map(run => [
+      run.workspace.name,
+      run.framework?.name || '-',
+      run.mode || '-',
+      run.sourcePath ? path.relative(cwd, run.sourcePath) : '-',
+      run.outputDir ? path.relative(cwd, run.outputDir) : '-',
+      run.error ? '-' : String(run.files.length),
+      run.error ? `error: ${run.error}` : run.warnings.length > 0 ? `ok (${run.warnings.length} warning${run.warnings.length === 1 ? '' : 's'})` : 'ok',
+    ])
+  );
+}
+
 async function main() {
   const version = await getPackageVersion();
 
@@ -33,10 +521,17 @@ async function main() {
     .name('create-web-icons')
     .description('Generate all required web app icons and files from a single source image')
     .version(version)
-    .argument('[source]', 'Source image file (SVG, PNG, or JPG)')
-    .option('-o, --output <dir>', 'Output directory (auto-detected if not specified)')
-    .option('-c, --color <color>', 'Color for Safari pinned tab icon (default: #5bbad5)', '#5bbad5')
-    .option('-m, --mode <mode>', 'Generation mode: traditional (public/), nextjs (app/), or auto-detect', 'auto')
+    // Let `check` own the flags it shares with the main command
+    .enablePositionalOptions()
+    .argument('[source]', 'Source image file (SVG, PNG, or JPG)');
+
+  addGenerationOptions(program)
+    .option('--dry-run', 'Show which files would be created, overwritten or left unchanged without writing anything')
+    .option('--strict', 'Fail when the source image has warnings (not square, too small, no viewBox, ...), not just errors')
+    .option('-w, --watch', 'Regenerate whenever the source image or the config changes (implies --non-interactive)')
+    .option('-y, --yes', 'Accept all defaults without prompting')
+    .option('--non-interactive', 'Never prompt; fail when required input is missing (default in CI and without a TTY)')
+    .option('--json', 'Print a machine-readable JSON result instead of formatted output')
     .option('--mcp', 'Run as MCP server (for Claude Desktop integration)')
     .action(async (source: string | undefined, options) => {
       // If --mcp flag is provided, start MCP server instead
@@ -47,18 +542,101 @@ async function main() {
         return;
       }
 
+      // Prompts hang without a terminal, so CI, non-TTY stdin and --json all take defaults
+      const json = Boolean(options.json);
+      const interactive = !json && !options.yes && !options.nonInteractive && isInteractiveEnvironment();
+      const log = json ? () => {} : console.log;
+      const spinner = (text: string) => ora({ text, isSilent: json }).start();
+
       try {
-        console.log(chalk.bold.cyan('\n🎨 Web Icons Generator\n'));
+        log(chalk.bold.cyan('\n🎨 Web Icons Generator\n'));
 
         const cwd = process.cwd();
-        let sourcePath = source;
+
+        // Monorepo root: generate for each app instead of the root itself
+        const targets = await findWorkspaceTargets(cwd, options);
+
+        if (options.watch) {
+          if (options.dryRun) {
+            throw new Error('--watch writes files and cannot be combined with --dry-run.');
+          }
+          if (targets) {
+            throw new Error('--watch works on one project: run it in the app\'s directory, or pass --no-workspaces to watch the monorepo root itself.');
+          }
+          await watchProject(cwd, source, options, json);
+          return;
+        }
+
+        if (targets) {
+          let selected = targets.selected;
+          log(chalk.green(`✓ Monorepo with ${targets.all.length} workspaces, ${targets.all.filter(workspace => workspace.framework).length} of them apps`));
+
+          if (interactive && !options.app?.length) {
+            const response = await prompts({
+              type: 'multiselect',
+              name: 'apps',
+              message: 'Generate icons for:',
+              choices: targets.all.map(workspace => ({
+                title: `${workspace.name} ${chalk.gray(`(${workspace.relativeDir}, ${workspace.framework?.name || 'no framework'})`)}`,
+                value: workspace,
+                selected: selected.includes(workspace),
+              })),
+            });
+
+            if (!response.apps) {
+              log(chalk.yellow('\n⚠️  Operation cancelled'));
+              process.exit(0);
+            }
+            selected = response.apps;
+          }
+
+          const runs = await runWorkspaces(cwd, selected, source, options, spinner);
+          const failed = runs.filter(run => run.error).length;
+
+          if (json) {
+            printJSON({
+              success: failed === 0,
+              ...(options.dryRun ? { dryRun: true } : {}),
+              workspaces: runs.map(run => ({
+                app: run.workspace.name,
+                path: run.workspace.relativeDir,
+                framework: run.framework?.name || null,
+                mode: run.mode || null,
+                source: run.sourcePath ? path.relative(cwd, run.sourcePath) : null,
+                outputDir: run.outputDir ? path.relative(cwd, run.outputDir) : null,
+                files: run.files.map(file => path.relative(cwd, file)),
+                warnings: run.warnings,
+                ...(run.error ? { error: run.error } : {}),
+              })),
+            });
+          } else {
+            log(chalk.bold(`\n${options.dryRun ? '📋 Dry run – no files were written' : '✨ Summary'}\n`));
+            log(formatWorkspaceSummary(runs, cwd, Boolean(options.dryRun)));
+            log('');
+          }
+
+          if (failed > 0) {
+            process.exit(1);
+          }
+          return;
+        }
+
+        // Project config (web-icons.config.json or package.json "webIcons"); flags take precedence
+        const { config, configPath } = await loadProjectConfig(cwd);
+        if (configPath) {
+          log(chalk.green(`✓ Using config from ${chalk.bold(path.relative(cwd, configPath))}`));
+        }
+
+        let sourcePath = source || config.source;
 
         // Try to auto-detect app-icon.svg or app-icon.png if no source provided
         if (!sourcePath) {
           const autoDetected = await findAppIcon(cwd);
           if (autoDetected) {
-            console.log(chalk.green(`✓ Found ${chalk.bold(path.basename(autoDetected))} in current directory`));
+            log(chalk.green(`✓ Found ${chalk.bold(path.basename(autoDetected))} in current directory`));
             sourcePath = autoDetected;
+          } else if (!interactive) {
+            throw new Error('No source image found. Pass a source path, set "source" in web-icons.config.json, or add app-icon.svg/app-icon.png to the current directory.');
           } else {
             // Prompt for source file
             const response = await prompts({
@@ -69,7 +647,7 @@ async function main() {
             });
 
             if (!response.source) {
-              console.log(chalk.yellow('\n⚠️  Operation cancelled'));
+              log(chalk.yellow('\n⚠️  Operation cancelled'));
               process.exit(0);
             }
 
@@ -81,46 +659,39 @@ async function main() {
         sourcePath = path.resolve(cwd, sourcePath!);
 
         // Validate source file
-        const validationSpinner = ora('Validating source file...').start();
+        const validationSpinner = spinner('Validating source file...');
         try {
-          await validateSourceFile(sourcePath);
-          validationSpinner.succeed(chalk.green('Source file validated'));
+          const issues = await validateSourceFile(sourcePath);
+          assertUsableSource(issues, options.strict);
+          if (issues.length > 0) {
+            validationSpinner.warn(chalk.yellow(`Source file has ${issues.length} warning${issues.length === 1 ? '' : 's'} (listed at the end)`));
+          } else {
+            validationSpinner.succeed(chalk.green('Source file validated'));
+          }
         } catch (error) {
           validationSpinner.fail(chalk.red('Validation failed'));
           throw error;
         }
 
-        // Detect framework and output directory
-        const detector = new FrameworkDetector(cwd);
-        const framework = await detector.detect();
-        const hasAppRouter = await detector.hasAppRouter();
-
-        // Determine generation mode
-        let mode: GenerationMode = options.mode as GenerationMode;
-
         // Validate mode option
-        if (!['traditional', 'nextjs', 'auto'].includes(mode)) {
-          console.log(chalk.yellow(`⚠️  Invalid mode "${mode}". Using "auto" instead.`));
-          mode = 'auto';
-        }
-
-        let outputDir: string;
-        if (options.output) {
-          outputDir = path.resolve(cwd, options.output);
-
-          // If output is explicitly set and mode is auto, determine mode from path
-          if (mode === 'auto') {
-            const outputBasename = path.basename(outputDir);
-            if (outputBasename === 'app' || outputDir.includes('/app')) {
-              mode = 'nextjs';
-            } else {
-              mode = 'traditional';
-            }
-          }
-        } else {
-          // Auto-detect output directory based on mode and framework
-          if (mode === 'auto' && hasAppRouter && framework?.name === 'Next.js') {
-            // Suggest Next.js App Router mode
+        if (options.mode && !['traditional', 'nextjs', 'auto'].includes(options.mode)) {
+          log(chalk.yellow(`⚠️  Invalid mode "${options.mode}". Using "auto" instead.`));
+          options.mode = 'auto';
+        }
+
+        // Detect framework and output directory, as for check, --watch and the MCP tools
+        const projectOptions = toProjectOptions(options);
+        let resolved = await resolveGeneratorOptions(projectOptions, config, cwd, sourcePath);
+        const { framework } = resolved;
+        const requestedMode = options.mode || config.mode || 'auto';
+
+        if (resolved.generatorOptions.target !== 'web') {
+          const desktop = resolved.generatorOptions.desktop;
+          const tool = desktop ? ` (${desktop.tool})` : '';
+          log(chalk.blue(`✓ Target ${resolved.generatorOptions.target}${tool} → using ${chalk.bold(path.relative(cwd, resolved.generatorOptions.outputDir) || '.')}/`));
+        } else if (resolved.outputDirFrom !== 'option') {
+          // Auto mode picked the App Router: offer traditional mode instead
+          if (interactive && requestedMode === 'auto' && resolved.outputDirFrom === 'detected' && resolved.generatorOptions.mode === 'nextjs') {
             const response = await prompts({
               type: 'select',
               name: 'selectedMode',
@@ -132,26 +703,22 @@ async function main() {
               initial: 0,
             });
 
-            mode = response.selectedMode || 'nextjs';
-          } else if (mode === 'auto') {
-            mode = 'traditional';
-          }
-
-          // Set output directory based on mode
-          if (mode === 'nextjs' && hasAppRouter) {
-            outputDir = await detector.getAppDir() || await detector.getPublicDir();
-          } else {
-            outputDir = await detector.getPublicDir();
+            if (response.selectedMode === 'traditional') {
+              resolved = await resolveGeneratorOptions({ ...projectOptions, mode: 'traditional' }, config, cwd, sourcePath);
+            }
           }
 
-          if (framework) {
-            const targetDir = mode === 'nextjs' && hasAppRouter ? 'app' : framework.publicDir;
-            console.log(chalk.blue(`✓ Detected ${framework.name} → using ${chalk.bold(targetDir)}/ directory (${mode} mode)`));
+          const { outputDir, mode } = resolved.generatorOptions;
+          if (resolved.outputDirFrom === 'config') {
+            log(chalk.blue(`✓ Using ${chalk.bold(path.relative(cwd, outputDir) || '.')}/ from config (${mode} mode)`));
+          } else if (framework) {
+            const confidence = framework.confidence === 'high' ? '' : chalk.gray(` (${framework.confidence} confidence: ${framework.evidence.join(', ')})`);
+            log(chalk.blue(`✓ Detected ${framework.name}${confidence} → using ${chalk.bold(path.relative(cwd, outputDir) || '.')}/ directory (${mode} mode)`));
           } else {
-            console.log(chalk.yellow('⚠️  No framework detected → using public/ directory'));
+            log(chalk.yellow('⚠️  No framework detected → using public/ directory'));
           }
 
-          const confirm = await prompts({
+          const confirm = resolved.outputDirFrom === 'config' || !interactive ? { useDetected: true } : await prompts({
             type: 'confirm',
             name: 'useDetected',
             message: `Generate icons in ${chalk.bold(path.relative(cwd, outputDir) || '.')}/?`,
@@ -167,24 +734,53 @@ async function main() {
             });
 
             if (!customDir.dir) {
-              console.log(chalk.yellow('\n⚠️  Operation cancelled'));
+              log(chalk.yellow('\n⚠️  Operation cancelled'));
               process.exit(0);
             }
 
-            outputDir = path.resolve(cwd, customDir.dir);
+            // Keep the chosen mode rather than inferring it from the directory name
+            resolved = await resolveGeneratorOptions({ ...projectOptions, outputDir: customDir.dir, mode }, config, cwd, sourcePath);
+          }
+        }
+
+        const { generatorOptions } = resolved;
+        const { outputDir, dark } = generatorOptions;
+        const prefix = generatorOptions.assetPrefix || generatorOptions.basePath;
+        if (prefix && normalizePrefix(prefix)) {
+          log(chalk.blue(`✓ Icon URLs start with ${chalk.bold(normalizePrefix(prefix))}/`));
+        }
+
+        if (options.dryRun) {
+          const planSpinner = spinner('Planning changes...');
+          const generator = new IconGenerator(generatorOptions);
+          const plan = await generator.plan();
+          planSpinner.stop();
+
+          if (json) {
+            printJSON({
+              success: true,
+              dryRun: true,
+              framework: framework?.name || null,
+              mode: generator.getMode(),
+              target: generator.getTarget(),
+              outputDir: path.relative(cwd, outputDir) || '.',
+              plan: plan.map(file => ({ ...file, path: path.relative(cwd, file.path) })),
+              warnings: generator.getWarnings(),
+            });
+            return;
           }
+
+          printPlan(plan, cwd);
+          for (const warning of generator.getWarnings()) {
+            log(chalk.yellow(`⚠️  ${warning}`));
+          }
+          return;
         }
 
         // Generate icons
-        const generateSpinner = ora('Generating icons...').start();
-
-        const generator = new IconGenerator({
-          sourcePath,
-          outputDir,
-          projectRoot: cwd,
-          color: options.color,
-          mode: mode,
-        });
+        const generateSpinner = spinner('Generating icons...');
+
+        const generator = new IconGenerator(generatorOptions);
 
         await generator.generate();
         generateSpinner.succeed(chalk.green('Icons generated successfully!'));
@@ -192,55 +788,133 @@ async function main() {
         const actualMode = generator.getMode();
         const outputDirRelative = path.relative(cwd, outputDir) || '.';
         const instructionsFile = path.relative(cwd, generator.getInstructionsFilePath());
+        const maskablePreview = generator.getMaskablePreviewPath();
+        const maskablePreviewFile = maskablePreview ? path.relative(cwd, maskablePreview) : null;
+        const previewPath = generator.getPreviewPath();
+        const previewFile = previewPath ? path.relative(cwd, previewPath) : null;
 
         // Summary - different for each mode
-        console.log(chalk.bold.green('\n✨ Success! Generated files:\n'));
+        log(chalk.bold.green('\n✨ Success! Generated files:\n'));
 
-        if (actualMode === 'nextjs') {
-          console.log(chalk.gray('  ├── favicon.ico (32×32)'));
-          console.log(chalk.gray('  ├── icon.png (512×512) - auto-linked by Next.js'));
-          console.log(chalk.gray('  ├── apple-icon.png (180×180) - auto-linked by Next.js'));
-          console.log(chalk.gray('  ├── apple-touch-icon.png (180×180) - for compatibility'));
+        if (generator.getTarget() !== 'web') {
+          for (const file of generator.getNativeFileList()) {
+            log(chalk.gray(`  ├── ${file}`));
+          }
+          log(chalk.gray(`  └── In ${chalk.bold(outputDirRelative)}/\n`));
+
+          log(chalk.bold.cyan('📋 Next steps:\n'));
+          log(chalk.white(`1. Review integration guide: ${chalk.bold(instructionsFile)}`));
+          log(chalk.white('2. Build the app and check the icon on a device or emulator\n'));
+        } else if (actualMode === 'nextjs') {
+          log(chalk.gray(`  ├── favicon.ico (${generator.getFaviconSizes()})`));
+          log(chalk.gray('  ├── icon.png (512×512) - auto-linked by Next.js'));
+          log(chalk.gray('  ├── apple-icon.png (180×180) - auto-linked by Next.js'));
+          log(chalk.gray('  ├── apple-touch-icon.png (180×180) - for compatibility'));
           if (sourcePath.toLowerCase().endsWith('.svg')) {
-            console.log(chalk.gray('  ├── icon.svg (scalable) - auto-linked by Next.js'));
+            log(chalk.gray('  ├── icon.svg (scalable) - auto-linked by Next.js'));
           }
-          console.log(chalk.gray(`  └── In ${chalk.bold(outputDirRelative)}/\n`));
-
-          console.log(chalk.bold.cyan('📋 Next.js App Router Mode:\n'));
-          console.log(chalk.white('✓ Icons are automatically linked by Next.js'));
-          console.log(chalk.white('✓ No manual <head> tags needed!'));
-          console.log(chalk.white(`✓ Integration guide: ${chalk.bold(instructionsFile)}\n`));
+          if (generatorOptions.og) {
+            log(chalk.gray('  ├── opengraph-image.png, twitter-image.png - auto-linked by Next.js'));
+          }
+          log(chalk.gray(`  ├── ${generator.getManifestFilename()} - web app manifest, auto-linked by Next.js`));
+          if (generatorOptions.hash) {
+            log(chalk.gray('  ├── public/web-icons.assets.json - content-hashed names of the manifest icons'));
+          }
+          log(chalk.gray(`  └── In ${chalk.bold(outputDirRelative)}/, manifest icons in public/\n`));
+
+          log(chalk.bold.cyan('📋 Next.js App Router Mode:\n'));
+          log(chalk.white('✓ Icons are automatically linked by Next.js'));
+          log(chalk.white('✓ No manual <head> tags needed!'));
+          log(chalk.white('✓ Root layout metadata (theme color, iOS title): see the integration guide'));
+          log(chalk.white(`✓ Integration guide: ${chalk.bold(instructionsFile)}`));
+          if (previewFile) {
+            log(chalk.white(`✓ Review the icons in context: ${chalk.bold(previewFile)}`));
+          }
+          if (maskablePreviewFile) {
+            log(chalk.white(`✓ Check the maskable icon's safe zone: ${chalk.bold(maskablePreviewFile)}`));
+          }
+          log('');
         } else {
-          console.log(chalk.gray('  ├── favicon.ico (32×32)'));
+          log(chalk.gray(`  ├── favicon.ico (${generator.getFaviconSizes()})`));
           if (sourcePath.toLowerCase().endsWith('.svg')) {
-            console.log(chalk.gray('  ├── icon.svg (scalable)'));
+            log(chalk.gray('  ├── icon.svg (scalable)'));
           }
-          console.log(chalk.gray('  ├── icon-192.png (192×192)'));
-          console.log(chalk.gray('  ├── icon-512.png (512×512)'));
-          console.log(chalk.gray('  ├── apple-touch-icon.png (180×180)'));
-          console.log(chalk.gray('  ├── icon-maskable.png (512×512, with padding)'));
-          if (sourcePath.toLowerCase().endsWith('.svg')) {
-            console.log(chalk.gray('  ├── safari-pinned-tab.svg (monochrome)'));
+          log(chalk.gray('  ├── icon-192.png (192×192)'));
+          log(chalk.gray('  ├── icon-512.png (512×512)'));
+          log(chalk.gray('  ├── apple-touch-icon.png (180×180)'));
+          log(chalk.gray('  ├── icon-maskable.png (512×512, safe zone on a solid background)'));
+          if (dark) {
+            log(chalk.gray('  ├── icon-dark-32.png, icon-dark-192.png (dark color scheme)'));
           }
-          console.log(chalk.gray('  ├── site.webmanifest'));
-          console.log(chalk.gray(`  └── In ${chalk.bold(outputDirRelative)}/\n`));
-
-          console.log(chalk.bold.cyan('📋 Next steps:\n'));
-          console.log(chalk.white(`1. Review integration guide: ${chalk.bold(instructionsFile)}`));
-          console.log(chalk.white(`2. Copy HTML snippet to your <head> tag`));
-          console.log(chalk.white('3. Deploy and test on different devices!\n'));
+          if (generatorOptions.tiles) {
+            log(chalk.gray('  ├── mstile-70x70.png, mstile-150x150.png, mstile-310x150.png, mstile-310x310.png'));
+            log(chalk.gray('  ├── browserconfig.xml (Windows tiles)'));
+          }
+          if (generatorOptions.splash) {
+            log(chalk.gray(`  ├── splash/ (${SPLASH_SCREEN_CONFIGS.length} iOS launch images)`));
+          }
+          if (generatorOptions.og) {
+            log(chalk.gray('  ├── og-image.png (1200×630), twitter-image.png (1200×600)'));
+          }
+          log(chalk.gray(`  ├── safari-pinned-tab.svg (${sourcePath.toLowerCase().endsWith('.svg') ? 'monochrome' : 'traced'})`));
+          log(chalk.gray(`  ├── ${generator.getManifestFilename()}`));
+          if (generatorOptions.hash) {
+            log(chalk.gray('  ├── web-icons.assets.json (the images above get a content hash in their filenames)'));
+          }
+          log(chalk.gray(`  └── In ${chalk.bold(outputDirRelative)}/\n`));
+
+          log(chalk.bold.cyan('📋 Next steps:\n'));
+          const steps = [
+            `Review integration guide: ${chalk.bold(instructionsFile)}`,
+            'Copy HTML snippet to your <head> tag',
+            ...(previewFile ? [`Review the icons in context: ${chalk.bold(previewFile)}`] : []),
+            ...(maskablePreviewFile ? [`Check the maskable icon's safe zone: ${chalk.bold(maskablePreviewFile)}`] : []),
+            'Deploy and test on different devices!\n',
+          ];
+          steps.forEach((step, index) => log(chalk.white(`${index + 1}. ${step}`)));
         }
 
         // AI-ready prompt
         const aiPrompt = generator.generateAIPrompt(framework?.name || null, outputDirRelative);
-        console.log(chalk.bold.magenta('🤖 AI Assistant Prompt:\n'));
-        console.log(chalk.gray('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
-        console.log(chalk.white(aiPrompt));
-        console.log(chalk.gray('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
-        console.log(chalk.dim('💡 Copy the above prompt to ask an AI assistant to verify your setup\n'));
+
+        if (json) {
+          printJSON({
+            success: true,
+            framework: framework?.name || null,
+            mode: actualMode,
+            target: generator.getTarget(),
+            outputDir: outputDirRelative,
+            files: generator.getWrittenFiles().map(file => path.relative(cwd, file)),
+            removedFiles: generator.getRemovedFiles().map(file => path.relative(cwd, file)),
+            sourceIssues: generator.getSourceIssues(),
+            instructionsFile,
+            maskablePreview: maskablePreviewFile,
+            preview: previewFile,
+            warnings: generator.getWarnings(),
+            aiPrompt,
+          });
+          return;
+        }
+
+        const removed = generator.getRemovedFiles();
+        if (removed.length > 0) {
+          log(chalk.gray(`🧹 Removed ${removed.length} stale icon file${removed.length === 1 ? '' : 's'}: ${removed.map(file => path.relative(cwd, file)).join(', ')}\n`));
+        }
+
+        for (const warning of generator.getWarnings()) {
+          log(chalk.yellow(`⚠️  ${warning}`));
+        }
+
+        log(chalk.bold.magenta('🤖 AI Assistant Prompt:\n'));
+        log(chalk.gray('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
+        log(chalk.white(aiPrompt));
+        log(chalk.gray('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
+        log(chalk.dim('💡 Copy the above prompt to ask an AI assistant to verify your setup\n'));
 
       } catch (error) {
-        if (error instanceof Error) {
+        if (json) {
+          printJSON({ success: false, error: error instanceof Error ? error.message : String(error) });
+        } else if (error instanceof Error) {
           console.error(chalk.red(`\n❌ Error: ${error.message}\n`));
         } else {
           console.error(chalk.red('\n❌ An unexpected error occurred\n'));
@@ -249,6 +923,15 @@ async function main() {
       }
     });
 
+  addGenerationOptions(
+    program
+      .command('check')
+      .description('Check that the generated icons match the current source and options (exits with 1 when stale or missing)')
+      .argument('[source]', 'Source image file (default: config "source", app-icon.svg or app-icon.png)')
+  )
+    .option('--json', 'Print a machine-readable JSON result instead of formatted output')
+    .action(checkCommand);
+
   await program.parseAsync(process.argv);
 }
 
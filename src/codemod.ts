@@ -0,0 +1,271 @@
+import path from 'path';
+import { parse, type ParserPlugin } from '@babel/parser';
+import type { Expression, File, Node, ObjectExpression, ObjectProperty, Statement } from '@babel/types';
+
+// Replace source[start, end) with text; start === end inserts
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Parse a JavaScript or TypeScript module, with JSX where the extension
+ * allows it (.ts files can't have JSX: `<T>x` is a type assertion there).
+ */
+export function parseModule(source: string, filePath: string): File {
+  const extension = path.extname(filePath);
+  const plugins: ParserPlugin[] = /^\.[cm]?ts$/.test(extension) ? ['typescript']
+    : extension === '.tsx' ? ['typescript', 'jsx']
+      : ['jsx'];
+
+  try {
+    return parse(source, { sourceType: 'module', plugins });
+  } catch (error) {
+    throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+export function applyEdits(source: string, edits: TextEdit[]): string {
+  // Back to front so earlier offsets stay valid; edits at the same offset keep their order
+  const ordered = edits.map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+
+  let result = source;
+  for (const { edit } of ordered) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * The value a module exports under a name: the initializer of
+ * `export const name = ...` (without `satisfies`/`as`) or the function of
+ * `export function name`. Also follows `export { name }` to a local const.
+ */
+export function findExport(ast: File, name: string): { statement: Statement; value: Node } | null {
+  for (const statement of ast.program.body) {
+    if (statement.type !== 'ExportNamedDeclaration') continue;
+
+    const declaration = statement.declaration;
+    if (declaration?.type === 'FunctionDeclaration' && declaration.id?.name === name) {
+      return { statement, value: declaration };
+    }
+    if (declaration?.type === 'VariableDeclaration') {
+      const value = findDeclarator(declaration, name);
+      if (value) return { statement, value };
+    }
+
+    const exported = statement.specifiers.some(specifier =>
+      specifier.type === 'ExportSpecifier' &&
+      (specifier.exported.type === 'Identifier' ? specifier.exported.name : specifier.exported.value) === name &&
+      specifier.local.name === name);
+    if (exported && !statement.source) {
+      for (const local of ast.program.body) {
+        if (local.type === 'VariableDeclaration') {
+          const value = findDeclarator(local, name);
+          if (value) return { statement: local, value };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The config object a module exports: `export default defineConfig({...})`,
+ * `module.exports = {...}`, a local `const config = {...}` exported by name,
+ * wrappers like `withPlugin(config)` and functions returning the object.
+ */
+export function findDefaultExportObject(ast: File): ObjectExpression | null {
+  let value: Node | null | undefined = null;
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ExportDefaultDeclaration') {
+      value = statement.declaration;
+    } else if (statement.type === 'ExpressionStatement' && statement.expression.type === 'AssignmentExpression' &&
+      statement.expression.left.type === 'MemberExpression' && statement.expression.left.object.type === 'Identifier' &&
+      statement.expression.left.object.name === 'module' && statement.expression.left.property.type === 'Identifier' &&
+      statement.expression.left.property.name === 'exports') {
+      value = statement.expression.right;
+    }
+  }
+
+  // A few levels of wrapper calls, local names and config functions
+  for (let depth = 0; value && depth < 5; depth++) {
+    value = unwrapExpression(value as Expression);
+    if (value.type === 'ObjectExpression') return value;
+    if (value.type === 'CallExpression') {
+      value = value.arguments[0];
+    } else if (value.type === 'Identifier') {
+      const name = value.name;
+      value = null;
+      for (const statement of ast.program.body) {
+        const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+        value ??= declaration ? findDeclarator(declaration as Statement, name) : null;
+      }
+    } else {
+      value = findReturnedExpression(value);
+    }
+  }
+  return null;
+}
+
+// The expression a function returns: an arrow's expression body or its last top-level return
+export function findReturnedExpression(fn: Node): Expression | null {
+  if (fn.type !== 'ArrowFunctionExpression' && fn.type !== 'FunctionExpression' && fn.type !== 'FunctionDeclaration') {
+    return null;
+  }
+  if (fn.body.type !== 'BlockStatement') {
+    return unwrapExpression(fn.body);
+  }
+  const returns = fn.body.body.filter(statement => statement.type === 'ReturnStatement');
+  const last = returns[returns.length - 1];
+  return last?.type === 'ReturnStatement' && last.argument ? unwrapExpression(last.argument) : null;
+}
+
+export function getProperty(object: ObjectExpression, key: string): ObjectProperty | null {
+  for (const property of object.properties) {
+    if (property.type !== 'ObjectProperty') continue;
+    const name = property.key.type === 'Identifier' ? property.key.name
+      : property.key.type === 'StringLiteral' ? property.key.value
+        : null;
+    if (name === key) return property;
+  }
+  return null;
+}
+
+// Add `key: value` entries to an object literal, in the object's own layout
+export function insertProperties(source: string, object: ObjectExpression, entries: [string, unknown][], quote: string): TextEdit {
+  return insertItems(source, object, object.properties, (indent) =>
+    entries.map(([key, value]) => `${formatKey(key, quote)}: ${toSource(value, indent, quote)}`));
+}
+
+// Whitespace at the start of the line containing the offset
+export function lineIndent(source: string, offset: number): string {
+  const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+  return /^[^\S\n]*/.exec(source.slice(lineStart))![0];
+}
+
+// Quote style of a module, judged by its imports
+export function detectQuote(source: string): string {
+  return /\bfrom\s+"/.test(source) ? '"' : "'";
+}
+
+// Format a JSON-compatible value as a JavaScript literal, two-space indented
+export function toSource(value: unknown, indent: string, quote = "'"): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const inner = indent + '  ';
+    return `[\n${value.map(item => `${inner}${toSource(item, inner, quote)},`).join('\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    const inner = indent + '  ';
+    const fields = entries.map(([key, item]) => `${inner}${formatKey(key, quote)}: ${toSource(item, inner, quote)},`);
+    return `{\n${fields.join('\n')}\n${indent}}`;
+  }
+  if (typeof value === 'string') {
+    const escaped = value.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`).replace(/\n/g, '\\n');
+    return quote + escaped + quote;
+  }
+  return String(value);
+}
+
+// An object key, quoted only when it isn't a valid identifier
+export function formatKey(key: string, quote: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : toSource(key, '', quote);
+}
+
+/**
+ * Insert whole lines (comments, or items with their own commas) after the
+ * last item of an object or array literal, at that item's indentation.
+ * Empty and single-line literals are opened up over several lines.
+ */
+export function insertLines(source: string, container: Node, items: Node[], render: (indent: string) => string[]): TextEdit {
+  const outer = lineIndent(source, container.start!);
+  const last = items[items.length - 1];
+
+  if (!last || source.lastIndexOf('\n', last.start!) < container.start!) {
+    const inner = outer + '  ';
+    const lines = [...items.map(item => `${source.slice(item.start!, item.end!)},`), ...render(inner)];
+    return { start: container.start! + 1, end: container.end! - 1, text: `\n${lines.map(line => line && inner + line).join('\n')}\n${outer}` };
+  }
+
+  const indent = lineIndent(source, last.start!);
+  const lines = render(indent).map(line => `\n${line && indent + line}`).join('');
+  const trailingComma = /^\s*,/.exec(source.slice(last.end!));
+  if (trailingComma) {
+    return { start: last.end! + trailingComma[0].length, end: last.end! + trailingComma[0].length, text: lines };
+  }
+  return { start: last.end!, end: last.end!, text: `,${lines}` };
+}
+
+// Depth-first search of an AST for the first node the predicate accepts
+export function findNode(root: Node, predicate: (node: Node) => boolean): Node | null {
+  if (predicate(root)) return root;
+  for (const key of Object.keys(root) as (keyof Node)[]) {
+    if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments' || key === 'innerComments') continue;
+    const value = root[key] as unknown;
+    const children = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      if (child && typeof child === 'object' && typeof (child as Node).type === 'string') {
+        const found = findNode(child as Node, predicate);
+        if (found) return found;
+      }
+    }
+  }
+  return null;
+}
+
+
+function findDeclarator(declaration: Statement, name: string): Node | null {
+  if (declaration.type !== 'VariableDeclaration') return null;
+  for (const declarator of declaration.declarations) {
+    if (declarator.id.type === 'Identifier' && declarator.id.name === name && declarator.init) {
+      return unwrapExpression(declarator.init);
+    }
+  }
+  return null;
+}
+
+// Look through `x satisfies T`, `x as T` and parentheses
+function unwrapExpression(expression: Expression): Expression {
+  let current = expression;
+  while (current.type === 'TSSatisfiesExpression' || current.type === 'TSAsExpression' || current.type === 'ParenthesizedExpression') {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Insert items after the last one in an object or array literal, one per
+ * line at the indentation of the existing items, keeping any trailing comma
+ * style. Empty and single-line literals are opened up over several lines.
+ */
+function insertItems(source: string, container: Node, items: Node[], render: (indent: string) => string[]): TextEdit {
+  const outer = lineIndent(source, container.start!);
+  const last = items[items.length - 1];
+
+  if (!last) {
+    const inner = outer + '  ';
+    const lines = render(inner).map(item => `${inner}${item},`);
+    return { start: container.start! + 1, end: container.end! - 1, text: `\n${lines.join('\n')}\n${outer}` };
+  }
+
+  // Items written on the opening line: lay the literal out one item per line
+  if (source.lastIndexOf('\n', last.start!) < container.start!) {
+    const inner = outer + '  ';
+    const lines = [...items.map(item => source.slice(item.start!, item.end!)), ...render(inner)].map(item => `${inner}${item},`);
+    return { start: container.start! + 1, end: container.end! - 1, text: `\n${lines.join('\n')}\n${outer}` };
+  }
+
+  const indent = lineIndent(source, last.start!);
+  const rendered = render(indent);
+  const trailingComma = /^\s*,/.exec(source.slice(last.end!));
+
+  if (trailingComma) {
+    return { start: last.end! + trailingComma[0].length, end: last.end! + trailingComma[0].length, text: rendered.map(item => `\n${indent}${item},`).join('') };
+  }
+  return { start: last.end!, end: last.end!, text: rendered.map(item => `,\n${indent}${item}`).join('') };
+}
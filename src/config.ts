@@ -0,0 +1,295 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ICON_CONFIGS, type DarkModeOptions, type IconConfig, type ManifestOptions, type MaskableOptions, type NativeTarget, type OpenGraphImageOptions, type SplashScreenOptions, type WebIconsConfig, type WindowsTileOptions } from './types.js';
+
+export const CONFIG_FILENAME = 'web-icons.config.json';
+export const PACKAGE_JSON_KEY = 'webIcons';
+
+const IconConfigSchema = z.object({
+  id: z.string().optional(),
+  filename: z.string().min(1),
+  size: z.number().int().positive(),
+  format: z.enum(['png', 'ico', 'svg']),
+  mode: z.enum(['traditional', 'nextjs', 'both']).optional(),
+  icoSizes: z.array(z.number().int().min(1).max(256)).nonempty().optional(),
+  icoPayload: z.enum(['png', 'bmp', 'auto']).optional(),
+  purpose: z.enum(['any', 'maskable']).optional(),
+  manifest: z.boolean().optional(),
+}).strict();
+
+export const ManifestOptionsSchema = z.object({
+  filename: z.string().optional(),
+  name: z.string().optional(),
+  shortName: z.string().optional(),
+  description: z.string().optional(),
+  themeColor: z.string().optional(),
+  backgroundColor: z.string().optional(),
+  display: z.enum(['fullscreen', 'standalone', 'minimal-ui', 'browser']).optional(),
+  startUrl: z.string().optional(),
+  scope: z.string().optional(),
+  id: z.string().optional(),
+}).strict();
+
+export const DarkModeOptionsSchema = z.object({
+  source: z.string().optional(),
+  strategy: z.enum(['invert', 'recolor']).optional(),
+  color: z.string().optional(),
+}).strict();
+
+export const SplashScreenOptionsSchema = z.object({
+  backgroundColor: z.string().optional(),
+}).strict();
+
+export const WindowsTileOptionsSchema = z.object({
+  color: z.string().optional(),
+}).strict();
+
+export const MaskableOptionsSchema = z.object({
+  source: z.string().optional(),
+  safeZone: z.number().min(10).max(100).optional(),
+  background: z.string().optional(),
+  preview: z.boolean().optional(),
+}).strict();
+
+export const OpenGraphImageOptionsSchema = z.object({
+  background: z.string().optional(),
+  title: z.string().optional(),
+  subtitle: z.string().optional(),
+  textColor: z.string().optional(),
+}).strict();
+
+const WebIconsConfigSchema = z.object({
+  source: z.string().optional(),
+  outputDir: z.union([
+    z.string(),
+    z.object({
+      traditional: z.string().optional(),
+      nextjs: z.string().optional(),
+      android: z.string().optional(),
+      ios: z.string().optional(),
+      desktop: z.string().optional(),
+    }).strict(),
+  ]).optional(),
+  mode: z.enum(['traditional', 'nextjs', 'auto']).optional(),
+  target: z.enum(['web', 'android', 'ios', 'desktop']).optional(),
+  color: z.string().optional(),
+  manifest: ManifestOptionsSchema.optional(),
+  dark: DarkModeOptionsSchema.optional(),
+  splash: SplashScreenOptionsSchema.optional(),
+  tiles: WindowsTileOptionsSchema.optional(),
+  og: OpenGraphImageOptionsSchema.optional(),
+  maskable: MaskableOptionsSchema.optional(),
+  basePath: z.string().optional(),
+  assetPrefix: z.string().optional(),
+  hash: z.boolean().optional(),
+  preview: z.boolean().optional(),
+  icons: z.object({
+    add: z.array(IconConfigSchema).optional(),
+    remove: z.array(z.string()).optional(),
+    rename: z.record(z.string(), z.string()).optional(),
+  }).strict().optional(),
+}).strict();
+
+export interface LoadedConfig {
+  config: WebIconsConfig;
+  configPath: string | null; // File the config was read from (null when none was found)
+}
+
+/**
+ * Load the project config from web-icons.config.json, falling back to the
+ * "webIcons" key in package.json. Returns an empty config when neither exists.
+ */
+export async function loadProjectConfig(projectRoot: string): Promise<LoadedConfig> {
+  const configPath = path.join(projectRoot, CONFIG_FILENAME);
+  const configJson = await readJSON(configPath);
+  if (configJson !== undefined) {
+    return { config: parseConfig(configJson, configPath), configPath };
+  }
+
+  const packagePath = path.join(projectRoot, 'package.json');
+  const packageJson = await readJSON(packagePath);
+  if (packageJson && typeof packageJson === 'object' && PACKAGE_JSON_KEY in packageJson) {
+    const value = (packageJson as Record<string, unknown>)[PACKAGE_JSON_KEY];
+    return { config: parseConfig(value, `${packagePath} (${PACKAGE_JSON_KEY})`), configPath: packagePath };
+  }
+
+  return { config: {}, configPath: null };
+}
+
+async function readJSON(filePath: string): Promise<unknown> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${filePath}: ${reason}`);
+  }
+}
+
+function parseConfig(value: unknown, source: string): WebIconsConfig {
+  const result = WebIconsConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid web icons config in ${source}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Apply the config's add/remove/rename rules to the default icon set.
+ * Renamed entries keep their original filename as `id` so references
+ * (manifest, HTML snippet) can still find them.
+ */
+export function resolveIconConfigs(icons: WebIconsConfig['icons']): IconConfig[] {
+  if (!icons) {
+    return ICON_CONFIGS;
+  }
+
+  const removed = new Set(icons.remove || []);
+  const added = icons.add || [];
+  const addedFilenames = new Set(added.map(config => config.filename));
+
+  const resolved = ICON_CONFIGS
+    .filter(config => !removed.has(config.filename) && !addedFilenames.has(config.filename))
+    .concat(added)
+    .map((config): IconConfig => {
+      const renamed = icons.rename?.[config.filename];
+      return renamed ? { ...config, id: config.id || config.filename, filename: renamed } : config;
+    });
+
+  const seen = new Set<string>();
+  for (const config of resolved) {
+    if (seen.has(config.filename)) {
+      throw new Error(`Duplicate icon filename in config: ${config.filename}`);
+    }
+    seen.add(config.filename);
+  }
+
+  return resolved;
+}
+
+/**
+ * Output directory configured for the given mode or native target, resolved
+ * against the project root. A single string is the web output directory.
+ */
+export function resolveConfigOutputDir(
+  config: WebIconsConfig,
+  mode: 'traditional' | 'nextjs' | NativeTarget,
+  projectRoot: string
+): string | undefined {
+  const outputDir = typeof config.outputDir === 'string'
+    ? (mode === 'traditional' || mode === 'nextjs' ? config.outputDir : undefined)
+    : config.outputDir?.[mode];
+  return outputDir ? path.resolve(projectRoot, outputDir) : undefined;
+}
+
+/**
+ * Merge manifest fields from the config with explicitly passed ones (explicit wins).
+ */
+export function mergeManifestOptions(
+  config: WebIconsConfig,
+  explicit: ManifestOptions
+): ManifestOptions {
+  const defined = Object.fromEntries(Object.entries(explicit).filter(([, value]) => value !== undefined));
+  return { ...config.manifest, ...defined };
+}
+
+/**
+ * Merge dark mode settings from the config with explicitly passed ones (explicit wins).
+ * Returns undefined when dark mode is not enabled by either.
+ */
+export function mergeDarkModeOptions(
+  config: WebIconsConfig,
+  explicit: DarkModeOptions,
+  projectRoot: string
+): DarkModeOptions | undefined {
+  const defined = Object.fromEntries(Object.entries(explicit).filter(([, value]) => value !== undefined));
+  const merged: DarkModeOptions = { ...config.dark, ...defined };
+
+  if (!merged.source && !merged.strategy) {
+    return undefined;
+  }
+
+  // Config paths are relative to the project root
+  if (merged.source) {
+    merged.source = path.resolve(projectRoot, merged.source);
+  }
+  return merged;
+}
+
+/**
+ * Merge splash screen settings from the config with explicitly passed ones (explicit wins).
+ * Returns undefined when splash screens are enabled by neither.
+ */
+export function mergeSplashScreenOptions(
+  config: WebIconsConfig,
+  explicit: SplashScreenOptions | undefined
+): SplashScreenOptions | undefined {
+  if (!config.splash && !explicit) {
+    return undefined;
+  }
+  const defined = Object.fromEntries(Object.entries(explicit || {}).filter(([, value]) => value !== undefined));
+  return { ...config.splash, ...defined };
+}
+
+/**
+ * Merge Windows tile settings from the config with explicitly passed ones (explicit wins).
+ * Returns undefined when tiles are enabled by neither.
+ */
+export function mergeWindowsTileOptions(
+  config: WebIconsConfig,
+  explicit: WindowsTileOptions | undefined
+): WindowsTileOptions | undefined {
+  if (!config.tiles && !explicit) {
+    return undefined;
+  }
+  const defined = Object.fromEntries(Object.entries(explicit || {}).filter(([, value]) => value !== undefined));
+  return { ...config.tiles, ...defined };
+}
+
+/**
+ * Merge Open Graph image settings from the config with explicitly passed ones (explicit wins).
+ * Returns undefined when social images are enabled by neither.
+ */
+export function mergeOpenGraphImageOptions(
+  config: WebIconsConfig,
+  explicit: OpenGraphImageOptions | undefined
+): OpenGraphImageOptions | undefined {
+  if (!config.og && !explicit) {
+    return undefined;
+  }
+  const defined = Object.fromEntries(Object.entries(explicit || {}).filter(([, value]) => value !== undefined));
+  return { ...config.og, ...defined };
+}
+
+/**
+ * Merge maskable icon settings from the config with explicitly passed ones (explicit wins).
+ * Returns undefined when neither sets any, so the defaults apply.
+ */
+export function mergeMaskableOptions(
+  config: WebIconsConfig,
+  explicit: MaskableOptions,
+  projectRoot: string
+): MaskableOptions | undefined {
+  const defined = Object.fromEntries(Object.entries(explicit).filter(([, value]) => value !== undefined));
+  const merged: MaskableOptions = { ...config.maskable, ...defined };
+
+  if (Object.keys(merged).length === 0) {
+    return undefined;
+  }
+
+  // Config paths are relative to the project root
+  if (merged.source) {
+    merged.source = path.resolve(projectRoot, merged.source);
+  }
+  return merged;
+}
@@ -0,0 +1,82 @@
+import { parseSvg, getRootSvg, serializeSvg, type SvgElement } from './svg.js';
+
+export type DarkVariant =
+  | { type: 'invert' } // Invert colors, keeping hues
+  | { type: 'image'; mimeType: string; data: Buffer }; // Separate artwork for dark backgrounds
+
+const INVERT_STYLE = '@media (prefers-color-scheme: dark) { :root { filter: invert(1) hue-rotate(180deg); } }';
+
+// Class names are prefixed to stay clear of classes used by the source artwork
+const SWITCH_STYLE =
+  '.web-icons-dark { display: none; } ' +
+  '@media (prefers-color-scheme: dark) { .web-icons-light { display: none; } .web-icons-dark { display: inline; } }';
+
+/**
+ * Build an icon.svg that follows the browser's color scheme through an
+ * embedded `@media (prefers-color-scheme: dark)` style.
+ *
+ * Inverted variants add a filter to the source. Separate dark artwork is
+ * embedded as a data URI next to the untouched light artwork, so IDs and
+ * <style> rules of the two images cannot collide.
+ */
+export function createDarkModeSvg(lightSource: string, dark: DarkVariant): string {
+  const document = parseSvg(lightSource);
+  const root = getRootSvg(document);
+
+  if (dark.type === 'invert') {
+    root.children.unshift(styleElement(INVERT_STYLE));
+    return serializeSvg(document);
+  }
+
+  const { x, y, width, height } = getViewBox(root);
+  const light: SvgElement = {
+    ...root,
+    attributes: { ...root.attributes, class: 'web-icons-light', x: String(x), y: String(y), width: String(width), height: String(height) },
+  };
+
+  const wrapper: SvgElement = {
+    type: 'element',
+    name: 'svg',
+    attributes: { xmlns: 'http://www.w3.org/2000/svg', viewBox: `${x} ${y} ${width} ${height}` },
+    children: [
+      styleElement(SWITCH_STYLE),
+      light,
+      {
+        type: 'element',
+        name: 'image',
+        attributes: {
+          class: 'web-icons-dark',
+          x: String(x),
+          y: String(y),
+          width: String(width),
+          height: String(height),
+          href: `data:${dark.mimeType};base64,${dark.data.toString('base64')}`,
+        },
+        children: [],
+      },
+    ],
+  };
+
+  return serializeSvg(wrapper) + '\n';
+}
+
+function styleElement(css: string): SvgElement {
+  return { type: 'element', name: 'style', attributes: {}, children: [{ type: 'text', value: css }] };
+}
+
+function getViewBox(root: SvgElement): { x: number; y: number; width: number; height: number } {
+  const viewBox = (root.attributes.viewBox || '').trim().split(/[\s,]+/).map(Number);
+  if (viewBox.length === 4 && viewBox.every(Number.isFinite)) {
+    return { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] };
+  }
+
+  // Fall back to absolute width/height (unitless or px)
+  const width = parseFloat(root.attributes.width || '');
+  const height = parseFloat(root.attributes.height || '');
+  return {
+    x: 0,
+    y: 0,
+    width: Number.isFinite(width) ? width : 512,
+    height: Number.isFinite(height) ? height : 512,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Unified diff between two versions of a file. Lines are matched greedily,
+ * which is exact for insertions, removals and rewritten lines, the only
+ * changes our file edits make.
+ */
+export function formatUnifiedDiff(filePath: string, before: string, after: string, context = 3): string {
+  // A final newline ends the last line rather than starting an empty one
+  const oldLines = before.replace(/\n$/, '').split('\n');
+  const newLines = after.replace(/\n$/, '').split('\n');
+  const ops: { type: ' ' | '-' | '+'; text: string }[] = [];
+
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      ops.push({ type: ' ', text: oldLines[i++] });
+      j++;
+    } else if (i < oldLines.length && (j >= newLines.length || !newLines.includes(oldLines[i], j))) {
+      ops.push({ type: '-', text: oldLines[i++] });
+    } else {
+      ops.push({ type: '+', text: newLines[j++] });
+    }
+  }
+
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    // Grow the hunk until the gap to the next change is wider than the context on both sides
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < ops.length) {
+      let next = end;
+      while (next < ops.length && ops[next].type !== ' ') next++;
+      let gap = next;
+      while (gap < ops.length && ops[gap].type === ' ') gap++;
+      end = next;
+      if (gap >= ops.length || gap - next > context * 2) break;
+      end = gap;
+    }
+    end = Math.min(ops.length, end + context);
+
+    const oldStart = ops.slice(0, start).filter(op => op.type !== '+').length + 1;
+    const newStart = ops.slice(0, start).filter(op => op.type !== '-').length + 1;
+    const lines = ops.slice(start, end);
+    const oldCount = lines.filter(op => op.type !== '+').length;
+    const newCount = lines.filter(op => op.type !== '-').length;
+    hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n${lines.map(op => op.type + op.text).join('\n')}`);
+    index = end;
+  }
+
+  return `--- a/${filePath}\n+++ b/${filePath}\n${hunks.join('\n')}`;
+}
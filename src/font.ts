@@ -0,0 +1,397 @@
+import { promises as fs } from 'fs';
+import { inflateSync } from 'zlib';
+
+interface Point {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+// Simple glyph flags
+const ON_CURVE = 0x01;
+const X_SHORT = 0x02;
+const Y_SHORT = 0x04;
+const REPEAT = 0x08;
+const X_SAME_OR_POSITIVE = 0x10;
+const Y_SAME_OR_POSITIVE = 0x20;
+
+// Composite glyph flags
+const ARG_WORDS = 0x0001;
+const ARGS_ARE_XY = 0x0002;
+const HAS_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const HAS_XY_SCALE = 0x0040;
+const HAS_2X2 = 0x0080;
+
+/**
+ * Minimal TrueType reader that turns text into SVG path data, so text can be
+ * drawn with a bundled font without relying on fonts installed on the system
+ * (librsvg only knows those). Reads TTF and WOFF files with glyf outlines;
+ * no kerning, ligatures or complex shaping.
+ */
+export class Font {
+  private tables = new Map<string, Buffer>();
+  private glyphs = new Map<number, Point[][]>();
+  readonly unitsPerEm: number;
+  readonly ascender: number;
+  readonly descender: number; // Negative, below the baseline
+  private indexToLocFormat: number;
+  private numberOfHMetrics: number;
+  private cmap: (codePoint: number) => number;
+
+  constructor(data: Buffer) {
+    this.readTables(data);
+
+    const head = this.table('head');
+    this.unitsPerEm = head.readUInt16BE(18);
+    this.indexToLocFormat = head.readInt16BE(50);
+
+    const hhea = this.table('hhea');
+    this.ascender = hhea.readInt16BE(4);
+    this.descender = hhea.readInt16BE(6);
+    this.numberOfHMetrics = hhea.readUInt16BE(34);
+
+    this.cmap = this.readCmap();
+  }
+
+  static async load(filePath: string | URL): Promise<Font> {
+    return new Font(await fs.readFile(filePath));
+  }
+
+  // Advance width of the text in pixels at the given font size
+  measure(text: string, fontSize: number): number {
+    const scale = fontSize / this.unitsPerEm;
+    let width = 0;
+    for (const char of text) {
+      width += this.advanceWidth(this.cmap(char.codePointAt(0)!)) * scale;
+    }
+    return width;
+  }
+
+  /**
+   * SVG path data for the text with its baseline starting at (x, y).
+   */
+  getPath(text: string, x: number, y: number, fontSize: number): string {
+    const scale = fontSize / this.unitsPerEm;
+    const format = (value: number) => String(Math.round(value * 100) / 100);
+    const commands: string[] = [];
+
+    let penX = x;
+    for (const char of text) {
+      const glyphId = this.cmap(char.codePointAt(0)!);
+      for (const contour of this.getContours(glyphId)) {
+        // Font units point up, SVG units down
+        const points = contour.map(point => ({ x: penX + point.x * scale, y: y - point.y * scale, onCurve: point.onCurve }));
+        commands.push(contourToPath(points, format));
+      }
+      penX += this.advanceWidth(glyphId) * scale;
+    }
+
+    return commands.join('');
+  }
+
+  private readTables(data: Buffer): void {
+    const signature = data.toString('ascii', 0, 4);
+
+    if (signature === 'wOFF') {
+      // WOFF 1.0: sfnt tables, each optionally zlib-compressed
+      const numTables = data.readUInt16BE(12);
+      for (let i = 0; i < numTables; i++) {
+        const entry = 44 + i * 20;
+        const tag = data.toString('ascii', entry, entry + 4);
+        const offset = data.readUInt32BE(entry + 4);
+        const compLength = data.readUInt32BE(entry + 8);
+        const origLength = data.readUInt32BE(entry + 12);
+        const table = data.subarray(offset, offset + compLength);
+        this.tables.set(tag, compLength < origLength ? inflateSync(table) : table);
+      }
+      return;
+    }
+
+    if (signature === 'OTTO') {
+      throw new Error('CFF-based OpenType fonts are not supported; use a TrueType (glyf) font');
+    }
+    if (data.readUInt32BE(0) !== 0x00010000 && signature !== 'true') {
+      throw new Error('Unsupported font format: expected a TrueType or WOFF file');
+    }
+
+    const numTables = data.readUInt16BE(4);
+    for (let i = 0; i < numTables; i++) {
+      const entry = 12 + i * 16;
+      const tag = data.toString('ascii', entry, entry + 4);
+      const offset = data.readUInt32BE(entry + 8);
+      const length = data.readUInt32BE(entry + 12);
+      this.tables.set(tag, data.subarray(offset, offset + length));
+    }
+  }
+
+  private table(tag: string): Buffer {
+    const table = this.tables.get(tag);
+    if (!table) {
+      throw new Error(`Font is missing the required "${tag}" table`);
+    }
+    return table;
+  }
+
+  // Unicode → glyph id lookup from a format 4 (BMP) or format 12 (full range) subtable
+  private readCmap(): (codePoint: number) => number {
+    const cmap = this.table('cmap');
+    const numSubtables = cmap.readUInt16BE(2);
+
+    let format4: number | null = null;
+    let format12: number | null = null;
+    for (let i = 0; i < numSubtables; i++) {
+      const platformId = cmap.readUInt16BE(4 + i * 8);
+      const encodingId = cmap.readUInt16BE(6 + i * 8);
+      const offset = cmap.readUInt32BE(8 + i * 8);
+      const isUnicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+      if (!isUnicode) continue;
+
+      const format = cmap.readUInt16BE(offset);
+      if (format === 12) format12 ??= offset;
+      if (format === 4) format4 ??= offset;
+    }
+
+    if (format12 !== null) {
+      const offset = format12;
+      const numGroups = cmap.readUInt32BE(offset + 12);
+      return (codePoint) => {
+        for (let i = 0; i < numGroups; i++) {
+          const group = offset + 16 + i * 12;
+          const start = cmap.readUInt32BE(group);
+          const end = cmap.readUInt32BE(group + 4);
+          if (codePoint >= start && codePoint <= end) {
+            return cmap.readUInt32BE(group + 8) + codePoint - start;
+          }
+        }
+        return 0;
+      };
+    }
+
+    if (format4 !== null) {
+      const offset = format4;
+      const segCount = cmap.readUInt16BE(offset + 6) / 2;
+      const endCodes = offset + 14;
+      const startCodes = endCodes + segCount * 2 + 2;
+      const idDeltas = startCodes + segCount * 2;
+      const idRangeOffsets = idDeltas + segCount * 2;
+      return (codePoint) => {
+        for (let i = 0; i < segCount; i++) {
+          if (codePoint > cmap.readUInt16BE(endCodes + i * 2)) continue;
+          const start = cmap.readUInt16BE(startCodes + i * 2);
+          if (codePoint < start) return 0;
+
+          const delta = cmap.readInt16BE(idDeltas + i * 2);
+          const rangeOffset = cmap.readUInt16BE(idRangeOffsets + i * 2);
+          if (rangeOffset === 0) {
+            return (codePoint + delta) & 0xffff;
+          }
+          const glyphId = cmap.readUInt16BE(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+          return glyphId === 0 ? 0 : (glyphId + delta) & 0xffff;
+        }
+        return 0;
+      };
+    }
+
+    throw new Error('Font has no Unicode character map');
+  }
+
+  private advanceWidth(glyphId: number): number {
+    const hmtx = this.table('hmtx');
+    const index = Math.min(glyphId, this.numberOfHMetrics - 1);
+    return hmtx.readUInt16BE(index * 4);
+  }
+
+  private glyphData(glyphId: number): Buffer | null {
+    const loca = this.table('loca');
+    const [start, end] = this.indexToLocFormat === 0
+      ? [loca.readUInt16BE(glyphId * 2) * 2, loca.readUInt16BE(glyphId * 2 + 2) * 2]
+      : [loca.readUInt32BE(glyphId * 4), loca.readUInt32BE(glyphId * 4 + 4)];
+    return end > start ? this.table('glyf').subarray(start, end) : null; // Empty glyphs (space)
+  }
+
+  private getContours(glyphId: number, depth = 0): Point[][] {
+    const cached = this.glyphs.get(glyphId);
+    if (cached) return cached;
+
+    const data = this.glyphData(glyphId);
+    let contours: Point[][] = [];
+    if (data) {
+      const numberOfContours = data.readInt16BE(0);
+      contours = numberOfContours >= 0
+        ? readSimpleGlyph(data, numberOfContours)
+        : depth < 8 ? this.readCompositeGlyph(data, depth) : [];
+    }
+
+    this.glyphs.set(glyphId, contours);
+    return contours;
+  }
+
+  // Accented letters and similar: other glyphs placed with an offset and optional scale
+  private readCompositeGlyph(data: Buffer, depth: number): Point[][] {
+    const contours: Point[][] = [];
+    let offset = 10;
+    let flags: number;
+
+    do {
+      flags = data.readUInt16BE(offset);
+      const componentId = data.readUInt16BE(offset + 2);
+      offset += 4;
+
+      let dx = 0;
+      let dy = 0;
+      if (flags & ARG_WORDS) {
+        dx = data.readInt16BE(offset);
+        dy = data.readInt16BE(offset + 2);
+        offset += 4;
+      } else {
+        dx = data.readInt8(offset);
+        dy = data.readInt8(offset + 1);
+        offset += 2;
+      }
+      if (!(flags & ARGS_ARE_XY)) {
+        dx = 0; // Point-matched placement is rare in text fonts; place at the origin
+        dy = 0;
+      }
+
+      let [a, b, c, d] = [1, 0, 0, 1];
+      const f2dot14 = (at: number) => data.readInt16BE(at) / 16384;
+      if (flags & HAS_SCALE) {
+        a = d = f2dot14(offset);
+        offset += 2;
+      } else if (flags & HAS_XY_SCALE) {
+        a = f2dot14(offset);
+        d = f2dot14(offset + 2);
+        offset += 4;
+      } else if (flags & HAS_2X2) {
+        [a, b, c, d] = [f2dot14(offset), f2dot14(offset + 2), f2dot14(offset + 4), f2dot14(offset + 6)];
+        offset += 8;
+      }
+
+      for (const contour of this.getContours(componentId, depth + 1)) {
+        contours.push(contour.map(point => ({
+          x: point.x * a + point.y * c + dx,
+          y: point.x * b + point.y * d + dy,
+          onCurve: point.onCurve,
+        })));
+      }
+    } while (flags & MORE_COMPONENTS);
+
+    return contours;
+  }
+}
+
+function readSimpleGlyph(data: Buffer, numberOfContours: number): Point[][] {
+  let offset = 10;
+  const endPoints: number[] = [];
+  for (let i = 0; i < numberOfContours; i++) {
+    endPoints.push(data.readUInt16BE(offset));
+    offset += 2;
+  }
+  const numPoints = numberOfContours > 0 ? endPoints[numberOfContours - 1] + 1 : 0;
+  offset += 2 + data.readUInt16BE(offset); // Skip hinting instructions
+
+  const flags: number[] = [];
+  while (flags.length < numPoints) {
+    const flag = data[offset++];
+    flags.push(flag);
+    if (flag & REPEAT) {
+      for (let count = data[offset++]; count > 0; count--) flags.push(flag);
+    }
+  }
+
+  // Coordinates are deltas: one or two bytes each, or repeated (0) when the "same" flag is set
+  const readCoordinates = (short: number, sameOrPositive: number): number[] => {
+    const values: number[] = [];
+    let value = 0;
+    for (const flag of flags) {
+      if (flag & short) {
+        value += flag & sameOrPositive ? data[offset] : -data[offset];
+        offset += 1;
+      } else if (!(flag & sameOrPositive)) {
+        value += data.readInt16BE(offset);
+        offset += 2;
+      }
+      values.push(value);
+    }
+    return values;
+  };
+  const xs = readCoordinates(X_SHORT, X_SAME_OR_POSITIVE);
+  const ys = readCoordinates(Y_SHORT, Y_SAME_OR_POSITIVE);
+
+  const contours: Point[][] = [];
+  let start = 0;
+  for (const end of endPoints) {
+    const contour: Point[] = [];
+    for (let i = start; i <= end; i++) {
+      contour.push({ x: xs[i], y: ys[i], onCurve: Boolean(flags[i] & ON_CURVE) });
+    }
+    contours.push(contour);
+    start = end + 1;
+  }
+  return contours;
+}
+
+// Quadratic B-spline contour → SVG path; two off-curve points in a row imply an on-curve midpoint
+function contourToPath(points: Point[], format: (value: number) => string): string {
+  if (points.length === 0) return '';
+
+  const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, onCurve: true });
+
+  // Start on an on-curve point (or the implied one between two off-curve points)
+  const firstOn = points.findIndex(point => point.onCurve);
+  const ordered = firstOn === -1
+    ? [midpoint(points[points.length - 1], points[0]), ...points]
+    : [...points.slice(firstOn), ...points.slice(0, firstOn)];
+
+  let path = `M${format(ordered[0].x)} ${format(ordered[0].y)}`;
+  let control: Point | null = null;
+  for (const point of [...ordered.slice(1), ordered[0]]) {
+    if (point.onCurve) {
+      path += control
+        ? `Q${format(control.x)} ${format(control.y)} ${format(point.x)} ${format(point.y)}`
+        : `L${format(point.x)} ${format(point.y)}`;
+      control = null;
+    } else if (control) {
+      const implied = midpoint(control, point);
+      path += `Q${format(control.x)} ${format(control.y)} ${format(implied.x)} ${format(implied.y)}`;
+      control = point;
+    } else {
+      control = point;
+    }
+  }
+  return `${path}Z`;
+}
+
+/**
+ * Greedy word wrap to at most `maxLines` lines; the last line is shortened
+ * with an ellipsis when the text doesn't fit.
+ */
+export function wrapText(font: Font, text: string, fontSize: number, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.measure(candidate, fontSize) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  // Lines that are still too wide (one long word) or cut off get an ellipsis
+  const overflow = lines.length > maxLines;
+  return lines.slice(0, maxLines).map((entry, index) => {
+    const cutOff = overflow && index === maxLines - 1;
+    if (!cutOff && font.measure(entry, fontSize) <= maxWidth) {
+      return entry;
+    }
+    let shortened = entry;
+    while (shortened && font.measure(`${shortened}…`, fontSize) > maxWidth) {
+      shortened = shortened.slice(0, -1);
+    }
+    return `${shortened.trimEnd()}…`;
+  });
+}
@@ -1,16 +1,54 @@
 import sharp from 'sharp';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { ICON_CONFIGS, type IconConfig, type GeneratorOptions } from './types.js';
+import { ICON_CONFIGS, DARK_ICON_CONFIGS, DEFAULT_ICO_SIZES, SPLASH_SCREEN_CONFIGS, TILE_CONFIGS, ANDROID_DENSITIES, APP_ICON_SET_IMAGES, DESKTOP_ICO_SIZES, HICOLOR_SIZES, TAURI_ICON_FILES, SOCIAL_IMAGE_CONFIGS, MASKABLE_MASKS, type IconConfig, type IconTarget, type NativeTarget, type SocialImageConfig, type SplashScreenConfig, type TileConfig, type GeneratorOptions, type IconCheckResult, type IconSourceKind, type PlannedFile, type RenderedFile } from './types.js';
+import { encodeIco, type IcoImage } from './ico.js';
+import { encodeIcns, ICNS_SIZES } from './icns.js';
+import { Font, wrapText } from './font.js';
+import { convertSvgToMonochrome, traceRasterToSvg } from './monochrome.js';
+import { createDarkModeSvg, type DarkVariant } from './dark.js';
+import { findExistingManifest, mergeManifest, readPackageDefaults, type ManifestIcon } from './manifest.js';
+import { findAppManifest, findRootLayout, patchLayout, renderLayoutExports, renderManifestModule, type LayoutExports } from './nextjs.js';
+import { renderHeadTags, type HeadTag, type HeadTagGroup } from './integrate.js';
+import { formatUnifiedDiff } from './diff.js';
+import { normalizePrefix, toAssetUrl } from './basepath.js';
+import { validateSourceFile } from './utils.js';
+import { assertUsableSource, formatSourceIssue, type SourceIssue } from './lint.js';
+import { ICON_PREVIEW_FILENAME, renderIconPreview, type PreviewImage } from './preview.js';
+import { ASSET_MAP_FILENAME, fingerprintFilename, readAssetMap, serializeAssetMap, type AssetMap } from './assets.js';
+import { getStampFilename, hashContent, hashOptions, readStamp, serializeStamp, toStampPath } from './stamp.js';
+
+// Bundled so social image text renders the same everywhere (Inter, SIL Open Font License)
+const TITLE_FONT_URL = new URL('../assets/fonts/Inter-Bold.woff', import.meta.url);
+const SUBTITLE_FONT_URL = new URL('../assets/fonts/Inter-Regular.woff', import.meta.url);
+
+const DEFAULT_MASKABLE_SAFE_ZONE = 60; // Percent of the icon the artwork fills
+const MASKABLE_PREVIEW_FILENAME = 'maskable-preview.png';
 
 export class IconGenerator {
   private options: GeneratorOptions;
   private mode: 'traditional' | 'nextjs';
+  private target: IconTarget;
+  private desktopAppName = 'app';
+  private manifestFilename: string;
+  private nextjsGuide = ''; // Manifest and root layout instructions in Next.js mode
+  private outputs: RenderedFile[] = [];
+  private sourceData = Buffer.alloc(0); // The source image as read for the current render
+  private renderCache = new Map<string, { source: IconSourceKind; data: Buffer }>(); // Images of the last render, by output
+  private writtenFiles: string[] = [];
+  private removedFiles: string[] = [];
+  private assetNames: AssetMap = {}; // Logical → fingerprinted filename (hash option)
+  private warnings: string[] = [];
+  private sourceIssues: SourceIssue[] = [];
+  private maskablePreviewPath: string | null = null;
+  private previewPath: string | null = null;
 
   constructor(options: GeneratorOptions) {
     this.options = options;
+    this.manifestFilename = options.manifest?.filename || 'site.webmanifest';
     // Determine actual mode (resolve 'auto' to concrete mode)
     this.mode = this.resolveMode(options.mode || 'traditional');
+    this.target = options.target || 'web';
   }
 
   private resolveMode(mode: GeneratorOptions['mode']): 'traditional' | 'nextjs' {
@@ -22,182 +60,1362 @@ export class IconGenerator {
     return mode || 'traditional';
   }
 
-  async generate(): Promise<void> {
+  /**
+   * Render and write every output. With `onlyChanged`, files whose content
+   * is already on disk are left untouched (watch mode), and only the others
+   * count as written. `changedSources` lists the source images that changed
+   * since this instance's last render: only the images made from them are
+   * rendered again, and the rest are reused.
+   */
+  async generate(options: { onlyChanged?: boolean; changedSources?: IconSourceKind[] } = {}): Promise<void> {
+    const files = await this.render(options.changedSources);
+    const staleFiles = await this.getStaleFiles();
+
     // Ensure output directory exists
     await fs.mkdir(this.options.outputDir, { recursive: true });
 
+    this.writtenFiles = [];
+    for (const file of files) {
+      if (options.onlyChanged && (await fs.readFile(file.path).catch(() => null))?.equals(file.data)) {
+        continue;
+      }
+      await fs.mkdir(path.dirname(file.path), { recursive: true });
+      await fs.writeFile(file.path, file.data);
+      this.writtenFiles.push(file.path);
+    }
+
+    this.removedFiles = [];
+    for (const file of staleFiles) {
+      await fs.rm(file, { force: true });
+      this.removedFiles.push(file);
+    }
+  }
+
+  /**
+   * Compute every file generate() would write, without touching the disk,
+   * and compare each one with what is there now.
+   */
+  async plan(): Promise<PlannedFile[]> {
+    const files = await this.render();
+    const removals = (await this.getStaleFiles()).map((file): PlannedFile => ({ path: file, action: 'delete', changed: true }));
+
+    const planned = await Promise.all(files.map(async (file): Promise<PlannedFile> => {
+      let existing: Buffer | null = null;
+      try {
+        existing = await fs.readFile(file.path);
+      } catch {
+        // File doesn't exist yet
+      }
+
+      const changed = existing === null || !existing.equals(file.data);
+      return {
+        path: file.path,
+        action: existing === null ? 'create' : changed ? 'overwrite' : 'unchanged',
+        changed,
+        ...(file.dimensions ? { dimensions: file.dimensions } : {}),
+      };
+    }));
+    return [...planned, ...removals];
+  }
+
+  /**
+   * Files left over from earlier runs: anything in the previous asset map
+   * that this run doesn't write, the map itself once hashing is turned off,
+   * and the unhashed names of this run's fingerprinted files once it is
+   * turned on. Only files that still exist are returned.
+   */
+  private async getStaleFiles(): Promise<string[]> {
+    if (this.target !== 'web') return [];
+
+    const dir = path.resolve(this.getAssetDir());
+    const previous = await readAssetMap(dir);
+    if (!previous && !this.options.hash) return [];
+
+    const current = new Set(this.outputs.map(file => path.resolve(file.path)));
+    const candidates = [
+      ...Object.entries(previous ?? {})
+        .filter(([logical, hashed]) => typeof hashed === 'string' && hashed !== logical)
+        .map(([, hashed]) => path.resolve(dir, hashed)),
+      // Written under its plain name before hashing was turned on
+      ...Object.entries(this.assetNames)
+        .filter(([logical, hashed]) => hashed !== logical)
+        .map(([logical]) => path.resolve(dir, logical)),
+    ]
+      // Never reach outside the directory the map describes
+      .filter(file => file.startsWith(dir + path.sep) && !current.has(file));
+    if (previous && !this.options.hash) {
+      candidates.push(path.join(dir, ASSET_MAP_FILENAME));
+    }
+
+    const stale: string[] = [];
+    for (const file of candidates) {
+      if (await fs.access(file).then(() => true, () => false)) {
+        stale.push(file);
+      }
+    }
+    return stale;
+  }
+
+  /**
+   * Render every file generate() would write, without touching the disk,
+   * for build tools that emit or serve the files themselves.
+   */
+  async renderFiles(): Promise<RenderedFile[]> {
+    return (await this.render()).map(file => ({ ...file }));
+  }
+
+  // Render all outputs in memory
+  private async render(changedSources?: IconSourceKind[]): Promise<RenderedFile[]> {
+    if (!changedSources || changedSources.includes('source')) {
+      this.renderCache.clear();
+    } else {
+      for (const [key, entry] of this.renderCache) {
+        if (changedSources.includes(entry.source)) {
+          this.renderCache.delete(key);
+        }
+      }
+    }
+
+    this.outputs = [];
+    this.warnings = [];
+    this.nextjsGuide = '';
+    this.assetNames = {};
+    this.maskablePreviewPath = null;
+    this.previewPath = null;
+
+    // Sources are passed to sharp as buffers: libvips caches decoded files by path, so
+    // a source edited between runs in one process (watch mode, the Vite dev server)
+    // would otherwise keep rendering the old image
+    this.sourceData = await fs.readFile(this.options.sourcePath);
+    await this.inspectSource();
+
+    // Native app resources replace the web icon set
+    if (this.target !== 'web') {
+      await this.renderNativeTarget(this.target);
+      await this.generateHTMLSnippet();
+      await this.generateStamp();
+      return this.outputs;
+    }
+
     // Check if source is SVG
     const isSourceSVG = this.options.sourcePath.toLowerCase().endsWith('.svg');
 
-    // Filter icons based on mode
-    const iconsToGenerate = ICON_CONFIGS.filter(config => {
-      if (!config.mode || config.mode === 'both') return true;
-      return config.mode === this.mode;
-    });
-
     // Generate all icon sizes
-    await Promise.all(
-      iconsToGenerate.map((config) => this.generateIcon(config))
-    );
+    const iconConfigs = this.getIconConfigs();
+    const icons = await Promise.all(iconConfigs.map((config) => this.renderIcon(config)));
+    iconConfigs.forEach((config, index) => this.addIconOutput(config, icons[index]));
+
+    // Dark color scheme favicons (linked with media queries in traditional mode)
+    if (this.options.dark && this.mode === 'traditional') {
+      const darkIcons = await Promise.all(DARK_ICON_CONFIGS.map((config) => this.cached(config.filename, 'dark', () => this.renderDarkIcon(config))));
+      DARK_ICON_CONFIGS.forEach((config, index) => this.addIconOutput(config, darkIcons[index]));
+    }
+
+    // Windows tiles, referenced from browserconfig.xml (traditional mode)
+    if (this.options.tiles) {
+      if (this.mode === 'traditional') {
+        await this.generateWindowsTiles();
+      } else {
+        this.warnings.push('Windows tiles are only generated in traditional mode.');
+      }
+    }
+
+    // iOS launch images, linked from the HTML snippet (traditional mode)
+    if (this.options.splash) {
+      if (this.mode === 'traditional') {
+        await this.generateSplashScreens();
+      } else {
+        this.warnings.push('iOS splash screens are only generated in traditional mode.');
+      }
+    }
+
+    // Open Graph and Twitter card images (Next.js auto-links them from app/)
+    if (this.options.og) {
+      await this.generateSocialImages();
+    }
 
     // Handle SVG-specific files
     if (isSourceSVG) {
       await this.copySVGSource();
-      // Only generate safari-pinned-tab for traditional mode (goes in public/)
-      if (this.mode === 'traditional') {
-        await this.generateSafariPinnedTab();
-      }
     } else {
-      // If source is PNG/JPG, we can't generate proper SVG
-      console.warn('⚠️  Source is not SVG. icon.svg and safari-pinned-tab.svg will need to be created manually.');
+      // If source is PNG/JPG, we can't generate a scalable icon.svg
+      this.warnings.push('Source is not SVG. icon.svg will need to be created manually.');
+    }
+
+    // Only generate safari-pinned-tab for traditional mode (goes in public/)
+    if (this.mode === 'traditional') {
+      await this.generateSafariPinnedTab();
     }
 
-    // Generate site.webmanifest (only for traditional mode)
+    // Generate site.webmanifest, or app/manifest.ts and its public/ icons in Next.js mode
     if (this.mode === 'traditional') {
       await this.generateManifest();
+    } else {
+      await this.generateNextManifest();
+    }
+
+    // Review sheet for the maskable icon, next to the integration guide
+    if (this.options.maskable?.preview) {
+      await this.generateMaskablePreview();
     }
 
     // Generate HTML snippet
     await this.generateHTMLSnippet();
+
+    // Logical → fingerprinted names, for build tools and later runs
+    const assetMapPath = this.getAssetMapPath();
+    if (assetMapPath) {
+      this.addOutput(assetMapPath, serializeAssetMap(this.assetNames));
+    }
+
+    // Review page with every image inlined, next to the integration guide
+    if (this.options.preview) {
+      await this.generateIconPreview();
+    }
+
+    // Record what the outputs were generated from (must come last)
+    await this.generateStamp();
+
+    return this.outputs;
   }
 
-  private async generateIcon(config: IconConfig): Promise<void> {
-    const outputPath = path.join(this.options.outputDir, config.filename);
+  /**
+   * Lint the source image. Errors stop generation, and so do warnings with
+   * the strict option; otherwise warnings are reported with the others.
+   */
+  private async inspectSource(): Promise<void> {
+    // Native app icons want an opaque background; only the web maskable icon suffers from one
+    this.sourceIssues = (await validateSourceFile(this.options.sourcePath))
+      .filter(issue => this.target === 'web' || issue.code !== 'opaque-background');
+    assertUsableSource(this.sourceIssues, this.options.strict);
+    this.warnings.push(...this.sourceIssues.map(formatSourceIssue));
 
-    let sharpInstance = sharp(this.options.sourcePath).resize(config.size, config.size, {
-      fit: 'contain',
-      background: { r: 0, g: 0, b: 0, alpha: 0 },
-    });
+    // A separate maskable source is meant to fill its canvas, so only errors count
+    const maskableSource = this.target === 'web' ? this.options.maskable?.source : undefined;
+    if (maskableSource) {
+      assertUsableSource((await validateSourceFile(maskableSource)).filter(issue => issue.level === 'error'));
+    }
+  }
+
+  /**
+   * Compare the output directory with the stamp written by the last
+   * generate(): the source must hash the same, the options must match these
+   * ones, and every stamped file must still exist unmodified.
+   */
+  async check(): Promise<IconCheckResult> {
+    const projectRoot = this.getProjectRoot();
+    const stampPath = this.getStampPath();
+    const stamp = await readStamp(stampPath);
 
-    // Handle maskable icon with padding
-    if (config.filename === 'icon-maskable.png') {
-      sharpInstance = await this.addMaskablePadding(sharpInstance, config.size);
+    if (!stamp) {
+      return {
+        upToDate: false,
+        stampPath,
+        stampFound: false,
+        sourceChanged: false,
+        optionsChanged: false,
+        missingFiles: [],
+        modifiedFiles: [],
+      };
     }
 
-    // Convert to appropriate format
+    const sourceHash = hashContent(await fs.readFile(this.options.sourcePath));
+    const darkSourceHash = this.options.dark?.source ? hashContent(await fs.readFile(this.options.dark.source)) : undefined;
+    const maskableSource = this.target === 'web' ? this.options.maskable?.source : undefined;
+    const maskableSourceHash = maskableSource ? hashContent(await fs.readFile(maskableSource)) : undefined;
+    const sourceChanged = stamp.source?.hash !== sourceHash
+      || stamp.darkSource?.hash !== darkSourceHash
+      || stamp.maskableSource?.hash !== maskableSourceHash;
+    const optionsChanged = stamp.optionsHash !== this.getOptionsHash();
+
+    const missingFiles: string[] = [];
+    const modifiedFiles: string[] = [];
+    for (const [file, hash] of Object.entries(stamp.files)) {
+      let data: Buffer;
+      try {
+        data = await fs.readFile(path.resolve(projectRoot, file));
+      } catch {
+        missingFiles.push(file);
+        continue;
+      }
+      if (hashContent(data) !== hash) {
+        modifiedFiles.push(file);
+      }
+    }
+
+    return {
+      upToDate: !sourceChanged && !optionsChanged && missingFiles.length === 0 && modifiedFiles.length === 0,
+      stampPath,
+      stampFound: true,
+      sourceChanged,
+      optionsChanged,
+      missingFiles,
+      modifiedFiles,
+    };
+  }
+
+  // Icons for the current mode, after any config file customisation
+  private getIconConfigs(): IconConfig[] {
+    return (this.options.icons || ICON_CONFIGS).filter(config => {
+      if (!config.mode || config.mode === 'both') return true;
+      return config.mode === this.mode;
+    });
+  }
+
+  // Output filename of a default icon, following renames (undefined if removed)
+  private iconFilename(id: string): string | undefined {
+    return this.getIconConfigs().find(config => (config.id || config.filename) === id)?.filename;
+  }
+
+  private addIconOutput(config: IconConfig, data: Buffer, dir = this.options.outputDir): void {
+    const sizes = config.format === 'ico' ? [...new Set(config.icoSizes || DEFAULT_ICO_SIZES)] : [config.size];
+    this.addAsset(
+      path.join(dir, config.filename),
+      data,
+      sizes.map(size => `${size}x${size}`).join(' ')
+    );
+  }
+
+  private async renderIcon(config: IconConfig): Promise<Buffer> {
     if (config.format === 'ico') {
-      await sharpInstance.png().toFile(outputPath.replace('.ico', '.png'));
-      // Note: sharp doesn't natively support .ico, so we generate PNG
-      // For production, you'd use a tool like `png-to-ico`
-      await fs.rename(outputPath.replace('.ico', '.png'), outputPath);
-    } else {
-      await sharpInstance.png().toFile(outputPath);
+      return this.cached(`${config.filename}@${config.size}`, 'source', () => this.renderIco(config));
     }
+
+    if (config.purpose === 'maskable') {
+      return this.cached(`${config.filename}@${config.size}`, 'maskable', () => this.renderMaskableIcon(config.size));
+    }
+
+    return this.cached(`${config.filename}@${config.size}`, 'source', () => this.resizeSource(config.size).png().toBuffer());
+  }
+
+  // An image from the last render while its source is unchanged, else rendered now
+  private async cached(key: string, source: IconSourceKind, render: () => Promise<Buffer>): Promise<Buffer> {
+    const entry = this.renderCache.get(key);
+    if (entry) {
+      return entry.data;
+    }
+    const data = await render();
+    this.renderCache.set(key, { source, data });
+    return data;
+  }
+
+  private resizeSource(size: number): sharp.Sharp {
+    return sharp(this.sourceData).resize(size, size, {
+      fit: 'contain',
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    });
+  }
+
+  private async renderIco(config: IconConfig): Promise<Buffer> {
+    const sizes = [...new Set(config.icoSizes || DEFAULT_ICO_SIZES)];
+
+    const images = await Promise.all(
+      sizes.map(async (size): Promise<IcoImage> => {
+        const payload = config.icoPayload === 'png' || config.icoPayload === 'bmp'
+          ? config.icoPayload
+          : size >= 256 ? 'png' : 'bmp';
+
+        const data = payload === 'png'
+          ? await this.resizeSource(size).png().toBuffer()
+          : await this.resizeSource(size).ensureAlpha().raw().toBuffer();
+
+        return { size, payload, data };
+      })
+    );
+
+    return encodeIco(images);
   }
 
   private async addMaskablePadding(sharpInstance: sharp.Sharp, size: number): Promise<sharp.Sharp> {
     // Maskable icons need 20% safe zone (40% total padding)
     const paddedSize = Math.floor(size * 0.6); // Icon is 60% of canvas
     const padding = Math.floor((size - paddedSize) / 2);
+    const remainder = size - paddedSize - padding; // Odd leftovers go bottom/right so the canvas is exactly size
 
     return sharpInstance
       .resize(paddedSize, paddedSize, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
       .extend({
         top: padding,
-        bottom: padding,
+        bottom: remainder,
         left: padding,
-        right: padding,
+        right: remainder,
         background: { r: 0, g: 0, b: 0, alpha: 0 },
       });
   }
 
+  /**
+   * Launchers crop maskable icons to their own shape and fill any
+   * transparency with black, so the artwork is scaled into the safe zone on
+   * an opaque background.
+   */
+  private async renderMaskableIcon(size: number): Promise<Buffer> {
+    const maskable = this.options.maskable || {};
+    const safeZone = maskable.safeZone ?? DEFAULT_MASKABLE_SAFE_ZONE;
+    if (!(safeZone >= 10 && safeZone <= 100)) {
+      throw new Error(`Invalid maskable safe zone: ${safeZone} (expected a percentage from 10 to 100)`);
+    }
+
+    const artworkSize = Math.round(size * safeZone / 100);
+    const artwork = await sharp(maskable.source ? await fs.readFile(maskable.source) : this.sourceData)
+      .resize(artworkSize, artworkSize, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+
+    const background = parseBackground(maskable.background || this.options.manifest?.backgroundColor || '#ffffff');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${backgroundRect(size, size, background)}</svg>`;
+    return sharp(Buffer.from(svg))
+      .composite([{ input: artwork, gravity: 'center' }])
+      .removeAlpha()
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * One row: the maskable icon with the safe zone outlined, then the icon
+   * cropped to each launcher mask, so artwork that would be cut off shows
+   * before the icons ship.
+   */
+  private async generateMaskablePreview(): Promise<void> {
+    if (!(this.options.icons || ICON_CONFIGS).some(config => config.purpose === 'maskable')) {
+      this.warnings.push(`Skipped ${MASKABLE_PREVIEW_FILENAME}: the icon set has no maskable icon.`);
+      return;
+    }
+
+    const sheet = await this.cached(MASKABLE_PREVIEW_FILENAME, 'maskable', () => this.renderMaskablePreview());
+    const { width, height } = await sharp(sheet).metadata();
+    this.maskablePreviewPath = path.join(this.getProjectRoot(), MASKABLE_PREVIEW_FILENAME);
+    this.addOutput(this.maskablePreviewPath, sheet, `${width}x${height}`);
+  }
+
+  private async renderMaskablePreview(): Promise<Buffer> {
+    const tile = 256;
+    const gap = 48;
+    const labelHeight = 48;
+    const icon = await this.renderMaskableIcon(tile);
+    const font = await Font.load(SUBTITLE_FONT_URL);
+
+    const safeZone = `<svg xmlns="http://www.w3.org/2000/svg" width="${tile}" height="${tile}" viewBox="0 0 100 100"><circle cx="50" cy="50" r="40" fill="none" stroke="#e91e63" stroke-width="0.75" stroke-dasharray="2 1.5"/></svg>`;
+    const tiles = [
+      { label: 'Safe zone', input: await sharp(icon).composite([{ input: Buffer.from(safeZone) }]).png().toBuffer() },
+      ...await Promise.all(MASKABLE_MASKS.map(async mask => {
+        const shape = `<svg xmlns="http://www.w3.org/2000/svg" width="${tile}" height="${tile}" viewBox="0 0 100 100"><path d="${mask.path}"/></svg>`;
+        return { label: mask.name, input: await sharp(icon).composite([{ input: Buffer.from(shape), blend: 'dest-in' }]).png().toBuffer() };
+      })),
+    ];
+
+    const width = gap + tiles.length * (tile + gap);
+    const height = gap + tile + labelHeight + gap / 2;
+    const labels = tiles.map(({ label }, index) => {
+      const x = gap + index * (tile + gap) + (tile - font.measure(label, 20)) / 2;
+      return `<path d="${font.getPath(label, x, gap + tile + 34, 20)}" fill="#3c4043"/>`;
+    });
+    const sheet = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" fill="#f1f3f4"/>${labels.join('')}</svg>`;
+
+    return sharp(Buffer.from(sheet))
+      .composite(tiles.map(({ input }, index) => ({ input, left: gap + index * (tile + gap), top: gap })))
+      .removeAlpha()
+      .png()
+      .toBuffer();
+  }
+
+  private async generateIconPreview(): Promise<void> {
+    const projectRoot = this.getProjectRoot();
+    const toPreviewImage = (file: RenderedFile | undefined): PreviewImage | undefined => {
+      if (!file) return undefined;
+      // The largest layer of an .ico; SVGs show at favicon size
+      const [width, height] = (file.dimensions?.split(' ').pop() || '32x32').split('x').map(Number);
+      return { name: toStampPath(projectRoot, file.path), data: file.data, width, height };
+    };
+
+    // The files each mockup shows, where this run wrote them
+    const outputDir = this.options.outputDir;
+    const faviconIco = this.iconFilename('favicon.ico');
+    const touchIcon = this.mode === 'nextjs' ? this.iconFilename('apple-icon.png') : this.iconFilename('apple-touch-icon.png');
+    const maskable = (this.options.icons || ICON_CONFIGS).find(config => config.purpose === 'maskable');
+    const maskableDir = this.mode === 'nextjs' ? path.join(this.getNextRoot(), 'public') : outputDir;
+    const favicon = this.findOutput(path.join(outputDir, 'icon.svg')) ?? (faviconIco ? this.findOutput(path.join(outputDir, faviconIco)) : undefined);
+    const { name, shortName } = this.options.manifest || {};
+
+    this.previewPath = path.join(projectRoot, ICON_PREVIEW_FILENAME);
+    this.addOutput(this.previewPath, renderIconPreview({
+      title: shortName || name || (await readPackageDefaults(projectRoot)).name || 'App',
+      files: this.outputs
+        .filter(file => /\.(png|ico|svg)$/i.test(file.path) && file.path !== this.maskablePreviewPath)
+        .map(file => toPreviewImage(file)!),
+      favicon: toPreviewImage(favicon),
+      darkFavicon: toPreviewImage(this.findOutput(path.join(outputDir, 'icon-dark-32.png'))),
+      touchIcon: toPreviewImage(touchIcon ? this.findOutput(path.join(outputDir, touchIcon)) : undefined),
+      maskableIcon: toPreviewImage(maskable ? this.findOutput(path.join(maskableDir, maskable.filename)) : undefined),
+      pinnedTab: toPreviewImage(this.findOutput(path.join(outputDir, 'safari-pinned-tab.svg'))),
+      pinnedTabColor: this.options.color || '#5bbad5',
+    }));
+  }
+
+  // A rendered file by the path it has before any content hash
+  private findOutput(file: string): RenderedFile | undefined {
+    const dir = this.getAssetDir();
+    const hashed = this.assetNames[toStampPath(dir, file)];
+    const actual = hashed ? path.join(dir, hashed) : file;
+    return this.outputs.find(output => output.path === actual);
+  }
+
   private async copySVGSource(): Promise<void> {
     const outputPath = path.join(this.options.outputDir, 'icon.svg');
-    await fs.copyFile(this.options.sourcePath, outputPath);
+    if (!this.options.dark) {
+      this.addAsset(outputPath, await fs.readFile(this.options.sourcePath));
+      return;
+    }
+
+    const lightSVG = await fs.readFile(this.options.sourcePath, 'utf-8');
+    this.addAsset(outputPath, createDarkModeSvg(lightSVG, await this.getDarkVariant(lightSVG)));
   }
 
-  private async generateSafariPinnedTab(): Promise<void> {
-    // For safari-pinned-tab.svg, we need a monochrome version
-    // If source is SVG, we can copy and modify it
-    const sourceSVG = await fs.readFile(this.options.sourcePath, 'utf-8');
+  private async getDarkVariant(lightSVG: string): Promise<DarkVariant> {
+    const dark = this.options.dark!;
+
+    if (dark.source) {
+      const isDarkSVG = dark.source.toLowerCase().endsWith('.svg');
+      return {
+        type: 'image',
+        mimeType: isDarkSVG ? 'image/svg+xml' : 'image/png',
+        data: isDarkSVG ? await fs.readFile(dark.source) : await sharp(await fs.readFile(dark.source)).png().toBuffer(),
+      };
+    }
+
+    if (dark.strategy === 'recolor') {
+      return {
+        type: 'image',
+        mimeType: 'image/svg+xml',
+        data: Buffer.from(convertSvgToMonochrome(lightSVG, dark.color || '#ffffff')),
+      };
+    }
+
+    return { type: 'invert' };
+  }
+
+  private async renderDarkIcon(config: IconConfig): Promise<Buffer> {
+    const dark = this.options.dark!;
+
+    if (dark.source) {
+      return sharp(await fs.readFile(dark.source))
+        .resize(config.size, config.size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .png()
+        .toBuffer();
+    }
+
+    if (dark.strategy === 'recolor') {
+      // Keep the source's alpha, replace every pixel's color
+      const { data, info } = await this.resizeSource(config.size).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+      const { r, g, b } = parseHexColor(dark.color || '#ffffff');
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+      }
+      return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+    }
+
+    // Invert lightness but keep hues, matching the icon.svg filter
+    return this.resizeSource(config.size)
+      .negate({ alpha: false })
+      .modulate({ hue: 180 })
+      .png()
+      .toBuffer();
+  }
+
+  private async generateWindowsTiles(): Promise<void> {
+    const tiles = await Promise.all(TILE_CONFIGS.map((config) => this.cached(config.filename, 'source', () => this.renderTile(config))));
+    TILE_CONFIGS.forEach((config, index) => {
+      this.addAsset(path.join(this.options.outputDir, config.filename), tiles[index], `${config.width}x${config.height}`);
+    });
+
+    const logos = TILE_CONFIGS
+      .map(config => `      <${config.element} src="${escapeXml(this.assetUrl(config.filename))}"/>`)
+      .join('\n');
+    const browserConfig = `<?xml version="1.0" encoding="utf-8"?>
+<browserconfig>
+  <msapplication>
+    <tile>
+${logos}
+      <TileColor>${escapeXml(this.getTileColor())}</TileColor>
+    </tile>
+  </msapplication>
+</browserconfig>
+`;
+    this.addOutput(path.join(this.options.outputDir, 'browserconfig.xml'), browserConfig);
+  }
+
+  private async renderTile(config: TileConfig): Promise<Buffer> {
+    // Transparent, so the TileColor shows through; icon at 60% of the shorter side, centered
+    const iconSize = Math.round(Math.min(config.width, config.height) * 0.6);
+    const icon = await this.resizeSource(iconSize).png().toBuffer();
+
+    return sharp({
+      create: { width: config.width, height: config.height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+    })
+      .composite([{ input: icon, gravity: 'center' }])
+      .png()
+      .toBuffer();
+  }
+
+  private getTileColor(): string {
+    return this.options.tiles?.color || this.options.manifest?.themeColor || '#da532c';
+  }
+
+  private async generateSplashScreens(): Promise<void> {
+    const background = parseHexColor(this.getSplashBackground());
+
+    // One at a time: these are full-screen images, up to 2868px on the long side
+    for (const config of SPLASH_SCREEN_CONFIGS) {
+      this.addAsset(
+        path.join(this.options.outputDir, config.filename),
+        await this.cached(config.filename, 'source', () => this.renderSplashScreen(config, background)),
+        `${config.width}x${config.height}`
+      );
+    }
+  }
+
+  private async renderSplashScreen(config: SplashScreenConfig, background: { r: number; g: number; b: number }): Promise<Buffer> {
+    // Icon at 40% of the shorter side, centered
+    const icon = await this.resizeSource(Math.round(Math.min(config.width, config.height) * 0.4)).png().toBuffer();
+
+    return sharp({
+      create: { width: config.width, height: config.height, channels: 3, background },
+    })
+      .composite([{ input: icon, gravity: 'center' }])
+      .png()
+      .toBuffer();
+  }
+
+  private getSplashBackground(): string {
+    return this.options.splash?.backgroundColor || this.options.manifest?.backgroundColor || '#ffffff';
+  }
+
+  private async renderNativeTarget(target: NativeTarget): Promise<void> {
+    const webOnly = [
+      this.options.dark && 'dark mode favicons',
+      this.options.splash && 'iOS splash screens',
+      this.options.tiles && 'Windows tiles',
+      this.options.og && 'Open Graph images',
+      this.options.maskable?.preview && 'the maskable icon preview',
+      this.options.preview && 'the icon preview page',
+    ].filter(Boolean);
+    if (webOnly.length > 0) {
+      this.warnings.push(`Skipped ${webOnly.join(', ')}: only generated for the web target.`);
+    }
+
+    if (target === 'android') {
+      await this.generateAndroidIcons();
+    } else if (target === 'ios') {
+      await this.generateAppIconSet();
+    } else {
+      await this.generateDesktopIcons();
+    }
+  }
+
+  private async generateAndroidIcons(): Promise<void> {
+    const background = this.getNativeBackground();
+
+    for (const density of ANDROID_DENSITIES) {
+      const dir = path.join(this.options.outputDir, `mipmap-${density.name}`);
+      const launcherSize = Math.round(48 * density.scale);
+      const layerSize = Math.round(108 * density.scale);
+
+      this.addOutput(path.join(dir, 'ic_launcher.png'), await this.renderAndroidLauncher(launcherSize, false), `${launcherSize}x${launcherSize}`);
+      this.addOutput(path.join(dir, 'ic_launcher_round.png'), await this.renderAndroidLauncher(launcherSize, true), `${launcherSize}x${launcherSize}`);
+
+      // Adaptive icon foreground: launchers mask and move it, so the artwork stays inside the safe zone
+      const foreground = await (await this.addMaskablePadding(this.resizeSource(layerSize), layerSize)).png().toBuffer();
+      this.addOutput(path.join(dir, 'ic_launcher_foreground.png'), foreground, `${layerSize}x${layerSize}`);
+    }
+
+    // Android 8+ prefers the adaptive icon over the legacy PNGs
+    const adaptiveIcon = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@color/ic_launcher_background"/>
+    <foreground android:drawable="@mipmap/ic_launcher_foreground"/>
+</adaptive-icon>
+`;
+    this.addOutput(path.join(this.options.outputDir, 'mipmap-anydpi-v26', 'ic_launcher.xml'), adaptiveIcon);
+    this.addOutput(path.join(this.options.outputDir, 'mipmap-anydpi-v26', 'ic_launcher_round.xml'), adaptiveIcon);
+
+    const hex = [background.r, background.g, background.b].map(value => value.toString(16).padStart(2, '0')).join('').toUpperCase();
+    this.addOutput(path.join(this.options.outputDir, 'values', 'ic_launcher_background.xml'), `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <color name="ic_launcher_background">#${hex}</color>
+</resources>
+`);
+  }
+
+  // Pre-Android 8 launcher icon: the adaptive layers flattened into a square or circle
+  private async renderAndroidLauncher(size: number, round: boolean): Promise<Buffer> {
+    const foreground = await (await this.addMaskablePadding(this.resizeSource(size), size)).png().toBuffer();
+    const layers: sharp.OverlayOptions[] = [{ input: foreground }];
+    if (round) {
+      const circle = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><circle cx="${size / 2}" cy="${size / 2}" r="${size / 2}"/></svg>`;
+      layers.push({ input: Buffer.from(circle), blend: 'dest-in' });
+    }
+
+    return sharp({
+      create: { width: size, height: size, channels: 4, background: { ...this.getNativeBackground(), alpha: 1 } },
+    })
+      .composite(layers)
+      .png()
+      .toBuffer();
+  }
 
-    // Simple monochrome conversion: replace colors with black
+  private async generateAppIconSet(): Promise<void> {
+    const dir = path.join(this.options.outputDir, 'AppIcon.appiconset');
+
+    // iPhone and iPad slots with the same pixel size share one file
+    const files = new Map<string, number>();
+    const images = APP_ICON_SET_IMAGES.map(image => {
+      const filename = `Icon-App-${image.size}x${image.size}@${image.scale}x.png`;
+      files.set(filename, Math.round(image.size * image.scale));
+      return { filename, idiom: image.idiom, scale: `${image.scale}x`, size: `${image.size}x${image.size}` };
+    });
+
+    for (const [filename, size] of files) {
+      // iOS rounds the corners itself, and App Store icons must not be transparent
+      const data = await this.resizeSource(size).flatten({ background: this.getNativeBackground() }).png().toBuffer();
+      this.addOutput(path.join(dir, filename), data, `${size}x${size}`);
+    }
+
+    this.addOutput(
+      path.join(dir, 'Contents.json'),
+      JSON.stringify({ images, info: { author: 'xcode', version: 1 } }, null, 2) + '\n'
+    );
+  }
+
+  private async generateDesktopIcons(): Promise<void> {
+    const outputDir = this.options.outputDir;
+    this.desktopAppName = await this.getDesktopAppName();
+
+    // macOS: PNG entries from 128px to 1024px (512px@2x)
+    const icnsImages = [];
+    for (const size of ICNS_SIZES) {
+      icnsImages.push({ size, data: await this.resizeSource(size).png().toBuffer() });
+    }
+    this.addOutput(path.join(outputDir, 'icon.icns'), encodeIcns(icnsImages), ICNS_SIZES.map(size => `${size}x${size}`).join(' '));
+
+    // Windows: every shell size up to 256px (BMP layers below 256px, like favicon.ico)
+    const ico: IconConfig = { filename: 'icon.ico', size: 256, format: 'ico', icoSizes: DESKTOP_ICO_SIZES };
+    this.addIconOutput(ico, await this.renderIco(ico));
+
+    // Linux and packager fallback
+    const png: IconConfig = { filename: 'icon.png', size: 512, format: 'png' };
+    this.addIconOutput(png, await this.renderIcon(png));
+
+    // Freedesktop icon theme layout, ready to install into /usr/share/icons/hicolor
+    for (const size of HICOLOR_SIZES) {
+      this.addOutput(
+        path.join(outputDir, 'hicolor', `${size}x${size}`, 'apps', `${this.desktopAppName}.png`),
+        await this.resizeSource(size).png().toBuffer(),
+        `${size}x${size}`
+      );
+    }
+
+    if (this.options.desktop?.tool === 'tauri') {
+      for (const file of TAURI_ICON_FILES) {
+        this.addOutput(path.join(outputDir, file.filename), await this.resizeSource(file.size).png().toBuffer(), `${file.size}x${file.size}`);
+      }
+    }
+  }
+
+  // Linux icon names are lowercase file names without the npm scope
+  private async getDesktopAppName(): Promise<string> {
+    const name = this.options.desktop?.appName || (await readPackageDefaults(this.getProjectRoot())).name || 'app';
+    return name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'app';
+  }
+
+  // Adaptive icon background and iOS fill behind transparent artwork
+  private getNativeBackground(): { r: number; g: number; b: number } {
+    return parseHexColor(this.options.manifest?.backgroundColor || '#ffffff');
+  }
+
+  private async generateSocialImages(): Promise<void> {
+    const og = this.options.og!;
+    const fonts = og.title || og.subtitle
+      ? { title: await Font.load(TITLE_FONT_URL), subtitle: await Font.load(SUBTITLE_FONT_URL) }
+      : null;
+
+    for (const config of SOCIAL_IMAGE_CONFIGS) {
+      const filename = this.mode === 'nextjs' ? config.nextjsFilename : config.filename;
+      const image = await this.cached(filename, 'source', () => this.renderSocialImage(config, fonts));
+      this.addAsset(path.join(this.options.outputDir, filename), image, `${config.width}x${config.height}`);
+
+      // Next.js reads the image alt text from a sibling .alt.txt file
+      if (this.mode === 'nextjs' && og.title) {
+        this.addOutput(path.join(this.options.outputDir, filename.replace(/\.png$/, '.alt.txt')), og.title);
+      }
+    }
+  }
+
+  private async renderSocialImage(config: SocialImageConfig, fonts: { title: Font; subtitle: Font } | null): Promise<Buffer> {
+    const og = this.options.og!;
+    const { width, height } = config;
+
+    const colors = parseBackground(og.background || this.options.manifest?.backgroundColor || '#ffffff');
+    const rgb = colors.map(parseHexColor);
+
+    // Near-black or white, whichever reads better on the average background color
+    const luminance = rgb.reduce((sum, { r, g, b }) => sum + (0.299 * r + 0.587 * g + 0.114 * b), 0) / rgb.length;
+    const textColor = og.textColor || (luminance > 150 ? '#111111' : '#ffffff');
+    parseHexColor(textColor); // Validates a configured color
+
+    const padding = 96;
+    let iconSize: number;
+    let iconLeft: number;
+    const paths: string[] = [];
+
+    if (fonts) {
+      // Icon on the left, text block vertically centered to its right
+      iconSize = Math.round(height * 0.4);
+      iconLeft = padding;
+      const textLeft = padding + iconSize + 64;
+      const textWidth = width - textLeft - padding;
+
+      const blocks = [
+        { font: fonts.title, text: og.title, size: 64, maxLines: 3, opacity: 1 },
+        { font: fonts.subtitle, text: og.subtitle, size: 36, maxLines: 2, opacity: 0.8 },
+      ]
+        .filter(block => block.text)
+        .map(block => ({ ...block, lines: wrapText(block.font, block.text!, block.size, textWidth, block.maxLines) }));
+
+      const gap = 24;
+      const lineHeight = (size: number) => Math.round(size * 1.25);
+      const blockHeight = blocks.reduce((sum, block) => sum + block.lines.length * lineHeight(block.size), 0) + gap * (blocks.length - 1);
+
+      let top = (height - blockHeight) / 2;
+      for (const block of blocks) {
+        const scale = block.size / block.font.unitsPerEm;
+        for (const line of block.lines) {
+          // Center the font's ascender-to-descender box in the line
+          const baseline = top + (lineHeight(block.size) - (block.font.ascender - block.font.descender) * scale) / 2 + block.font.ascender * scale;
+          paths.push(`<path d="${block.font.getPath(line, textLeft, baseline, block.size)}" fill="${escapeXml(textColor)}" fill-opacity="${block.opacity}"/>`);
+          top += lineHeight(block.size);
+        }
+        top += gap;
+      }
+    } else {
+      iconSize = Math.round(height * 0.5);
+      iconLeft = Math.round((width - iconSize) / 2);
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${backgroundRect(width, height, colors)}${paths.join('')}</svg>`;
+    const icon = await this.resizeSource(iconSize).png().toBuffer();
+
+    return sharp(Buffer.from(svg))
+      .composite([{ input: icon, left: iconLeft, top: Math.round((height - iconSize) / 2) }])
+      .removeAlpha()
+      .png()
+      .toBuffer();
+  }
+
+  private async generateSafariPinnedTab(): Promise<void> {
+    // Safari pinned tabs need a single-color SVG: convert SVG sources, trace raster ones
     const monochromeColor = this.options.color || '#000000';
-    const monochromeSVG = sourceSVG
-      .replace(/fill="[^"]*"/g, `fill="${monochromeColor}"`)
-      .replace(/stroke="[^"]*"/g, `stroke="${monochromeColor}"`);
+    const monochromeSVG = await this.cached('safari-pinned-tab.svg', 'source', async () => Buffer.from(
+      this.options.sourcePath.toLowerCase().endsWith('.svg')
+        ? convertSvgToMonochrome(await fs.readFile(this.options.sourcePath, 'utf-8'), monochromeColor)
+        : await traceRasterToSvg(this.sourceData, monochromeColor)
+    ));
 
     const outputPath = path.join(this.options.outputDir, 'safari-pinned-tab.svg');
-    await fs.writeFile(outputPath, monochromeSVG);
+    this.addAsset(outputPath, monochromeSVG);
   }
 
   private async generateManifest(): Promise<void> {
-    const manifest = {
-      icons: [
-        {
-          src: '/icon-192.png',
-          sizes: '192x192',
-          type: 'image/png',
-        },
-        {
-          src: '/icon-512.png',
-          sizes: '512x512',
-          type: 'image/png',
-        },
-        {
-          src: '/icon-maskable.png',
-          sizes: '512x512',
-          type: 'image/png',
-          purpose: 'maskable',
-        },
-      ],
+    const { filename, ...fields } = this.options.manifest || {};
+
+    // Merge into an existing manifest (any recognised filename) instead of overwriting it
+    this.manifestFilename = await findExistingManifest(this.options.outputDir, filename) || filename || 'site.webmanifest';
+    const outputPath = path.join(this.options.outputDir, this.manifestFilename);
+
+    let existing: Record<string, unknown> | null = null;
+    try {
+      existing = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Could not parse existing manifest ${outputPath}: ${(error as Error).message}`);
+      }
+    }
+
+    const icons = this.getManifestIcons(this.getIconConfigs().filter(config => config.manifest));
+
+    // Icons we own: the default set plus everything configured, so removed entries are cleaned up too
+    const managedFilenames = new Set(
+      [...ICON_CONFIGS, ...(this.options.icons || [])].filter(config => config.manifest).map(config => config.filename)
+    );
+
+    const defaults = await readPackageDefaults(this.options.projectRoot || this.options.outputDir);
+    const manifest = mergeManifest(existing, fields, defaults, icons, managedFilenames);
+
+    this.addOutput(outputPath, JSON.stringify(manifest, null, 2) + '\n');
+  }
+
+  /**
+   * Next.js serves the manifest from an app/manifest.ts route, and only
+   * public/ serves arbitrary files, so the manifest icons (including the
+   * maskable one) go there. A manifest route the user wrote is left alone.
+   */
+  private async generateNextManifest(): Promise<void> {
+    const appDir = this.options.outputDir;
+    const nextRoot = this.getNextRoot();
+    const { filename, ...fields } = this.options.manifest || {};
+    if (filename) {
+      this.warnings.push(`Ignoring manifest filename ${filename}: Next.js serves the manifest route as /manifest.webmanifest.`);
+    }
+
+    const configs = (this.options.icons || ICON_CONFIGS).filter(config => config.manifest);
+    const images = await Promise.all(configs.map((config) => this.renderIcon(config)));
+    configs.forEach((config, index) => this.addIconOutput(config, images[index], path.join(nextRoot, 'public')));
+
+    const defaults = await readPackageDefaults(this.options.projectRoot || nextRoot);
+    const manifest = mergeManifest(null, fields, defaults, this.getManifestIcons(configs), new Set());
+
+    const typescript = await fs.access(path.join(nextRoot, 'tsconfig.json')).then(() => true, () => false);
+    const existing = await findAppManifest(appDir);
+    let manifestNote: string;
+    if (existing && !existing.generated) {
+      this.manifestFilename = existing.filename;
+      this.warnings.push(`Keeping the existing ${existing.filename} in ${path.basename(appDir)}/; add the icons from the integration guide to it.`);
+      manifestNote = `Add these icons to ${existing.filename}:\n${JSON.stringify(manifest.icons, null, 2)}`;
+    } else {
+      this.manifestFilename = typescript ? 'manifest.ts' : 'manifest.js';
+      this.addOutput(path.join(appDir, this.manifestFilename), renderManifestModule(manifest, typescript));
+      manifestNote = `${this.manifestFilename} serves the web app manifest at /manifest.webmanifest and Next.js links it automatically.`;
+    }
+
+    const publicIcons = configs.map(config => `public/${this.assetNames[config.filename] ?? config.filename}`).join(', ');
+    this.nextjsGuide = `${manifestNote}\nManifest icons: ${publicIcons}\n\n${await this.getLayoutWiring(manifest, typescript)}`;
+  }
+
+  // What the root layout needs for installed web apps: theme color and iOS home screen title
+  private async getLayoutWiring(manifest: Record<string, unknown>, typescript: boolean): Promise<string> {
+    const title = manifest.short_name ?? manifest.name;
+    const exports: LayoutExports = {
+      metadata: {
+        appleWebApp: { capable: true, ...(typeof title === 'string' ? { title } : {}), statusBarStyle: 'default' },
+      },
+      viewport: typeof manifest.theme_color === 'string' ? { themeColor: manifest.theme_color } : {},
     };
 
-    const outputPath = path.join(this.options.outputDir, 'site.webmanifest');
-    await fs.writeFile(outputPath, JSON.stringify(manifest, null, 2));
+    const layoutPath = await findRootLayout(this.options.outputDir);
+    if (!layoutPath) {
+      return `Add these exports to your root layout:\n\n${renderLayoutExports(exports, typescript)}`;
+    }
+
+    const layoutRelative = toStampPath(this.getProjectRoot(), layoutPath);
+    const source = await fs.readFile(layoutPath, 'utf-8');
+    const patched = patchLayout(source, layoutPath, exports);
+    if (patched === null) {
+      return `${layoutRelative} computes its metadata in generateMetadata/generateViewport. Return these fields from it:\n\n${renderLayoutExports(exports, typescript)}`;
+    }
+    if (patched === source) {
+      return `${layoutRelative} already sets the metadata and viewport fields for installed web apps.\n`;
+    }
+    return `Apply this patch to ${layoutRelative} (e.g. with git apply):\n\n${formatUnifiedDiff(layoutRelative, source, patched)}\n`;
+  }
+
+  private getManifestIcons(configs: IconConfig[]): ManifestIcon[] {
+    return configs.map(config => ({
+      src: this.assetUrl(config.filename),
+      sizes: `${config.size}x${config.size}`,
+      type: config.format === 'svg' ? 'image/svg+xml' : config.format === 'ico' ? 'image/x-icon' : 'image/png',
+      ...(config.purpose === 'maskable' ? { purpose: 'maskable' } : {}),
+    }));
+  }
+
+  // URL of a generated file, under the base path or asset prefix and with its content hash
+  private assetUrl(file: string): string {
+    return toAssetUrl(this.options, this.assetNames[file] ?? file);
+  }
+
+  // Where the browser-facing files are served from: the output directory, or public/ in Next.js mode
+  private getAssetDir(): string {
+    return this.mode === 'nextjs' ? path.join(this.getNextRoot(), 'public') : this.options.outputDir;
+  }
+
+  // Next.js project directory: app/ sits in it directly or under src/
+  private getNextRoot(): string {
+    const parent = path.dirname(this.options.outputDir);
+    return path.basename(parent) === 'src' ? path.dirname(parent) : parent;
   }
 
   private async generateHTMLSnippet(): Promise<void> {
+    // Save to project root instead of output directory
+    const outputPath = path.join(this.options.projectRoot || this.options.outputDir, 'icon-integration-guide.txt');
+    this.addOutput(outputPath, this.getHTMLSnippet());
+  }
+
+  private async generateStamp(): Promise<void> {
+    const projectRoot = this.getProjectRoot();
+    const reviewFiles = [this.getInstructionsFilePath(), this.maskablePreviewPath, this.previewPath];
+
+    // The integration guide and previews are documentation, not outputs worth checking
+    const files = Object.fromEntries(
+      this.outputs
+        .filter(file => !reviewFiles.includes(file.path))
+        .map(file => [toStampPath(projectRoot, file.path), hashContent(file.data)])
+    );
+
+    const dark = this.options.dark;
+    const maskableSource = this.target === 'web' ? this.options.maskable?.source : undefined;
+    this.addOutput(this.getStampPath(), serializeStamp({
+      source: {
+        path: toStampPath(projectRoot, this.options.sourcePath),
+        hash: hashContent(await fs.readFile(this.options.sourcePath)),
+      },
+      ...(dark?.source ? {
+        darkSource: { path: toStampPath(projectRoot, dark.source), hash: hashContent(await fs.readFile(dark.source)) },
+      } : {}),
+      ...(maskableSource ? {
+        maskableSource: { path: toStampPath(projectRoot, maskableSource), hash: hashContent(await fs.readFile(maskableSource)) },
+      } : {}),
+      optionsHash: this.getOptionsHash(),
+      files,
+    }));
+  }
+
+  // Everything that shapes the output apart from the source images and where they live
+  private getOptionsHash(): string {
+    // Native resources only depend on the target and its own settings
+    if (this.target === 'desktop') {
+      return hashOptions({ target: this.target, desktop: this.options.desktop });
+    }
+    if (this.target !== 'web') {
+      const { r, g, b } = this.getNativeBackground();
+      return hashOptions({ target: this.target, background: [r, g, b] });
+    }
+
+    const { color, manifest, dark, splash, tiles, og, maskable, basePath, assetPrefix, hash } = this.options;
+    return hashOptions({
+      mode: this.mode,
+      color,
+      hash: hash || undefined,
+      urlPrefix: normalizePrefix(assetPrefix || basePath || '') || undefined,
+      icons: this.getIconConfigs(),
+      manifest,
+      dark: dark ? { strategy: dark.strategy, color: dark.color, source: Boolean(dark.source) } : undefined,
+      splash,
+      tiles,
+      og,
+      // The preview sheet is for review only
+      maskable: { source: maskable?.source ? true : undefined, safeZone: maskable?.safeZone, background: maskable?.background },
+    });
+  }
+
+  private getProjectRoot(): string {
+    return this.options.projectRoot || this.options.outputDir;
+  }
+
+  getStampPath(): string {
+    return path.join(this.getProjectRoot(), getStampFilename(this.target));
+  }
+
+  private addOutput(outputPath: string, data: Buffer | string, dimensions?: string): void {
+    this.outputs.push({ path: outputPath, data: Buffer.isBuffer(data) ? data : Buffer.from(data), dimensions });
+  }
+
+  /**
+   * Add an image the browser loads by URL. With the hash option it gets a
+   * content hash in its filename so it can be cached forever, except
+   * favicon.ico and apple-touch-icon.png, which browsers request by name.
+   * Files outside the asset directory (Next.js app/ icons) are left alone:
+   * Next.js versions those URLs itself.
+   */
+  private addAsset(outputPath: string, data: Buffer | string, dimensions?: string): void {
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    const dir = this.getAssetDir();
+    if (!this.options.hash || !outputPath.startsWith(dir + path.sep)) {
+      this.addOutput(outputPath, buffer, dimensions);
+      return;
+    }
+
+    const logical = toStampPath(dir, outputPath);
+    const stable = [this.iconFilename('favicon.ico'), this.iconFilename('apple-touch-icon.png')].includes(logical);
+    const hashed = stable ? logical : fingerprintFilename(logical, buffer);
+    this.assetNames[logical] = hashed;
+    this.addOutput(path.join(dir, hashed), buffer, dimensions);
+  }
+
+  getHTMLSnippet(): string {
     let snippet: string;
 
-    if (this.mode === 'nextjs') {
-      // Next.js App Router mode - no manual HTML needed, just instructions
+    if (this.target !== 'web') {
+      snippet = this.getNativeGuide(this.target);
+    } else if (this.mode === 'nextjs') {
+      // Next.js App Router mode - no manual HTML needed, just instructions (Next.js adds basePath itself)
+      const basePath = normalizePrefix(this.options.basePath || '');
       snippet = `<!-- Next.js App Router Mode -->
 <!-- Icons are automatically linked by Next.js from the /app directory -->
 <!-- No manual <link> tags needed! -->
 
 Generated files in app/:
-- favicon.ico (32×32) - automatically linked as /favicon.ico
+- favicon.ico (${this.getFaviconSizes()}) - automatically linked as /favicon.ico
 - icon.png (512×512) - automatically linked with proper metadata
 - apple-icon.png (180×180) - automatically linked as apple-touch-icon
 ${this.options.sourcePath.toLowerCase().endsWith('.svg') ? '- icon.svg - automatically linked with type="image/svg+xml"' : ''}
-
+${this.options.og ? '- opengraph-image.png (1200×630), twitter-image.png (1200×600) - automatically linked as og:image and twitter:image\n' : ''}
 Next.js will automatically generate these <head> tags:
-<link rel="icon" href="/favicon.ico" sizes="any" />
-<link rel="icon" href="/icon.png" type="image/png" sizes="512x512" />
-<link rel="apple-touch-icon" href="/apple-icon.png" sizes="180x180" />
-${this.options.sourcePath.toLowerCase().endsWith('.svg') ? '<link rel="icon" href="/icon.svg" type="image/svg+xml" />' : ''}
-
-For PWA support, add site.webmanifest to public/ and reference it in your layout.tsx metadata.`;
+<link rel="icon" href="${basePath}/favicon.ico" sizes="any" />
+<link rel="icon" href="${basePath}/icon.png" type="image/png" sizes="512x512" />
+<link rel="apple-touch-icon" href="${basePath}/apple-icon.png" sizes="180x180" />
+${this.options.sourcePath.toLowerCase().endsWith('.svg') ? `<link rel="icon" href="${basePath}/icon.svg" type="image/svg+xml" />` : ''}
+${this.options.og ? `<meta property="og:image" content="https://your-domain${basePath}/opengraph-image.png?..." />
+<meta name="twitter:image" content="https://your-domain${basePath}/twitter-image.png?..." />
+(Set metadataBase in the root layout so these URLs point at your domain.)
+` : ''}
+<!-- Web App Manifest (PWA) -->
+${this.nextjsGuide}`;
     } else {
       // Traditional mode - full HTML snippet
-      snippet = `<!-- Favicon (modern + fallback) -->
-<link rel="icon" href="/icon.svg" type="image/svg+xml">
-<link rel="icon" href="/favicon.ico" sizes="any">
+      snippet = renderHeadTags(this.getHeadTags());
+    }
 
-<!-- Apple Touch Icon -->
-<link rel="apple-touch-icon" href="/apple-touch-icon.png">
+    return snippet;
+  }
 
-<!-- Web App Manifest (PWA) -->
-<link rel="manifest" href="/site.webmanifest">
+  private getNativeGuide(target: NativeTarget): string {
+    const files = this.getNativeFileList().map(file => `- ${file}`).join('\n');
+    const outputDir = path.relative(this.getProjectRoot(), this.options.outputDir) || '.';
+
+    if (target === 'android') {
+      return `<!-- Android launcher icons -->
+Generated in ${outputDir}/:
+${files}
 
-<!-- Safari Pinned Tab -->
-<link rel="mask-icon" href="/safari-pinned-tab.svg" color="${this.options.color || '#5bbad5'}">`;
+Copy them into android/app/src/main/res/ if they were not generated there,
+and make sure android/app/src/main/AndroidManifest.xml references them:
+
+<application
+    android:icon="@mipmap/ic_launcher"
+    android:roundIcon="@mipmap/ic_launcher_round"
+    ...>`;
     }
 
-    // Save to project root instead of output directory
-    const outputPath = path.join(this.options.projectRoot || this.options.outputDir, 'icon-integration-guide.txt');
-    await fs.writeFile(outputPath, snippet);
+    if (target === 'desktop') {
+      const tool = this.options.desktop?.tool;
+      const tauriIcons = [...TAURI_ICON_FILES.map(file => file.filename), 'icon.icns', 'icon.ico']
+        .map(file => `"icons/${file}"`)
+        .join(', ');
+      const packaging = tool === 'tauri'
+        ? `Tauri bundles the icons listed in bundle.icon of src-tauri/tauri.conf.json:\n"icon": [${tauriIcons}]`
+        : tool === 'electron-builder'
+          ? 'electron-builder picks up icon.icns (macOS), icon.ico (Windows) and icon.png (Linux)\nfrom its build resources directory (directories.buildResources, default build/).'
+          : 'Point your packager at icon.icns (macOS), icon.ico (Windows) and icon.png (Linux).';
+
+      return `<!-- Desktop app icons -->
+Generated in ${outputDir}/:
+${files}
+
+${packaging}
+
+For Linux packages, install hicolor/ into /usr/share/icons/hicolor/ and set
+Icon=${this.desktopAppName} in the app's .desktop file.`;
+    }
+
+    return `<!-- iOS app icon -->
+Generated in ${outputDir}/:
+${files}
+
+The AppIcon.appiconset folder belongs in the app's asset catalog
+(ios/App/App/Assets.xcassets for Capacitor, ios/<AppName>/Images.xcassets for React Native).
+Xcode picks it up automatically when the target's App Icon setting is "AppIcon".`;
+  }
+
+  // Human-readable summary of the native resources, for CLI and MCP output
+  getNativeFileList(): string[] {
+    if (this.target === 'android') {
+      const densities = ANDROID_DENSITIES.map(density => density.name).join(',');
+      return [
+        `mipmap-{${densities}}/ic_launcher.png, ic_launcher_round.png (legacy launcher icons)`,
+        `mipmap-{${densities}}/ic_launcher_foreground.png (adaptive icon foreground)`,
+        'mipmap-anydpi-v26/ic_launcher.xml, ic_launcher_round.xml (adaptive icons)',
+        'values/ic_launcher_background.xml (adaptive icon background color)',
+      ];
+    }
+    if (this.target === 'desktop') {
+      return [
+        `icon.icns (${ICNS_SIZES.join(', ')}px, macOS)`,
+        `icon.ico (${DESKTOP_ICO_SIZES.join(', ')}px, Windows)`,
+        'icon.png (512×512, Linux)',
+        `hicolor/<size>/apps/${this.desktopAppName}.png (${HICOLOR_SIZES.join(', ')}px, Linux icon theme)`,
+        ...(this.options.desktop?.tool === 'tauri' ? [`${TAURI_ICON_FILES.map(file => file.filename).join(', ')} (Tauri bundle icons)`] : []),
+      ];
+    }
+    if (this.target === 'ios') {
+      const count = new Set(APP_ICON_SET_IMAGES.map(image => `${image.size}@${image.scale}`)).size;
+      return [`AppIcon.appiconset/ (${count} icons and Contents.json)`];
+    }
+    return [];
+  }
+
+  /**
+   * The <head> tags for the rendered icons, in traditional web mode (Next.js
+   * links the files in app/ itself, so there are none). The integration
+   * guide and the Vite plugin use these.
+   */
+  getHeadTags(): HeadTagGroup[] {
+    // Only SVG sources get a scalable icon.svg
+    return this.buildHeadTags(this.findOutput(path.join(this.options.outputDir, 'icon.svg')) !== undefined);
+  }
+
+  /**
+   * getHeadTags() without rendering, for icons generated earlier (used by
+   * integrate_icons_html): hashed filenames come from the asset map in the
+   * output directory and the manifest keeps the filename it has there.
+   * icon.svg is linked for an SVG source or, when the options have no
+   * source path, when it is in the output directory.
+   */
+  async readHeadTags(): Promise<HeadTagGroup[]> {
+    this.assetNames = (this.options.hash && await readAssetMap(this.getAssetDir())) || {};
+    this.manifestFilename = await findExistingManifest(this.options.outputDir, this.options.manifest?.filename) || this.manifestFilename;
+
+    const svgIconPath = path.join(this.options.outputDir, this.assetNames['icon.svg'] ?? 'icon.svg');
+    const hasSvgIcon = this.options.sourcePath
+      ? this.options.sourcePath.toLowerCase().endsWith('.svg')
+      : await fs.access(svgIconPath).then(() => true, () => false);
+    return this.buildHeadTags(hasSvgIcon);
+  }
+
+  private buildHeadTags(hasSvgIcon: boolean): HeadTagGroup[] {
+    if (this.target !== 'web' || this.mode !== 'traditional') {
+      return [];
+    }
+
+    const link = (attributes: Record<string, string>): HeadTag => ({ tag: 'link', attributes });
+    const favicon = this.iconFilename('favicon.ico');
+    const appleTouchIcon = this.iconFilename('apple-touch-icon.png');
+
+    const groups: HeadTagGroup[] = [
+      {
+        comment: 'Favicon (modern + fallback)',
+        tags: [
+          ...(hasSvgIcon ? [link({ rel: 'icon', href: this.assetUrl('icon.svg'), type: 'image/svg+xml' })] : []),
+          ...(favicon ? [link({ rel: 'icon', href: this.assetUrl(favicon), sizes: 'any' })] : []),
+        ],
+      },
+      { comment: 'Apple Touch Icon', tags: appleTouchIcon ? [link({ rel: 'apple-touch-icon', href: this.assetUrl(appleTouchIcon) })] : [] },
+      { comment: 'Web App Manifest (PWA)', tags: [link({ rel: 'manifest', href: this.assetUrl(this.manifestFilename) })] },
+      ...(this.options.dark ? [this.getDarkModeTags()] : []),
+      { comment: 'Safari Pinned Tab', tags: [link({ rel: 'mask-icon', href: this.assetUrl('safari-pinned-tab.svg'), color: this.options.color || '#5bbad5' })] },
+      ...(this.options.tiles ? [this.getWindowsTileTags()] : []),
+      ...(this.options.splash ? [this.getSplashScreenTags()] : []),
+      ...(this.options.og ? [this.getSocialImageTags()] : []),
+    ];
+    return groups.filter(group => group.tags.length > 0);
+  }
+
+  private getDarkModeTags(): HeadTagGroup {
+    return {
+      comment: 'Dark Mode Favicons',
+      tags: DARK_ICON_CONFIGS.map((config): HeadTag => ({
+        tag: 'link',
+        attributes: { rel: 'icon', href: this.assetUrl(config.filename), type: 'image/png', sizes: `${config.size}x${config.size}`, media: '(prefers-color-scheme: dark)' },
+      })),
+    };
+  }
+
+  private getWindowsTileTags(): HeadTagGroup {
+    return {
+      comment: 'Windows Tiles',
+      tags: [
+        { tag: 'meta', attributes: { name: 'msapplication-TileColor', content: this.getTileColor() } },
+        { tag: 'meta', attributes: { name: 'msapplication-config', content: this.assetUrl('browserconfig.xml') } },
+      ],
+    };
+  }
+
+  private getSocialImageTags(): HeadTagGroup {
+    const [openGraph, twitter] = SOCIAL_IMAGE_CONFIGS;
+    return {
+      comment: 'Social Sharing Images (crawlers need absolute URLs: https://your-domain/...)',
+      tags: [
+        { tag: 'meta', attributes: { property: 'og:image', content: this.assetUrl(openGraph.filename) } },
+        { tag: 'meta', attributes: { property: 'og:image:width', content: String(openGraph.width) } },
+        { tag: 'meta', attributes: { property: 'og:image:height', content: String(openGraph.height) } },
+        { tag: 'meta', attributes: { name: 'twitter:card', content: 'summary_large_image' } },
+        { tag: 'meta', attributes: { name: 'twitter:image', content: this.assetUrl(twitter.filename) } },
+      ],
+    };
+  }
+
+  private getSplashScreenTags(): HeadTagGroup {
+    // Startup images are only used when the page runs as a home screen web app
+    const links = SPLASH_SCREEN_CONFIGS.map((config): HeadTag => {
+      const media = `screen and (device-width: ${config.deviceWidth}px) and (device-height: ${config.deviceHeight}px) and (-webkit-device-pixel-ratio: ${config.pixelRatio}) and (orientation: ${config.orientation})`;
+      return { tag: 'link', attributes: { rel: 'apple-touch-startup-image', href: this.assetUrl(config.filename), media } };
+    });
+    return {
+      comment: 'iOS Splash Screens (installed PWAs)',
+      tags: [{ tag: 'meta', attributes: { name: 'apple-mobile-web-app-capable', content: 'yes' } }, ...links],
+    };
   }
 
   getMode(): 'traditional' | 'nextjs' {
     return this.mode;
   }
 
+  getTarget(): IconTarget {
+    return this.target;
+  }
+
+  // Absolute paths of every file written by the last generate() call
+  getWrittenFiles(): string[] {
+    return [...this.writtenFiles];
+  }
+
+  // Where the asset map is written, or null without the hash option
+  getAssetMapPath(): string | null {
+    return this.options.hash && this.target === 'web' ? path.join(this.getAssetDir(), ASSET_MAP_FILENAME) : null;
+  }
+
+  // Problems found in the source image by the last run
+  getSourceIssues(): SourceIssue[] {
+    return [...this.sourceIssues];
+  }
+
+  // Stale fingerprinted files the last generate() deleted
+  getRemovedFiles(): string[] {
+    return [...this.removedFiles];
+  }
+
+  // Non-fatal issues from the last generate() or plan() call
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  // Manifest route and root layout instructions from the last Next.js mode run
+  getNextjsGuide(): string {
+    return this.nextjsGuide;
+  }
+
+  getManifestFilename(): string {
+    return this.manifestFilename;
+  }
+
+  // Sizes embedded in favicon.ico, for file lists: "16, 32, 48"
+  getFaviconSizes(): string {
+    const favicon = this.getIconConfigs().find(config => (config.id || config.filename) === 'favicon.ico');
+    return [...new Set(favicon?.icoSizes ?? DEFAULT_ICO_SIZES)].sort((a, b) => a - b).join(', ');
+  }
+
   getInstructionsFilePath(): string {
     return path.join(this.options.projectRoot || this.options.outputDir, 'icon-integration-guide.txt');
   }
 
+  // Icon preview page from the last run (null when not requested)
+  getPreviewPath(): string | null {
+    return this.previewPath;
+  }
+
+  // Maskable preview sheet from the last run (null when not requested or skipped)
+  getMaskablePreviewPath(): string | null {
+    return this.maskablePreviewPath;
+  }
+
   generateAIPrompt(framework: string | null, outputDirRelative: string): string {
     const frameworkName = framework || 'web application';
     const instructionsPath = path.relative(
@@ -205,10 +1423,61 @@ For PWA support, add site.webmanifest to public/ and reference it in your layout
       this.getInstructionsFilePath()
     ) || 'icon-integration-guide.txt';
 
-    if (this.mode === 'nextjs') {
-      return `I generated web app icons in the ${outputDirRelative} directory for this ${frameworkName}. Please read the integration guide at ${instructionsPath} and verify that all icon files are correctly placed in the app/ directory and that Next.js will auto-link them properly. Check that the project structure follows Next.js App Router conventions.`;
+    if (this.target === 'android') {
+      return `I generated Android launcher icons in ${outputDirRelative} for this ${frameworkName}. Please read the integration guide at ${instructionsPath} and check that they are in android/app/src/main/res/ and that AndroidManifest.xml uses @mipmap/ic_launcher as android:icon and @mipmap/ic_launcher_round as android:roundIcon.`;
+    } else if (this.target === 'desktop') {
+      return `I generated desktop app icons (icon.icns, icon.ico, icon.png and a Linux hicolor set) in ${outputDirRelative} for this ${frameworkName}. Please read the integration guide at ${instructionsPath} and check that the ${this.options.desktop?.tool || 'desktop packager'} configuration points at these files.`;
+    } else if (this.target === 'ios') {
+      return `I generated an iOS AppIcon.appiconset in ${outputDirRelative} for this ${frameworkName}. Please read the integration guide at ${instructionsPath} and check that it is inside the Xcode project's asset catalog and that the app target's App Icon setting is "AppIcon".`;
+    } else if (this.mode === 'nextjs') {
+      return `I generated web app icons in the ${outputDirRelative} directory for this ${frameworkName}. Please read the integration guide at ${instructionsPath} and verify that all icon files are correctly placed in the app/ directory and that Next.js will auto-link them properly. Apply the root layout metadata changes from the guide, and check that the project structure follows Next.js App Router conventions.`;
     } else {
       return `I generated web app icons in the ${outputDirRelative} directory for this ${frameworkName}. Please read the integration guide at ${instructionsPath} and make sure everything is wired together correctly by adding the required HTML <link> tags to the appropriate layout/HTML files. Verify the icon paths are correct and all files are accessible.`;
     }
   }
 }
+
+// Safe in text and in single- or double-quoted attributes
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Hex color, or comma-separated hex colors for a diagonal gradient
+function parseBackground(background: string): string[] {
+  const colors = background.split(',').map(color => color.trim()).filter(Boolean);
+  if (colors.length === 0) {
+    throw new Error(`Invalid background: ${background}`);
+  }
+  colors.forEach(parseHexColor); // Validates every color
+  return colors;
+}
+
+// SVG markup filling the canvas with one color or a top-left to bottom-right gradient
+function backgroundRect(width: number, height: number, colors: string[]): string {
+  if (colors.length === 1) {
+    return `<rect width="${width}" height="${height}" fill="${escapeXml(colors[0])}"/>`;
+  }
+  const stops = colors
+    .map((color, index) => `<stop offset="${index / (colors.length - 1)}" stop-color="${escapeXml(color)}"/>`)
+    .join('');
+  return `<defs><linearGradient id="background" x1="0" y1="0" x2="1" y2="1">${stops}</linearGradient></defs><rect width="${width}" height="${height}" fill="url(#background)"/>`;
+}
+
+function parseHexColor(color: string): { r: number; g: number; b: number } {
+  const hex = color.replace(/^#/, '');
+  // #rgb, #rrggbb or #rrggbbaa (alpha is ignored)
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    throw new Error(`Invalid hex color: ${color}`);
+  }
+  const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex.slice(0, 6);
+  return {
+    r: parseInt(full.slice(0, 2), 16),
+    g: parseInt(full.slice(2, 4), 16),
+    b: parseInt(full.slice(4, 6), 16),
+  };
+}
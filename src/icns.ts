@@ -0,0 +1,47 @@
+export interface IcnsImage {
+  size: number; // Width and height in pixels
+  data: Buffer; // PNG file bytes
+}
+
+const HEADER_SIZE = 8;
+const ENTRY_HEADER_SIZE = 8;
+
+// PNG-based entry types (macOS 10.7+), by pixel size
+const ICNS_TYPES = new Map<number, string>([
+  [128, 'ic07'],
+  [256, 'ic08'],
+  [512, 'ic09'],
+  [1024, 'ic10'], // 512x512@2x
+]);
+
+export const ICNS_SIZES = [...ICNS_TYPES.keys()];
+
+/**
+ * Encode a macOS ICNS container from PNG images. Each image becomes one
+ * entry: a four-character type, the big-endian entry length (including its
+ * 8-byte header) and the PNG bytes.
+ */
+export function encodeIcns(images: IcnsImage[]): Buffer {
+  if (images.length === 0) {
+    throw new Error('Cannot encode an ICNS file without images');
+  }
+
+  const sorted = [...images].sort((a, b) => a.size - b.size);
+  const entries = sorted.map((image) => {
+    const type = ICNS_TYPES.get(image.size);
+    if (!type) {
+      throw new Error(`Invalid ICNS image size ${image.size}: must be one of ${[...ICNS_TYPES.keys()].join(', ')}`);
+    }
+
+    const header = Buffer.alloc(ENTRY_HEADER_SIZE);
+    header.write(type, 0, 'ascii');
+    header.writeUInt32BE(ENTRY_HEADER_SIZE + image.data.length, 4);
+    return Buffer.concat([header, image.data]);
+  });
+
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write('icns', 0, 'ascii');
+  header.writeUInt32BE(HEADER_SIZE + entries.reduce((total, entry) => total + entry.length, 0), 4);
+
+  return Buffer.concat([header, ...entries]);
+}
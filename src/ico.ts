@@ -0,0 +1,93 @@
+export type IcoPayload = 'png' | 'bmp';
+
+export interface IcoImage {
+  size: number; // Width and height in pixels (ICO entries are square here)
+  payload: IcoPayload;
+  data: Buffer; // PNG file bytes for 'png', raw RGBA pixels for 'bmp'
+}
+
+const ICONDIR_SIZE = 6;
+const ICONDIRENTRY_SIZE = 16;
+const BITMAPINFOHEADER_SIZE = 40;
+
+/**
+ * Encode a Windows ICO container holding one image per entry.
+ * PNG payloads are embedded as-is (Vista+), BMP payloads are written as
+ * 32-bit BGRA DIBs with a 1-bit AND mask for older consumers.
+ */
+export function encodeIco(images: IcoImage[]): Buffer {
+  if (images.length === 0) {
+    throw new Error('Cannot encode an ICO file without images');
+  }
+
+  const sorted = [...images].sort((a, b) => a.size - b.size);
+  const payloads = sorted.map((image) => {
+    if (image.size < 1 || image.size > 256) {
+      throw new Error(`Invalid ICO image size ${image.size}: must be between 1 and 256`);
+    }
+    return image.payload === 'png' ? image.data : encodeBmpPayload(image.data, image.size);
+  });
+
+  const header = Buffer.alloc(ICONDIR_SIZE + ICONDIRENTRY_SIZE * sorted.length);
+  header.writeUInt16LE(0, 0); // Reserved
+  header.writeUInt16LE(1, 2); // Type: 1 = icon
+  header.writeUInt16LE(sorted.length, 4);
+
+  let offset = header.length;
+  sorted.forEach((image, index) => {
+    const entry = ICONDIR_SIZE + ICONDIRENTRY_SIZE * index;
+    header.writeUInt8(image.size === 256 ? 0 : image.size, entry); // 0 means 256
+    header.writeUInt8(image.size === 256 ? 0 : image.size, entry + 1);
+    header.writeUInt8(0, entry + 2); // No palette
+    header.writeUInt8(0, entry + 3); // Reserved
+    header.writeUInt16LE(1, entry + 4); // Color planes
+    header.writeUInt16LE(32, entry + 6); // Bits per pixel
+    header.writeUInt32LE(payloads[index].length, entry + 8);
+    header.writeUInt32LE(offset, entry + 12);
+    offset += payloads[index].length;
+  });
+
+  return Buffer.concat([header, ...payloads]);
+}
+
+function encodeBmpPayload(rgba: Buffer, size: number): Buffer {
+  if (rgba.length !== size * size * 4) {
+    throw new Error(`Expected ${size * size * 4} bytes of RGBA data for a ${size}×${size} BMP, got ${rgba.length}`);
+  }
+
+  const xorRowSize = size * 4;
+  const andRowSize = Math.ceil(size / 32) * 4; // 1 bpp rows padded to 32 bits
+  const xorSize = xorRowSize * size;
+  const andSize = andRowSize * size;
+
+  const buffer = Buffer.alloc(BITMAPINFOHEADER_SIZE + xorSize + andSize);
+  buffer.writeUInt32LE(BITMAPINFOHEADER_SIZE, 0);
+  buffer.writeInt32LE(size, 4);
+  buffer.writeInt32LE(size * 2, 8); // Height covers XOR + AND masks
+  buffer.writeUInt16LE(1, 12); // Planes
+  buffer.writeUInt16LE(32, 14); // Bits per pixel
+  buffer.writeUInt32LE(0, 16); // BI_RGB
+  buffer.writeUInt32LE(xorSize + andSize, 20);
+
+  // DIB rows are stored bottom-up
+  for (let y = 0; y < size; y++) {
+    const sourceRow = (size - 1 - y) * size * 4;
+    const xorRow = BITMAPINFOHEADER_SIZE + y * xorRowSize;
+    const andRow = BITMAPINFOHEADER_SIZE + xorSize + y * andRowSize;
+
+    for (let x = 0; x < size; x++) {
+      const source = sourceRow + x * 4;
+      const target = xorRow + x * 4;
+      buffer[target] = rgba[source + 2]; // B
+      buffer[target + 1] = rgba[source + 1]; // G
+      buffer[target + 2] = rgba[source]; // R
+      buffer[target + 3] = rgba[source + 3]; // A
+
+      if (rgba[source + 3] < 128) {
+        buffer[andRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return buffer;
+}
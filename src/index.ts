@@ -0,0 +1,88 @@
+import path from 'path';
+import { IconGenerator } from './generator.js';
+import { findAppIcon, validateSourceFile } from './utils.js';
+import { loadProjectConfig } from './config.js';
+import { resolveGeneratorOptions } from './project.js';
+import type { SourceIssue } from './lint.js';
+import type { DetectedFramework, IconTarget, ProjectOptions } from './types.js';
+
+export { IconGenerator } from './generator.js';
+export { FrameworkDetector, findAppIcon, validateSourceFile } from './utils.js';
+export { loadProjectConfig } from './config.js';
+export { resolveGeneratorOptions, type ResolvedProject } from './project.js';
+export { ICON_CONFIGS } from './types.js';
+export type { SourceIssue } from './lint.js';
+export type {
+  DarkModeOptions,
+  DesktopOptions,
+  DetectedFramework,
+  GenerationMode,
+  GeneratorOptions,
+  IconCheckResult,
+  IconConfig,
+  IconTarget,
+  ManifestOptions,
+  MaskableOptions,
+  OpenGraphImageOptions,
+  PlannedFile,
+  ProjectOptions,
+  RenderedFile,
+  SplashScreenOptions,
+  WebIconsConfig,
+  WindowsTileOptions,
+} from './types.js';
+
+export interface GenerateIconsOptions extends ProjectOptions {
+  projectRoot?: string; // Default: the current directory
+  source?: string; // Relative to the project root; default: the project config, then app-icon.svg/app-icon.png
+}
+
+export interface GenerateIconsResult {
+  framework: DetectedFramework | null;
+  mode: 'traditional' | 'nextjs';
+  target: IconTarget;
+  outputDir: string;
+  files: string[]; // Absolute paths of the written files
+  removedFiles: string[]; // Stale fingerprinted files that were deleted
+  maskablePreview: string | null; // Absolute path of maskable-preview.png, when requested
+  preview: string | null; // Absolute path of icon-preview.html, when requested
+  htmlSnippet: string; // Tags for the <head>, or the integration guide for Next.js and native targets
+  warnings: string[];
+  sourceIssues: SourceIssue[]; // Source image warnings, with fix suggestions
+}
+
+/**
+ * Generate icons for a project in one call, the way the CLI does without
+ * prompts: the project config fills in anything not passed, and the
+ * framework decides the output directory and mode.
+ */
+export async function generateIcons(options: GenerateIconsOptions = {}): Promise<GenerateIconsResult> {
+  const { projectRoot: root, source, ...projectOptions } = options;
+  const projectRoot = path.resolve(root || process.cwd());
+
+  const { config } = await loadProjectConfig(projectRoot);
+  const sourceArg = source || config.source || await findAppIcon(projectRoot);
+  if (!sourceArg) {
+    throw new Error(`No source image: pass "source", set "source" in the project config, or add app-icon.svg or app-icon.png to ${projectRoot}`);
+  }
+  const sourcePath = path.resolve(projectRoot, sourceArg);
+  await validateSourceFile(sourcePath);
+
+  const { generatorOptions, framework } = await resolveGeneratorOptions(projectOptions, config, projectRoot, sourcePath);
+  const generator = new IconGenerator(generatorOptions);
+  await generator.generate();
+
+  return {
+    framework,
+    mode: generator.getMode(),
+    target: generator.getTarget(),
+    outputDir: generatorOptions.outputDir,
+    files: generator.getWrittenFiles(),
+    removedFiles: generator.getRemovedFiles(),
+    maskablePreview: generator.getMaskablePreviewPath(),
+    preview: generator.getPreviewPath(),
+    htmlSnippet: generator.getHTMLSnippet(),
+    warnings: generator.getWarnings(),
+    sourceIssues: generator.getSourceIssues(),
+  };
+}
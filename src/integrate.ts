@@ -0,0 +1,627 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ArrayExpression, JSXElement, Node, ObjectExpression, ObjectProperty } from '@babel/types';
+import { applyEdits, detectQuote, findDefaultExportObject, findExport, findNode, findReturnedExpression, formatKey, getProperty, insertLines, insertProperties, lineIndent, parseModule, toSource, type TextEdit } from './codemod.js';
+import { patchLayout, renderLayoutExports } from './nextjs.js';
+import { FrameworkDetector } from './utils.js';
+
+// How icon tags get into the document head, by the kind of file that owns it
+export type IntegrationKind = 'html' | 'nextjs-app' | 'nextjs-pages' | 'sveltekit' | 'remix' | 'astro' | 'nuxt';
+
+// A <link> or <meta> tag for the document head
+export interface HeadTag {
+  tag: 'link' | 'meta';
+  attributes: Record<string, string>;
+}
+
+// Related tags, introduced by a comment where the file's syntax allows one
+export interface HeadTagGroup {
+  comment: string;
+  tags: HeadTag[];
+}
+
+export interface IntegrationResult {
+  kind: IntegrationKind;
+  updated: string | null; // New file content (the source itself when already up to date), or null when the file could not be edited
+  snippet: string; // The change in the file's own syntax, for manual integration
+  error?: string; // Why the file could not be edited automatically
+}
+
+interface IntegrationStrategy {
+  apply(source: string, filePath: string, groups: HeadTagGroup[]): string;
+  snippet(groups: HeadTagGroup[], filePath: string): string;
+}
+
+// [start, end) offsets into a source file
+type Range = [number, number];
+
+// Plain HTML pages, used when the framework has no head files of its own
+const HTML_CANDIDATES = ['index.html', 'public/index.html', 'src/index.html', 'app/index.html'];
+
+// The tags are kept between these markers, in comments of the file's own syntax
+const MARKER_START = 'web-icons:start';
+const MARKER_END = 'web-icons:end';
+
+// Existing tags the managed block replaces, whoever wrote them
+const ICON_RELS = new Set(['icon', 'shortcut icon', 'apple-touch-icon', 'apple-touch-icon-precomposed', 'manifest', 'mask-icon']);
+const ICON_META_NAMES = new Set(['msapplication-tilecolor', 'msapplication-tileimage', 'msapplication-config']);
+// Every meta tag the generator writes: in Next.js metadata they share `other`, which stays ours while it holds only these
+const GENERATED_META_NAMES = new Set([
+  ...ICON_META_NAMES,
+  'apple-mobile-web-app-capable',
+  'og:image',
+  'og:image:width',
+  'og:image:height',
+  'twitter:card',
+  'twitter:image',
+]);
+
+/**
+ * Where the icon tags belong: the framework's own head file (root layout,
+ * _document, root route, nuxt.config, ...) or else an HTML entry point.
+ */
+export async function findIntegrationFile(projectPath: string): Promise<string> {
+  const framework = await new FrameworkDetector(projectPath).detect();
+  for (const candidate of [...(framework?.headFiles || []), ...HTML_CANDIDATES]) {
+    const candidatePath = path.join(projectPath, candidate);
+    try {
+      await fs.access(candidatePath);
+      return candidatePath;
+    } catch {
+      // Continue to next candidate
+    }
+  }
+
+  // Default to index.html in project root
+  return path.join(projectPath, 'index.html');
+}
+
+export function getIntegrationKind(filePath: string): IntegrationKind {
+  const filename = path.basename(filePath);
+  if (/^nuxt\.config\.[cm]?[jt]s$/.test(filename)) return 'nuxt';
+  if (filename.endsWith('.svelte')) return 'sveltekit';
+  if (filename.endsWith('.astro')) return 'astro';
+  if (/^_document\.[jt]sx?$/.test(filename)) return 'nextjs-pages';
+  if (/^layout\.[jt]sx?$/.test(filename)) return 'nextjs-app';
+  if (/^root\.[jt]sx?$/.test(filename)) return 'remix';
+  return 'html';
+}
+
+/**
+ * Put the tags into a file in the way its framework expects, as a block
+ * between web-icons:start/end markers. Existing icon tags (a previous
+ * block, or favicon, apple-touch-icon, manifest and mask-icon links added by
+ * hand) are replaced by the block, which takes the place and indentation of
+ * the first of them, so running it again changes nothing.
+ */
+export function integrateHeadTags(source: string, filePath: string, groups: HeadTagGroup[]): IntegrationResult {
+  const kind = getIntegrationKind(filePath);
+  const strategy = STRATEGIES[kind];
+  const snippet = strategy.snippet(groups, filePath);
+
+  try {
+    return { kind, updated: strategy.apply(source, filePath, groups), snippet };
+  } catch (error) {
+    return { kind, updated: null, snippet, error: (error as Error).message };
+  }
+}
+
+const STRATEGIES: Record<IntegrationKind, IntegrationStrategy> = {
+  html: {
+    apply: (source, _filePath, groups) => replaceInElement(source, 'head', groups, false),
+    snippet: (groups) => renderMarkup(groups, false).join('\n'),
+  },
+
+  astro: {
+    apply: (source, _filePath, groups) => replaceInElement(source, 'head', groups, true),
+    snippet: (groups) => renderMarkup(groups, true).join('\n'),
+  },
+
+  sveltekit: {
+    apply(source, _filePath, groups) {
+      const tags = scanMarkup(source);
+      if (tags.some(tag => tag.name === 'svelte:head')) {
+        return replaceInElement(source, 'svelte:head', groups, true);
+      }
+
+      // New <svelte:head> block after the component's <script> blocks
+      const block = `<svelte:head>\n${markupBlock(groups, true).map(line => line && `  ${line}`).join('\n')}\n</svelte:head>`;
+      const scripts = tags.filter(tag => tag.name === 'script');
+      const afterScripts = scripts.length > 0 ? scripts[scripts.length - 1].closeEnd : undefined;
+      return afterScripts !== undefined
+        ? source.slice(0, afterScripts) + `\n\n${block}` + source.slice(afterScripts)
+        : `${block}\n\n${source}`;
+    },
+    snippet: (groups) => `<svelte:head>\n${renderMarkup(groups, true).map(line => line && `  ${line}`).join('\n')}\n</svelte:head>`,
+  },
+
+  'nextjs-app': {
+    apply(source, filePath, groups) {
+      const fields = toNextMetadata(groups);
+      const unsupported = `${path.basename(filePath)} computes its metadata in generateMetadata or does not export an object literal`;
+
+      // A layout without metadata gets the export first, then its fields become the managed block
+      let ast = parseModule(source, filePath);
+      if (!findExport(ast, 'metadata')) {
+        const patched = patchLayout(source, filePath, { metadata: fields, viewport: {} });
+        if (patched === null) {
+          throw new Error(unsupported);
+        }
+        source = patched;
+        ast = parseModule(source, filePath);
+      }
+
+      const metadata = findExport(ast, 'metadata')?.value;
+      if (metadata?.type !== 'ObjectExpression') {
+        throw new Error(unsupported);
+      }
+
+      // `other` is only ours when it holds nothing but meta tags we generate
+      const other = getProperty(metadata, 'other');
+      const ownsOther = !other || (other.value.type === 'ObjectExpression' && other.value.properties.every(property =>
+        property.type === 'ObjectProperty' && GENERATED_META_NAMES.has(propertyName(property).toLowerCase())));
+      const owned = (key: string) => key === 'icons' || key === 'manifest' || (key === 'other' && ownsOther);
+
+      const quote = detectQuote(source);
+      const managed = metadata.properties
+        .filter(property => property.type === 'ObjectProperty' && owned(propertyName(property)))
+        .map(property => withComma(source, property));
+      const entries = Object.entries(fields).filter(([key, value]) => value !== undefined && owned(key));
+      return applyEdits(source, replaceInLiteral(source, metadata, metadata.properties, managed, (indent) =>
+        entries.map(([key, value]) => `${formatKey(key, quote)}: ${toSource(value, indent, quote)},`)));
+    },
+    snippet: (groups, filePath) => renderLayoutExports({ metadata: toNextMetadata(groups), viewport: {} }, /\.tsx?$/.test(filePath)),
+  },
+
+  'nextjs-pages': {
+    apply(source, filePath, groups) {
+      const ast = parseModule(source, filePath);
+      const head = findNode(ast, node => node.type === 'JSXElement' && node.openingElement.name.type === 'JSXIdentifier' && node.openingElement.name.name === 'Head') as JSXElement | null;
+      if (!head) {
+        throw new Error(`Could not find the <Head> element from next/document in ${path.basename(filePath)}`);
+      }
+
+      const outer = lineIndent(source, head.start!);
+      const inner = outer + '  ';
+      const block = [`{/* ${MARKER_START} */}`, ...renderJsx(groups), `{/* ${MARKER_END} */}`];
+      const lines = block.map(line => `\n${inner}${line}`).join('');
+      if (head.openingElement.selfClosing || !head.closingElement) {
+        return applyEdits(source, [{ start: head.start!, end: head.end!, text: `<Head>${lines}\n${outer}</Head>` }]);
+      }
+
+      const region: Range = [head.openingElement.end!, head.closingElement.start!];
+      const managed: Range[] = [
+        ...head.children.filter(child => isIconElement(child)).map(child => [child.start!, child.end!] as Range),
+        ...findMarkers(source, `{/* ${MARKER_START} */}`, `{/* ${MARKER_END} */}`, region),
+      ];
+      return applyEdits(source, replaceManaged(source, region, managed, () => block,
+        () => [{ start: region[0], end: region[0], text: lines }]));
+    },
+    snippet: (groups) => `<Head>\n${renderJsx(groups).map(line => `  ${line}`).join('\n')}\n</Head>`,
+  },
+
+  remix: {
+    apply(source, filePath, groups) {
+      const quote = detectQuote(source);
+      const descriptors = toDescriptors(groups);
+
+      // Missing route exports are added with the descriptors, then managed like existing ones
+      let ast = parseModule(source, filePath);
+      const newExports = (['links', 'meta'] as const)
+        .filter(name => descriptors[name].length > 0 && !findExport(ast, name))
+        .map(name => `export const ${name} = () => ${toSource(descriptors[name], '', quote)};`);
+      if (newExports.length > 0) {
+        // Route exports go above the root component, like the framework templates
+        const defaultExport = ast.program.body.find(statement => statement.type === 'ExportDefaultDeclaration');
+        const position = defaultExport?.start ?? source.length;
+        source = applyEdits(source, [{ start: position, end: position, text: `${newExports.join('\n\n')}\n\n` }]);
+        ast = parseModule(source, filePath);
+      }
+
+      const edits: TextEdit[] = [];
+      for (const [name, tag] of [['links', 'link'], ['meta', 'meta']] as const) {
+        const existing = findExport(ast, name);
+        if (!existing) continue;
+        const array = findReturnedExpression(existing.value);
+        if (array?.type !== 'ArrayExpression') {
+          if (descriptors[name].length === 0) continue;
+          throw new Error(`The ${name} export in ${path.basename(filePath)} does not return an array literal`);
+        }
+        edits.push(...replaceInArray(source, array, tag, descriptors[name], quote));
+      }
+      return applyEdits(source, edits);
+    },
+    snippet(groups) {
+      const { links, meta } = toDescriptors(groups);
+      return [
+        `export const links = () => ${toSource(links, '')};`,
+        ...(meta.length > 0 ? [`export const meta = () => ${toSource(meta, '')};`] : []),
+      ].join('\n\n');
+    },
+  },
+
+  nuxt: {
+    apply(source, filePath, groups) {
+      const quote = detectQuote(source);
+      const { links, meta } = toDescriptors(groups);
+      const values = { link: links, meta };
+
+      let ast = parseModule(source, filePath);
+      let config = findDefaultExportObject(ast);
+      if (!config) {
+        throw new Error(`Could not find the defineNuxtConfig({...}) object in ${path.basename(filePath)}`);
+      }
+      const created = createNuxtHead(source, config, { link: links, ...(meta.length > 0 ? { meta } : {}) }, quote);
+      if (created !== null) {
+        source = created;
+        ast = parseModule(source, filePath);
+        config = findDefaultExportObject(ast)!;
+      }
+
+      // createNuxtHead has checked app and app.head are object literals
+      const app = getProperty(config, 'app')!.value as ObjectExpression;
+      const head = getProperty(app, 'head')!.value as ObjectExpression;
+      const edits: TextEdit[] = [];
+      for (const key of ['link', 'meta'] as const) {
+        const property = getProperty(head, key);
+        if (!property) continue;
+        if (property.value.type !== 'ArrayExpression') {
+          if (values[key].length === 0) continue;
+          throw new Error(`app.head.${key} in nuxt.config is not an array literal`);
+        }
+        edits.push(...replaceInArray(source, property.value, key, values[key], quote));
+      }
+      return applyEdits(source, edits);
+    },
+    snippet(groups) {
+      const { links, meta } = toDescriptors(groups);
+      const head = { link: links, ...(meta.length > 0 ? { meta } : {}) };
+      return `export default defineNuxtConfig(${toSource({ app: { head } }, '')});`;
+    },
+  },
+};
+
+// Create whatever part of app.head.link/meta is missing, with the descriptors as its value; null when nothing is
+function createNuxtHead(source: string, config: ObjectExpression, head: Record<string, unknown>, quote: string): string | null {
+  const app = getProperty(config, 'app');
+  if (!app) {
+    return applyEdits(source, [insertProperties(source, config, [['app', { head }]], quote)]);
+  }
+  if (app.value.type !== 'ObjectExpression') {
+    throw new Error('app in nuxt.config is not an object literal');
+  }
+
+  const headProperty = getProperty(app.value, 'head');
+  if (!headProperty) {
+    return applyEdits(source, [insertProperties(source, app.value, [['head', head]], quote)]);
+  }
+  const headObject = headProperty.value;
+  if (headObject.type !== 'ObjectExpression') {
+    throw new Error('app.head in nuxt.config is not an object literal');
+  }
+
+  const missing = Object.entries(head).filter(([key]) => !getProperty(headObject, key));
+  return missing.length > 0 ? applyEdits(source, [insertProperties(source, headObject, missing, quote)]) : null;
+}
+
+// Next.js Metadata fields that render the tags (icons, manifest, and other for plain meta tags)
+function toNextMetadata(groups: HeadTagGroup[]): Record<string, unknown> {
+  const icon: Record<string, string>[] = [];
+  const apple: Record<string, string>[] = [];
+  const otherIcons: Record<string, string>[] = [];
+  const other: Record<string, string> = {};
+  let manifest: string | undefined;
+
+  for (const { tag, attributes } of groups.flatMap(group => group.tags)) {
+    const { rel, href, ...rest } = attributes;
+    if (tag === 'meta') {
+      other[attributes.name ?? attributes.property] = attributes.content;
+    } else if (rel === 'manifest') {
+      manifest = href;
+    } else if (rel === 'icon') {
+      icon.push({ url: href, ...rest });
+    } else if (rel === 'apple-touch-icon') {
+      apple.push({ url: href, ...rest });
+    } else {
+      otherIcons.push({ rel, url: href, ...rest });
+    }
+  }
+
+  return {
+    icons: {
+      ...(icon.length > 0 ? { icon: compactIcons(icon) } : {}),
+      ...(apple.length > 0 ? { apple: compactIcons(apple) } : {}),
+      ...(otherIcons.length > 0 ? { other: compactIcons(otherIcons) } : {}),
+    },
+    manifest,
+    ...(Object.keys(other).length > 0 ? { other } : {}),
+  };
+}
+
+// Next.js takes a bare URL for a descriptor with nothing else, and a single icon without the array
+function compactIcons(icons: Record<string, string>[]): unknown {
+  const compact = icons.map(icon => Object.keys(icon).length === 1 && icon.url ? icon.url : icon);
+  return compact.length === 1 ? compact[0] : compact;
+}
+
+// Tags as the plain objects Remix links()/meta() and Nuxt app.head take
+function toDescriptors(groups: HeadTagGroup[]): { links: Record<string, string>[]; meta: Record<string, string>[] } {
+  const tags = groups.flatMap(group => group.tags);
+  return {
+    links: tags.filter(tag => tag.tag === 'link').map(tag => tag.attributes),
+    meta: tags.filter(tag => tag.tag === 'meta').map(tag => tag.attributes),
+  };
+}
+
+function isIconTag(tag: string, attributes: Record<string, string>): boolean {
+  const name = tag.toLowerCase();
+  if (name === 'link') return ICON_RELS.has((attributes.rel || '').trim().toLowerCase());
+  if (name === 'meta') return ICON_META_NAMES.has((attributes.name || '').toLowerCase());
+  return false;
+}
+
+// A <link>/<meta> JSX element with string attributes that isIconTag accepts
+function isIconElement(node: Node): boolean {
+  if (node.type !== 'JSXElement' || node.openingElement.name.type !== 'JSXIdentifier') return false;
+  const attributes: Record<string, string> = {};
+  for (const attribute of node.openingElement.attributes) {
+    if (attribute.type === 'JSXAttribute' && attribute.value?.type === 'StringLiteral') {
+      attributes[String(attribute.name.name)] = attribute.value.value;
+    }
+  }
+  return isIconTag(node.openingElement.name.name, attributes);
+}
+
+function propertyName(property: ObjectProperty): string {
+  return property.key.type === 'Identifier' ? property.key.name
+    : property.key.type === 'StringLiteral' ? property.key.value
+      : '';
+}
+
+// A literal's item along with the comma that follows it on the same line
+function withComma(source: string, item: Node): Range {
+  const comma = /^[^\S\n]*,/.exec(source.slice(item.end!));
+  return [item.start!, item.end! + (comma ? comma[0].length : 0)];
+}
+
+// Replace the icon descriptors in an array literal (Remix links/meta, Nuxt app.head) with the managed block
+function replaceInArray(source: string, array: ArrayExpression, tag: 'link' | 'meta', values: Record<string, string>[], quote: string): TextEdit[] {
+  const items = array.elements.filter(element => element !== null);
+  const managed = items.filter(item => {
+    if (item.type !== 'ObjectExpression') return false;
+    const attributes: Record<string, string> = {};
+    for (const property of item.properties) {
+      if (property.type === 'ObjectProperty' && property.value.type === 'StringLiteral') {
+        attributes[propertyName(property)] = property.value.value;
+      }
+    }
+    return isIconTag(tag, attributes);
+  });
+  return replaceInLiteral(source, array, items, managed.map(item => withComma(source, item)), (indent) =>
+    values.map(value => `${toSource(value, indent, quote)},`));
+}
+
+// Managed block of an object or array literal, as line comments around items with their commas
+function replaceInLiteral(source: string, container: Node, items: Node[], managed: Range[], render: (indent: string) => string[]): TextEdit[] {
+  const block = (indent: string) => {
+    const lines = render(indent);
+    return lines.length > 0 ? [`// ${MARKER_START}`, ...lines, `// ${MARKER_END}`] : [];
+  };
+  const region: Range = [container.start! + 1, container.end! - 1];
+  const kept = items.filter(item => !managed.some(([start, end]) => item.start! >= start && item.end! <= end));
+
+  return replaceManaged(source, region, [...managed, ...findMarkers(source, `// ${MARKER_START}`, `// ${MARKER_END}`, region)], block,
+    () => block('').length > 0 ? [insertLines(source, container, kept, block)] : []);
+}
+
+// Replace the icon tags inside an element with the managed block, or add it as the element's first children
+function replaceInElement(source: string, name: string, groups: HeadTagGroup[], selfClosing: boolean): string {
+  const tags = scanMarkup(source);
+  const element = tags.find(tag => tag.name.toLowerCase() === name);
+  if (!element) {
+    throw new Error(`Could not find a <${name}> element`);
+  }
+
+  const close = source.toLowerCase().indexOf(`</${name}`, element.end);
+  const region: Range = [element.end, close === -1 ? source.length : close];
+  const comments = new RegExp(`<!--\\s*(?:${groups.map(group => group.comment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\s*-->`, 'g');
+  const managed: Range[] = [
+    ...tags.filter(tag => tag.start >= region[0] && tag.end <= region[1] && isIconTag(tag.name, tag.attributes)).map(tag => [tag.start, tag.end] as Range),
+    // Group comments of blocks written before the markers existed
+    ...[...source.slice(...region).matchAll(comments)].map(match => [region[0] + match.index, region[0] + match.index + match[0].length] as Range),
+    ...findMarkers(source, `<!-- ${MARKER_START} -->`, `<!-- ${MARKER_END} -->`, region),
+  ];
+
+  const block = markupBlock(groups, selfClosing);
+  return applyEdits(source, replaceManaged(source, region, managed, () => block, () => {
+    // Indent like the element's first child, or one level deeper than the element in its own style
+    const outer = lineIndent(source, element.start);
+    const childIndent = /^[^\S\n]*\n\s*?\n?([^\S\n]*)\S/.exec(source.slice(element.end))?.[1];
+    const inner = childIndent !== undefined && childIndent.length > outer.length ? childIndent : outer + (outer.includes('\t') ? '\t' : '  ');
+    const lines = block.map(line => line ? `\n${inner}${line}` : '\n').join('');
+    return [{ start: element.end, end: element.end, text: `${lines}\n` }];
+  }));
+}
+
+// The ranges of both markers and everything between them, or of a marker left on its own
+function findMarkers(source: string, start: string, end: string, region: Range): Range[] {
+  const open = source.indexOf(start, region[0]);
+  const close = source.indexOf(end, open === -1 ? region[0] : open);
+  const markers: Range[] = [];
+  if (open !== -1 && open + start.length <= region[1]) markers.push([open, open + start.length]);
+  if (close !== -1 && close + end.length <= region[1]) markers.push([close, close + end.length]);
+  return markers.length === 2 ? [[markers[0][0], markers[1][1]]] : markers;
+}
+
+/**
+ * Replace the managed ranges of a region with a block of lines. Lines that
+ * hold nothing but managed ranges (and blank lines between them) are
+ * removed, the first run of them giving way to the block at its
+ * indentation; managed ranges sharing a line with other code are cut out on
+ * their own. With no such line the fallback inserts the block instead.
+ */
+function replaceManaged(source: string, region: Range, ranges: Range[], render: (indent: string) => string[], fallback: () => TextEdit[]): TextEdit[] {
+  // Overlapping ranges (tags inside a marker block) merged, so no two edits overlap
+  const managed: Range[] = [];
+  for (const range of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = managed[managed.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      managed.push([range[0], range[1]]);
+    }
+  }
+  const covered = (offset: number) => managed.some(([start, end]) => offset >= start && offset < end);
+
+  const lines: { start: number; end: number; kind: 'managed' | 'blank' | 'other' }[] = [];
+  for (let start = region[0]; start <= region[1];) {
+    const newline = source.indexOf('\n', start);
+    const end = newline === -1 || newline > region[1] ? region[1] : newline;
+    let kind: 'managed' | 'blank' | 'other' = 'blank';
+    for (let offset = start; offset < end && kind !== 'other'; offset++) {
+      if (/\s/.test(source[offset])) continue;
+      kind = covered(offset) ? 'managed' : 'other';
+    }
+    // Only whole lines are removed, not the rest of the region's first or last line
+    if (kind === 'managed' && (source[start - 1] !== '\n' || source[end] !== '\n')) {
+      kind = 'other';
+    }
+    lines.push({ start, end, kind });
+    start = end + 1;
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].kind !== 'blank') continue;
+    let next = i;
+    while (next < lines.length && lines[next].kind === 'blank') next++;
+    if (lines[i - 1]?.kind === 'managed' && lines[next]?.kind === 'managed') {
+      for (let blank = i; blank < next; blank++) lines[blank].kind = 'managed';
+    }
+    i = next - 1;
+  }
+
+  const edits: TextEdit[] = [];
+  let placed = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.kind === 'managed') {
+      let last = i;
+      while (lines[last + 1]?.kind === 'managed') last++;
+      const indent = lineIndent(source, line.start);
+      const text = placed ? '' : render(indent).map(item => `${item && indent + item}\n`).join('');
+      edits.push({ start: line.start, end: lines[last].end + 1, text });
+      placed = true;
+      i = last;
+    } else if (line.kind === 'other') {
+      for (const [start, end] of managed) {
+        if (start >= line.start && end <= line.end) edits.push({ start, end, text: '' });
+      }
+    }
+  }
+  if (placed) return edits;
+
+  // Inline removals inside what the fallback rewrites are part of its rewrite
+  const insertions = fallback();
+  return [...edits.filter(edit => !insertions.some(insertion => edit.start < insertion.end && edit.end > insertion.start)), ...insertions];
+}
+
+// The managed block for markup files: the grouped tags between marker comments
+function markupBlock(groups: HeadTagGroup[], selfClosing: boolean): string[] {
+  return [`<!-- ${MARKER_START} -->`, ...renderMarkup(groups, selfClosing), `<!-- ${MARKER_END} -->`];
+}
+
+// The tags as plain HTML, one comment per group
+export function renderHeadTags(groups: HeadTagGroup[]): string {
+  return renderMarkup(groups, false).join('\n');
+}
+
+function renderMarkup(groups: HeadTagGroup[], selfClosing: boolean): string[] {
+  return groups.flatMap((group, index) => [
+    ...(index > 0 ? [''] : []),
+    `<!-- ${group.comment} -->`,
+    ...group.tags.map(tag => `<${tag.tag} ${renderAttributes(tag.attributes)}${selfClosing ? ' />' : '>'}`),
+  ]);
+}
+
+function renderJsx(groups: HeadTagGroup[]): string[] {
+  return groups.flatMap(group => group.tags.map(tag => `<${tag.tag} ${renderAttributes(tag.attributes)} />`));
+}
+
+function renderAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes).map(([name, value]) => `${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`).join(' ');
+}
+
+interface MarkupTag {
+  name: string;
+  start: number;
+  end: number; // After the start tag's ">"
+  closeEnd?: number; // After the closing tag, for <script> and <style>
+  attributes: Record<string, string>;
+}
+
+/**
+ * Start tags of an HTML, Svelte or Astro file in document order. Comments,
+ * the contents of <script> and <style>, Astro frontmatter and `{...}`
+ * expressions inside tags are skipped, so none of them produce false matches.
+ */
+function scanMarkup(source: string): MarkupTag[] {
+  const tags: MarkupTag[] = [];
+  const frontmatter = /^\s*---\r?\n[\s\S]*?\r?\n---/.exec(source);
+  let index = frontmatter ? frontmatter[0].length : 0;
+
+  while ((index = source.indexOf('<', index)) !== -1) {
+    if (source.startsWith('<!--', index)) {
+      const close = source.indexOf('-->', index + 4);
+      index = close === -1 ? source.length : close + 3;
+      continue;
+    }
+
+    const name = /^<([A-Za-z][\w:.-]*)/.exec(source.slice(index, index + 64))?.[1];
+    if (!name) {
+      index++;
+      continue;
+    }
+
+    // Find the closing ">", ignoring any inside quoted values or expressions
+    let end = index + name.length + 1;
+    let quote: string | null = null;
+    let depth = 0;
+    for (; end < source.length; end++) {
+      const char = source[end];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      } else if (char === '>' && depth <= 0) {
+        break;
+      }
+    }
+
+    const raw = source.slice(index, end + 1);
+    const tag: MarkupTag = { name, start: index, end: end + 1, attributes: parseAttributes(raw.slice(name.length + 1)) };
+    tags.push(tag);
+    index = end + 1;
+
+    // Raw text elements: skip to the closing tag
+    if (/^(script|style)$/i.test(name) && !raw.endsWith('/>')) {
+      const close = source.toLowerCase().indexOf(`</${name.toLowerCase()}`, index);
+      const closeEnd = close === -1 ? source.length : source.indexOf('>', close) + 1 || source.length;
+      tag.closeEnd = closeEnd;
+      index = closeEnd;
+    }
+  }
+
+  return tags;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([^\s=/>{}"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"'{}]+)))?/g)) {
+    attributes[match[1]] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { getRootSvg, localName, parseSvg, walkSvg } from './svg.js';
+
+// Smallest raster source that isn't upscaled for the 512px icons
+export const MIN_SOURCE_SIZE = 512;
+
+export type SourceIssueCode =
+  | 'unreadable'
+  | 'not-square'
+  | 'too-small'
+  | 'svg-no-viewbox'
+  | 'svg-embedded-raster'
+  | 'opaque-background';
+
+export interface SourceIssue {
+  level: 'error' | 'warning'; // Errors stop generation; warnings only do with strict
+  code: SourceIssueCode;
+  message: string;
+  fix: string;
+}
+
+/**
+ * Inspect a source image for problems that make the icons come out wrong:
+ * a shape that gets letterboxed, too few pixels, SVGs that don't scale,
+ * embedded bitmaps and backgrounds that defeat the maskable icon.
+ */
+export async function lintSourceImage(sourcePath: string): Promise<SourceIssue[]> {
+  const issues: SourceIssue[] = [];
+  const name = path.basename(sourcePath);
+  const isSVG = path.extname(sourcePath).toLowerCase() === '.svg';
+
+  // Read into memory: libvips would serve a stale decode of a path edited since
+  const data = await fs.readFile(sourcePath);
+
+  if (isSVG) {
+    try {
+      issues.push(...lintSvg(data.toString('utf-8'), name));
+    } catch (error) {
+      return [unreadable(name, error)];
+    }
+  }
+
+  let width: number;
+  let height: number;
+  let opaque: boolean;
+  try {
+    const metadata = await sharp(data).metadata();
+    width = metadata.width ?? 0;
+    height = metadata.height ?? 0;
+    opaque = (await sharp(data).stats()).isOpaque;
+  } catch (error) {
+    return [...issues, unreadable(name, error)];
+  }
+
+  if (width !== height) {
+    issues.push({
+      level: 'warning',
+      code: 'not-square',
+      message: `${name} is ${width}×${height}, not square, so every icon gets transparent bars along the ${width > height ? 'top and bottom' : 'sides'}.`,
+      fix: 'Crop or pad the artwork to a square canvas.',
+    });
+  }
+
+  if (!isSVG && Math.min(width, height) < MIN_SOURCE_SIZE) {
+    issues.push({
+      level: 'warning',
+      code: 'too-small',
+      message: `${name} is ${width}×${height}; icons up to 512×512 are upscaled from it and look blurry.`,
+      fix: `Export at least ${MIN_SOURCE_SIZE}×${MIN_SOURCE_SIZE} px, or use an SVG source.`,
+    });
+  }
+
+  if (opaque) {
+    issues.push({
+      level: 'warning',
+      code: 'opaque-background',
+      message: `${name} has no transparent pixels, so the maskable icon shows its background as a smaller square inside the launcher shape.`,
+      fix: 'Export the artwork on a transparent background, or give the maskable icon its own source (maskable.source).',
+    });
+  }
+
+  return issues;
+}
+
+function lintSvg(source: string, name: string): SourceIssue[] {
+  const issues: SourceIssue[] = [];
+  const root = getRootSvg(parseSvg(source));
+  const { width, height, viewBox } = root.attributes;
+
+  if (!viewBox) {
+    const absolute = [width, height].filter(value => value !== undefined && !value.trim().endsWith('%'));
+    issues.push({
+      level: 'warning',
+      code: 'svg-no-viewbox',
+      message: absolute.length > 0
+        ? `${name} sets width/height but no viewBox, so it is rasterized at that fixed size instead of scaling.`
+        : `${name} has no viewBox or size, so renderers fall back to a default 300×150 canvas.`,
+      fix: `Add a viewBox to the <svg> element, e.g. viewBox="0 0 ${parseFloat(width ?? '') || 512} ${parseFloat(height ?? '') || 512}".`,
+    });
+  }
+
+  let embedded = false;
+  walkSvg(root, element => {
+    if (localName(element.name) !== 'image') return;
+    const href = element.attributes.href ?? element.attributes['xlink:href'] ?? '';
+    if (/^data:image\/(?!svg)/i.test(href) || /\.(png|jpe?g|gif|webp|avif)([?#]|$)/i.test(href)) {
+      embedded = true;
+    }
+  });
+  if (embedded) {
+    issues.push({
+      level: 'warning',
+      code: 'svg-embedded-raster',
+      message: `${name} embeds a bitmap image, which blurs when scaled and can't be turned into the monochrome Safari pinned tab.`,
+      fix: 'Replace the embedded image with vector shapes, or use the bitmap itself as the source.',
+    });
+  }
+
+  return issues;
+}
+
+function unreadable(name: string, error: unknown): SourceIssue {
+  return {
+    level: 'error',
+    code: 'unreadable',
+    message: `Could not read ${name} (${error instanceof Error ? error.message : String(error)}).`,
+    fix: 'Re-export the image from your design tool.',
+  };
+}
+
+/**
+ * Throw when the issues stop generation: any error, or any warning in
+ * strict mode. The message lists each one with its fix.
+ */
+export function assertUsableSource(issues: SourceIssue[], strict = false): void {
+  const errors = issues.filter(issue => issue.level === 'error');
+  const blocking = strict ? issues : errors;
+  if (blocking.length > 0) {
+    const heading = errors.length > 0 ? 'The source image can\'t be used' : 'The source image has warnings (strict mode)';
+    throw new Error(`${heading}:\n${blocking.map(issue => `  - ${formatSourceIssue(issue)}`).join('\n')}`);
+  }
+}
+
+// One line per issue, for warnings and error messages
+export function formatSourceIssue(issue: SourceIssue): string {
+  return `${issue.message} Fix: ${issue.fix}`;
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ManifestOptions } from './types.js';
+import { stripContentHash } from './assets.js';
+
+// Recognised manifest filenames, in lookup order
+export const MANIFEST_FILENAMES = ['site.webmanifest', 'manifest.webmanifest', 'manifest.json'];
+
+export interface ManifestIcon {
+  src: string;
+  sizes: string;
+  type: string;
+  purpose?: string;
+}
+
+type ManifestFields = Omit<ManifestOptions, 'filename'>;
+
+// ManifestOptions key → web app manifest member
+const FIELD_NAMES: Record<keyof ManifestFields, string> = {
+  name: 'name',
+  shortName: 'short_name',
+  description: 'description',
+  themeColor: 'theme_color',
+  backgroundColor: 'background_color',
+  display: 'display',
+  startUrl: 'start_url',
+  scope: 'scope',
+  id: 'id',
+};
+
+/**
+ * Find an existing manifest in the directory, preferring the configured filename.
+ */
+export async function findExistingManifest(dir: string, preferred?: string): Promise<string | null> {
+  const candidates = preferred ? [preferred] : MANIFEST_FILENAMES;
+  for (const filename of candidates) {
+    try {
+      await fs.access(path.join(dir, filename));
+      return filename;
+    } catch {
+      // Not there, try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Read name/description from package.json to use as manifest defaults.
+ */
+export async function readPackageDefaults(projectRoot: string): Promise<ManifestFields> {
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(projectRoot, 'package.json'), 'utf-8'));
+    const defaults: ManifestFields = {};
+    if (typeof packageJson.name === 'string' && packageJson.name) {
+      // Drop the npm scope: "@acme/dashboard" → "dashboard"
+      defaults.name = packageJson.name.replace(/^@[^/]+\//, '');
+    }
+    if (typeof packageJson.description === 'string' && packageJson.description) {
+      defaults.description = packageJson.description;
+    }
+    return defaults;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge generated icons and manifest fields into an existing manifest.
+ *
+ * Precedence for each field: explicit options, then the existing manifest,
+ * then package.json defaults. Only icon entries whose filename is in
+ * `managedFilenames` are replaced; any other icons and members are kept.
+ */
+export function mergeManifest(
+  existing: Record<string, unknown> | null,
+  options: ManifestFields,
+  defaults: ManifestFields,
+  icons: ManifestIcon[],
+  managedFilenames: Set<string>
+): Record<string, unknown> {
+  const manifest: Record<string, unknown> = { ...(existing || {}) };
+
+  for (const [key, member] of Object.entries(FIELD_NAMES) as [keyof ManifestFields, string][]) {
+    if (options[key] !== undefined) {
+      manifest[member] = options[key];
+    } else if (manifest[member] === undefined && defaults[key] !== undefined) {
+      manifest[member] = defaults[key];
+    }
+  }
+
+  const existingIcons = Array.isArray(manifest.icons) ? manifest.icons : [];
+  const keptIcons = existingIcons.filter(icon => !isManagedIcon(icon, managedFilenames));
+  manifest.icons = [...icons, ...keptIcons];
+
+  return manifest;
+}
+
+function isManagedIcon(icon: unknown, managedFilenames: Set<string>): boolean {
+  if (!icon || typeof icon !== 'object' || typeof (icon as ManifestIcon).src !== 'string') {
+    return false;
+  }
+  // Compare by filename so entries survive base path, query string or content hash changes
+  const filename = (icon as ManifestIcon).src.split(/[?#]/)[0].split('/').pop() || '';
+  return managedFilenames.has(filename) || managedFilenames.has(stripContentHash(filename));
+}
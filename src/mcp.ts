@@ -11,33 +11,110 @@ import { z } from 'zod';
 import path from 'path';
 import { IconGenerator } from './generator.js';
 import { FrameworkDetector, validateSourceFile, findAppIcon } from './utils.js';
+import { resolveGeneratorOptions } from './project.js';
+import { loadProjectConfig, DarkModeOptionsSchema, ManifestOptionsSchema, MaskableOptionsSchema, OpenGraphImageOptionsSchema, SplashScreenOptionsSchema, WindowsTileOptionsSchema } from './config.js';
+import { findExistingManifest } from './manifest.js';
+import { findIntegrationFile, integrateHeadTags, type IntegrationKind } from './integrate.js';
+import { formatUnifiedDiff } from './diff.js';
+import { findWorkspaces, formatTable, selectWorkspaces, type Workspace } from './workspace.js';
 import { promises as fs } from 'fs';
+import { SPLASH_SCREEN_CONFIGS, type DetectedFramework, type PlannedFile, type WebIconsConfig } from './types.js';
 
 // Tool input schemas
 const GenerateWebIconsSchema = z.object({
-  sourcePath: z.string().describe('Path to source image file (SVG, PNG, or JPG)'),
+  sourcePath: z.string().optional().describe('Path to source image file (SVG, PNG, or JPG); falls back to "source" in the project config'),
   outputDir: z.string().optional().describe('Output directory (auto-detected if not provided)'),
-  color: z.string().optional().default('#5bbad5').describe('Color for Safari pinned tab icon'),
+  color: z.string().optional().describe('Color for Safari pinned tab icon'),
   projectPath: z.string().optional().describe('Project root path for framework detection'),
-  mode: z.enum(['traditional', 'nextjs', 'auto']).optional().default('auto').describe('Generation mode: traditional (public/), nextjs (app/), or auto-detect'),
+  mode: z.enum(['traditional', 'nextjs', 'auto']).optional().describe('Generation mode: traditional (public/), nextjs (app/), or auto-detect'),
+  target: z.enum(['web', 'android', 'ios', 'desktop']).optional().describe('Platform: web icons (default), Android launcher icons, an iOS AppIcon.appiconset or desktop app icons'),
+  manifest: ManifestOptionsSchema.optional().describe('Web app manifest fields, merged into any existing manifest'),
+  dark: DarkModeOptionsSchema.optional().describe('Dark color scheme favicon: separate source or derived variant'),
+  splash: SplashScreenOptionsSchema.optional().describe('Generate iOS splash screens (traditional mode); presence enables them'),
+  tiles: WindowsTileOptionsSchema.optional().describe('Generate Windows tiles and browserconfig.xml (traditional mode); presence enables them'),
+  og: OpenGraphImageOptionsSchema.optional().describe('Generate Open Graph and Twitter card images; presence enables them'),
+  maskable: MaskableOptionsSchema.optional().describe('Maskable icon: separate source, safe zone size, background and a preview sheet'),
+  basePath: z.string().optional().describe('URL path the site is served under, e.g. /docs (default: project config, then the framework config)'),
+  assetPrefix: z.string().optional().describe('URL prefix the icon files are served from, e.g. a CDN origin (default: the base path)'),
+  hash: z.boolean().optional().describe('Content-hashed icon filenames and a web-icons.assets.json map (default: project config)'),
+  strict: z.boolean().optional().describe('Fail when the source image has warnings (not square, too small, no viewBox, ...), not just errors'),
+  preview: z.boolean().optional().describe('Also write icon-preview.html, a self-contained page showing every image in context (default: project config)'),
+  dryRun: z.boolean().optional().describe('Only report which files would be created, overwritten or left unchanged'),
 });
 
 const AutoGenerateIconsSchema = z.object({
   projectPath: z.string().describe('Project root directory to search for app-icon.svg or app-icon.png'),
-  color: z.string().optional().default('#5bbad5').describe('Color for Safari pinned tab icon'),
-  mode: z.enum(['traditional', 'nextjs', 'auto']).optional().default('auto').describe('Generation mode: traditional (public/), nextjs (app/), or auto-detect'),
+  color: z.string().optional().describe('Color for Safari pinned tab icon'),
+  mode: z.enum(['traditional', 'nextjs', 'auto']).optional().describe('Generation mode: traditional (public/), nextjs (app/), or auto-detect'),
+  target: z.enum(['web', 'android', 'ios', 'desktop']).optional().describe('Platform: web icons (default), Android launcher icons, an iOS AppIcon.appiconset or desktop app icons'),
+  manifest: ManifestOptionsSchema.optional().describe('Web app manifest fields, merged into any existing manifest'),
+  dark: DarkModeOptionsSchema.optional().describe('Dark color scheme favicon: separate source or derived variant'),
+  splash: SplashScreenOptionsSchema.optional().describe('Generate iOS splash screens (traditional mode); presence enables them'),
+  tiles: WindowsTileOptionsSchema.optional().describe('Generate Windows tiles and browserconfig.xml (traditional mode); presence enables them'),
+  og: OpenGraphImageOptionsSchema.optional().describe('Generate Open Graph and Twitter card images; presence enables them'),
+  maskable: MaskableOptionsSchema.optional().describe('Maskable icon: separate source, safe zone size, background and a preview sheet'),
+  basePath: z.string().optional().describe('URL path the site is served under, e.g. /docs (default: project config, then the framework config)'),
+  assetPrefix: z.string().optional().describe('URL prefix the icon files are served from, e.g. a CDN origin (default: the base path)'),
+  hash: z.boolean().optional().describe('Content-hashed icon filenames and a web-icons.assets.json map (default: project config)'),
+  strict: z.boolean().optional().describe('Fail when the source image has warnings (not square, too small, no viewBox, ...), not just errors'),
+  preview: z.boolean().optional().describe('Also write icon-preview.html, a self-contained page showing every image in context (default: project config)'),
+  dryRun: z.boolean().optional().describe('Only report which files would be created, overwritten or left unchanged'),
+  apps: z.array(z.string()).optional().describe('Monorepo: only these workspace apps (package name or directory)'),
+  workspaces: z.boolean().optional().describe('Set to false to treat a monorepo root as a single project'),
 });
 
 const CheckIconsStatusSchema = z.object({
   projectPath: z.string().describe('Project root directory to check'),
+  apps: z.array(z.string()).optional().describe('Monorepo: only these workspace apps (package name or directory)'),
+  workspaces: z.boolean().optional().describe('Set to false to treat a monorepo root as a single project'),
+});
+
+const CheckIconsUpToDateSchema = z.object({
+  projectPath: z.string().optional().describe('Project root path (default: current directory)'),
+  sourcePath: z.string().optional().describe('Path to source image file; falls back to the project config, then app-icon.svg/app-icon.png'),
+  outputDir: z.string().optional().describe('Output directory (auto-detected if not provided)'),
+  color: z.string().optional().describe('Color for Safari pinned tab icon'),
+  mode: z.enum(['traditional', 'nextjs', 'auto']).optional().describe('Generation mode: traditional (public/), nextjs (app/), or auto-detect'),
+  target: z.enum(['web', 'android', 'ios', 'desktop']).optional().describe('Platform: web icons (default), Android launcher icons, an iOS AppIcon.appiconset or desktop app icons'),
+  manifest: ManifestOptionsSchema.optional().describe('Web app manifest fields, merged into any existing manifest'),
+  dark: DarkModeOptionsSchema.optional().describe('Dark color scheme favicon: separate source or derived variant'),
+  splash: SplashScreenOptionsSchema.optional().describe('Generate iOS splash screens (traditional mode); presence enables them'),
+  tiles: WindowsTileOptionsSchema.optional().describe('Generate Windows tiles and browserconfig.xml (traditional mode); presence enables them'),
+  og: OpenGraphImageOptionsSchema.optional().describe('Generate Open Graph and Twitter card images; presence enables them'),
+  maskable: MaskableOptionsSchema.optional().describe('Maskable icon: separate source, safe zone size, background and a preview sheet'),
+  basePath: z.string().optional().describe('URL path the site is served under, e.g. /docs (default: project config, then the framework config)'),
+  assetPrefix: z.string().optional().describe('URL prefix the icon files are served from, e.g. a CDN origin (default: the base path)'),
+  hash: z.boolean().optional().describe('Content-hashed icon filenames and a web-icons.assets.json map (default: project config)'),
 });
 
 const IntegrateIconsHTMLSchema = z.object({
   projectPath: z.string().describe('Project root directory'),
   htmlPath: z.string().optional().describe('Optional: specific HTML file path relative to project root'),
-  color: z.string().optional().default('#5bbad5').describe('Color for Safari pinned tab icon'),
+  sourcePath: z.string().optional().describe('Path to source image file; falls back to the project config, then app-icon.svg/app-icon.png, then the icons already in the output directory'),
+  outputDir: z.string().optional().describe('Output directory (auto-detected if not provided)'),
+  color: z.string().optional().describe('Color for Safari pinned tab icon'),
+  mode: z.enum(['traditional', 'nextjs', 'auto']).optional().describe('Generation mode: traditional (public/), nextjs (app/), or auto-detect'),
+  manifest: ManifestOptionsSchema.optional().describe('Web app manifest fields, merged into any existing manifest'),
+  dark: DarkModeOptionsSchema.optional().describe('Dark color scheme favicon: separate source or derived variant'),
+  splash: SplashScreenOptionsSchema.optional().describe('Generate iOS splash screens (traditional mode); presence enables them'),
+  tiles: WindowsTileOptionsSchema.optional().describe('Generate Windows tiles and browserconfig.xml (traditional mode); presence enables them'),
+  og: OpenGraphImageOptionsSchema.optional().describe('Generate Open Graph and Twitter card images; presence enables them'),
+  basePath: z.string().optional().describe('URL path the site is served under, e.g. /docs (default: project config, then the framework config)'),
+  assetPrefix: z.string().optional().describe('URL prefix the icon files are served from, e.g. a CDN origin (default: the base path)'),
+  hash: z.boolean().optional().describe('Content-hashed icon filenames and a web-icons.assets.json map (default: project config)'),
 });
 
+// Where integrate_icons_html puts the tags, by the kind of file
+const INTEGRATION_TARGETS: Record<IntegrationKind, string> = {
+  html: '<head> of the HTML page',
+  'nextjs-app': 'metadata export of the root layout',
+  'nextjs-pages': '<Head> in pages/_document',
+  sveltekit: '<svelte:head> of the root layout',
+  remix: 'links export of the root route',
+  astro: '<head> of the Astro layout',
+  nuxt: 'app.head in nuxt.config',
+};
+
 // Required icon files
 const REQUIRED_ICONS = [
   'favicon.ico',
@@ -80,7 +157,7 @@ server.onerror = (error) => console.error('[MCP Error]', error);
             properties: {
               sourcePath: {
                 type: 'string',
-                description: 'Path to source image file (SVG, PNG, or JPG)',
+                description: 'Path to source image file (SVG, PNG, or JPG). Optional when web-icons.config.json (or package.json "webIcons") sets "source"',
               },
               outputDir: {
                 type: 'string',
@@ -99,13 +176,100 @@ server.onerror = (error) => console.error('[MCP Error]', error);
                 enum: ['traditional', 'nextjs', 'auto'],
                 description: 'Generation mode: traditional (public/ with manual HTML), nextjs (app/ with auto-linking), or auto-detect (default)',
               },
+              target: {
+                type: 'string',
+                enum: ['web', 'android', 'ios', 'desktop'],
+                description: 'Platform to generate for: web (default), android (mipmap-* launcher icons, round variants and an adaptive icon in android/app/src/main/res), ios (AppIcon.appiconset with Contents.json in the Xcode asset catalog) or desktop (icon.icns, icon.ico with 16-256px layers, icon.png and a Linux hicolor set in the Electron build/ or Tauri src-tauri/icons/ directory). Native targets replace the web icon set',
+              },
+              manifest: {
+                type: 'object',
+                description: 'Web app manifest fields (traditional mode). Merged into an existing site.webmanifest, manifest.webmanifest or manifest.json; name/description default to package.json',
+                properties: {
+                  filename: { type: 'string', enum: ['site.webmanifest', 'manifest.webmanifest', 'manifest.json'] },
+                  name: { type: 'string' },
+                  shortName: { type: 'string' },
+                  description: { type: 'string' },
+                  themeColor: { type: 'string' },
+                  backgroundColor: { type: 'string' },
+                  display: { type: 'string', enum: ['fullscreen', 'standalone', 'minimal-ui', 'browser'] },
+                  startUrl: { type: 'string' },
+                  scope: { type: 'string' },
+                  id: { type: 'string' },
+                },
+              },
+              dark: {
+                type: 'object',
+                description: 'Dark color scheme favicon. icon.svg gets an embedded prefers-color-scheme style; traditional mode adds icon-dark-32.png/icon-dark-192.png linked with media attributes',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for dark backgrounds (relative to project root)' },
+                  strategy: { type: 'string', enum: ['invert', 'recolor'], description: 'Derive the dark variant from the main source' },
+                  color: { type: 'string', description: 'Color for the recolor strategy (default: #ffffff)' },
+                },
+              },
+              splash: {
+                type: 'object',
+                description: 'Opt in to iOS splash screens (apple-touch-startup-image) for installed PWAs: portrait and landscape launch images for current iPhones and iPads in splash/, plus link tags in the HTML snippet. Traditional mode only',
+                properties: {
+                  backgroundColor: { type: 'string', description: 'Background color (default: manifest background color or #ffffff)' },
+                },
+              },
+              tiles: {
+                type: 'object',
+                description: 'Opt in to Windows tiles: mstile-70x70/150x150/310x150/310x310 PNGs and browserconfig.xml, plus msapplication meta tags in the HTML snippet. Traditional mode only',
+                properties: {
+                  color: { type: 'string', description: 'TileColor (default: manifest theme color or #da532c)' },
+                },
+              },
+              og: {
+                type: 'object',
+                description: 'Opt in to social sharing images: og-image.png (1200x630) and twitter-image.png (1200x600) composed from the icon, a background and optional text, plus og:image/twitter:image meta tags. In Next.js mode writes opengraph-image.png/twitter-image.png to app/, which Next.js auto-links',
+                properties: {
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  title: { type: 'string', description: 'Title text next to the icon' },
+                  subtitle: { type: 'string', description: 'Subtitle text below the title' },
+                  textColor: { type: 'string', description: 'Text color (default: black or white, whichever contrasts with the background)' },
+                },
+              },
+              maskable: {
+                type: 'object',
+                description: 'Maskable manifest icon (icon-maskable.png): launchers crop it to their own shape, so the artwork is scaled into the safe zone on an opaque background',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for the maskable icon, e.g. artwork without its own background (relative to project root)' },
+                  safeZone: { type: 'number', minimum: 10, maximum: 100, description: 'Artwork size as a percentage of the icon (default: 60). Launchers keep the centered circle 80% across' },
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  preview: { type: 'boolean', description: 'Also write maskable-preview.png next to the integration guide: the icon with its safe zone outlined and under circle, squircle, rounded square and teardrop masks. Show it to the user to check nothing is cut off' },
+                },
+              },
+              basePath: {
+                type: 'string',
+                description: 'URL path the site is served under (e.g. /docs for a GitHub Pages project site); prefixes every icon URL in the manifest and the tags. Defaults to the project config, then the framework config (Next.js basePath, Vite/Astro base, SvelteKit paths.base, Nuxt app.baseURL)',
+              },
+              assetPrefix: {
+                type: 'string',
+                description: 'URL prefix the icon files are served from, e.g. https://cdn.example.com; used instead of basePath for icon URLs. Defaults to the project config, then the framework config (Next.js assetPrefix, SvelteKit paths.assets, Nuxt app.cdnURL)',
+              },
+              hash: {
+                type: 'boolean',
+                description: 'Add a content hash to the icon filenames (icon-192.3f9a1c.png) so they can be cached forever, and write web-icons.assets.json mapping each name to its hashed file. favicon.ico and apple-touch-icon.png keep their names; stale files from earlier runs are deleted. Defaults to the project config',
+              },
+              strict: {
+                type: 'boolean',
+                description: 'Fail instead of generating when the source image has warnings: not square, a raster under 512px, an SVG without viewBox or with embedded bitmaps, or an opaque background that spoils the maskable icon. Errors (an unreadable image) always fail',
+              },
+              preview: {
+                type: 'boolean',
+                description: 'Also write icon-preview.html next to the integration guide: every generated image at real size and 2×, plus light and dark browser tabs, an iOS home screen, an Android launcher and a Safari pinned tab. Images are inlined, so the page can be shared on its own (e.g. as a PR artifact). Its path is returned with the integration guide. Defaults to the project config',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Preview only: list each file that would be created, overwritten or left unchanged (with dimensions) without writing anything. Use this to show the user a plan before touching the repo',
+              },
             },
-            required: ['sourcePath'],
           },
         },
         {
           name: 'auto_generate_icons',
-          description: 'Automatically find app-icon.svg or app-icon.png in project directory and generate all web icons. Perfect for zero-config icon generation. Supports both traditional (public/) and Next.js App Router (app/) modes.',
+          description: 'Automatically find app-icon.svg or app-icon.png in project directory and generate all web icons. Perfect for zero-config icon generation. Supports both traditional (public/) and Next.js App Router (app/) modes. At a monorepo root it generates for every app (or the selected apps), using each app\'s own app-icon or the shared root one, and returns a summary table.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -122,13 +286,110 @@ server.onerror = (error) => console.error('[MCP Error]', error);
                 enum: ['traditional', 'nextjs', 'auto'],
                 description: 'Generation mode: traditional (public/ with manual HTML), nextjs (app/ with auto-linking), or auto-detect (default)',
               },
+              target: {
+                type: 'string',
+                enum: ['web', 'android', 'ios', 'desktop'],
+                description: 'Platform to generate for: web (default), android (mipmap-* launcher icons, round variants and an adaptive icon in android/app/src/main/res), ios (AppIcon.appiconset with Contents.json in the Xcode asset catalog) or desktop (icon.icns, icon.ico with 16-256px layers, icon.png and a Linux hicolor set in the Electron build/ or Tauri src-tauri/icons/ directory). Native targets replace the web icon set',
+              },
+              manifest: {
+                type: 'object',
+                description: 'Web app manifest fields (traditional mode). Merged into an existing site.webmanifest, manifest.webmanifest or manifest.json; name/description default to package.json',
+                properties: {
+                  filename: { type: 'string', enum: ['site.webmanifest', 'manifest.webmanifest', 'manifest.json'] },
+                  name: { type: 'string' },
+                  shortName: { type: 'string' },
+                  description: { type: 'string' },
+                  themeColor: { type: 'string' },
+                  backgroundColor: { type: 'string' },
+                  display: { type: 'string', enum: ['fullscreen', 'standalone', 'minimal-ui', 'browser'] },
+                  startUrl: { type: 'string' },
+                  scope: { type: 'string' },
+                  id: { type: 'string' },
+                },
+              },
+              dark: {
+                type: 'object',
+                description: 'Dark color scheme favicon. icon.svg gets an embedded prefers-color-scheme style; traditional mode adds icon-dark-32.png/icon-dark-192.png linked with media attributes',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for dark backgrounds (relative to project root)' },
+                  strategy: { type: 'string', enum: ['invert', 'recolor'], description: 'Derive the dark variant from the main source' },
+                  color: { type: 'string', description: 'Color for the recolor strategy (default: #ffffff)' },
+                },
+              },
+              splash: {
+                type: 'object',
+                description: 'Opt in to iOS splash screens (apple-touch-startup-image) for installed PWAs: portrait and landscape launch images for current iPhones and iPads in splash/, plus link tags in the HTML snippet. Traditional mode only',
+                properties: {
+                  backgroundColor: { type: 'string', description: 'Background color (default: manifest background color or #ffffff)' },
+                },
+              },
+              tiles: {
+                type: 'object',
+                description: 'Opt in to Windows tiles: mstile-70x70/150x150/310x150/310x310 PNGs and browserconfig.xml, plus msapplication meta tags in the HTML snippet. Traditional mode only',
+                properties: {
+                  color: { type: 'string', description: 'TileColor (default: manifest theme color or #da532c)' },
+                },
+              },
+              og: {
+                type: 'object',
+                description: 'Opt in to social sharing images: og-image.png (1200x630) and twitter-image.png (1200x600) composed from the icon, a background and optional text, plus og:image/twitter:image meta tags. In Next.js mode writes opengraph-image.png/twitter-image.png to app/, which Next.js auto-links',
+                properties: {
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  title: { type: 'string', description: 'Title text next to the icon' },
+                  subtitle: { type: 'string', description: 'Subtitle text below the title' },
+                  textColor: { type: 'string', description: 'Text color (default: black or white, whichever contrasts with the background)' },
+                },
+              },
+              maskable: {
+                type: 'object',
+                description: 'Maskable manifest icon (icon-maskable.png): launchers crop it to their own shape, so the artwork is scaled into the safe zone on an opaque background',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for the maskable icon, e.g. artwork without its own background (relative to project root)' },
+                  safeZone: { type: 'number', minimum: 10, maximum: 100, description: 'Artwork size as a percentage of the icon (default: 60). Launchers keep the centered circle 80% across' },
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  preview: { type: 'boolean', description: 'Also write maskable-preview.png next to the integration guide: the icon with its safe zone outlined and under circle, squircle, rounded square and teardrop masks. Show it to the user to check nothing is cut off' },
+                },
+              },
+              basePath: {
+                type: 'string',
+                description: 'URL path the site is served under (e.g. /docs for a GitHub Pages project site); prefixes every icon URL in the manifest and the tags. Defaults to the project config, then the framework config (Next.js basePath, Vite/Astro base, SvelteKit paths.base, Nuxt app.baseURL)',
+              },
+              assetPrefix: {
+                type: 'string',
+                description: 'URL prefix the icon files are served from, e.g. https://cdn.example.com; used instead of basePath for icon URLs. Defaults to the project config, then the framework config (Next.js assetPrefix, SvelteKit paths.assets, Nuxt app.cdnURL)',
+              },
+              hash: {
+                type: 'boolean',
+                description: 'Add a content hash to the icon filenames (icon-192.3f9a1c.png) so they can be cached forever, and write web-icons.assets.json mapping each name to its hashed file. favicon.ico and apple-touch-icon.png keep their names; stale files from earlier runs are deleted. Defaults to the project config',
+              },
+              strict: {
+                type: 'boolean',
+                description: 'Fail instead of generating when the source image has warnings: not square, a raster under 512px, an SVG without viewBox or with embedded bitmaps, or an opaque background that spoils the maskable icon. Errors (an unreadable image) always fail',
+              },
+              preview: {
+                type: 'boolean',
+                description: 'Also write icon-preview.html next to the integration guide: every generated image at real size and 2×, plus light and dark browser tabs, an iOS home screen, an Android launcher and a Safari pinned tab. Images are inlined, so the page can be shared on its own (e.g. as a PR artifact). Its path is returned with the integration guide. Defaults to the project config',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Preview only: list each file that would be created, overwritten or left unchanged (with dimensions) without writing anything. Use this to show the user a plan before touching the repo',
+              },
+              apps: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Monorepo root only: workspace apps to include, by package name or directory (default: every workspace with a detected framework)',
+              },
+              workspaces: {
+                type: 'boolean',
+                description: 'Set to false to treat a monorepo root (pnpm-workspace.yaml, package.json workspaces, turbo.json, nx.json) as a single project',
+              },
             },
             required: ['projectPath'],
           },
         },
         {
           name: 'check_icons_status',
-          description: 'Check which web icons exist in a project and which are missing. Returns detailed status of all required icon files.',
+          description: 'Check which web icons exist in a project and which are missing. Returns detailed status of all required icon files, or a per-app table at a monorepo root.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -136,13 +397,128 @@ server.onerror = (error) => console.error('[MCP Error]', error);
                 type: 'string',
                 description: 'Project root directory to check for icons',
               },
+              apps: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Monorepo root only: workspace apps to include, by package name or directory (default: every workspace with a detected framework)',
+              },
+              workspaces: {
+                type: 'boolean',
+                description: 'Set to false to treat a monorepo root (pnpm-workspace.yaml, package.json workspaces, turbo.json, nx.json) as a single project',
+              },
             },
             required: ['projectPath'],
           },
         },
+        {
+          name: 'check_icons_up_to_date',
+          description: 'Check whether the generated icons still match the current source image and options, using the stamp file written on generation. Reports a changed source, changed options, and missing or modified files. Pass the same options used to generate the icons.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              projectPath: {
+                type: 'string',
+                description: 'Project root directory (default: current directory)',
+              },
+              sourcePath: {
+                type: 'string',
+                description: 'Path to source image file. Defaults to "source" in the project config, then app-icon.svg/app-icon.png in the project root',
+              },
+              outputDir: {
+                type: 'string',
+                description: 'Output directory (auto-detected based on framework if not provided)',
+              },
+              color: {
+                type: 'string',
+                description: 'Hex color for Safari pinned tab icon (default: #5bbad5)',
+              },
+              mode: {
+                type: 'string',
+                enum: ['traditional', 'nextjs', 'auto'],
+                description: 'Generation mode: traditional (public/ with manual HTML), nextjs (app/ with auto-linking), or auto-detect (default)',
+              },
+              target: {
+                type: 'string',
+                enum: ['web', 'android', 'ios', 'desktop'],
+                description: 'Platform to generate for: web (default), android (mipmap-* launcher icons, round variants and an adaptive icon in android/app/src/main/res), ios (AppIcon.appiconset with Contents.json in the Xcode asset catalog) or desktop (icon.icns, icon.ico with 16-256px layers, icon.png and a Linux hicolor set in the Electron build/ or Tauri src-tauri/icons/ directory). Native targets replace the web icon set',
+              },
+              manifest: {
+                type: 'object',
+                description: 'Web app manifest fields the icons were generated with',
+                properties: {
+                  filename: { type: 'string', enum: ['site.webmanifest', 'manifest.webmanifest', 'manifest.json'] },
+                  name: { type: 'string' },
+                  shortName: { type: 'string' },
+                  description: { type: 'string' },
+                  themeColor: { type: 'string' },
+                  backgroundColor: { type: 'string' },
+                  display: { type: 'string', enum: ['fullscreen', 'standalone', 'minimal-ui', 'browser'] },
+                  startUrl: { type: 'string' },
+                  scope: { type: 'string' },
+                  id: { type: 'string' },
+                },
+              },
+              dark: {
+                type: 'object',
+                description: 'Dark color scheme settings the icons were generated with',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for dark backgrounds (relative to project root)' },
+                  strategy: { type: 'string', enum: ['invert', 'recolor'], description: 'Derive the dark variant from the main source' },
+                  color: { type: 'string', description: 'Color for the recolor strategy (default: #ffffff)' },
+                },
+              },
+              splash: {
+                type: 'object',
+                description: 'Opt in to iOS splash screens (apple-touch-startup-image) for installed PWAs: portrait and landscape launch images for current iPhones and iPads in splash/, plus link tags in the HTML snippet. Traditional mode only',
+                properties: {
+                  backgroundColor: { type: 'string', description: 'Background color (default: manifest background color or #ffffff)' },
+                },
+              },
+              tiles: {
+                type: 'object',
+                description: 'Opt in to Windows tiles: mstile-70x70/150x150/310x150/310x310 PNGs and browserconfig.xml, plus msapplication meta tags in the HTML snippet. Traditional mode only',
+                properties: {
+                  color: { type: 'string', description: 'TileColor (default: manifest theme color or #da532c)' },
+                },
+              },
+              og: {
+                type: 'object',
+                description: 'Opt in to social sharing images: og-image.png (1200x630) and twitter-image.png (1200x600) composed from the icon, a background and optional text, plus og:image/twitter:image meta tags. In Next.js mode writes opengraph-image.png/twitter-image.png to app/, which Next.js auto-links',
+                properties: {
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  title: { type: 'string', description: 'Title text next to the icon' },
+                  subtitle: { type: 'string', description: 'Subtitle text below the title' },
+                  textColor: { type: 'string', description: 'Text color (default: black or white, whichever contrasts with the background)' },
+                },
+              },
+              maskable: {
+                type: 'object',
+                description: 'Maskable manifest icon (icon-maskable.png): launchers crop it to their own shape, so the artwork is scaled into the safe zone on an opaque background',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for the maskable icon, e.g. artwork without its own background (relative to project root)' },
+                  safeZone: { type: 'number', minimum: 10, maximum: 100, description: 'Artwork size as a percentage of the icon (default: 60). Launchers keep the centered circle 80% across' },
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  preview: { type: 'boolean', description: 'Also write maskable-preview.png next to the integration guide: the icon with its safe zone outlined and under circle, squircle, rounded square and teardrop masks. Show it to the user to check nothing is cut off' },
+                },
+              },
+              basePath: {
+                type: 'string',
+                description: 'URL path the site is served under (e.g. /docs for a GitHub Pages project site); prefixes every icon URL in the manifest and the tags. Defaults to the project config, then the framework config (Next.js basePath, Vite/Astro base, SvelteKit paths.base, Nuxt app.baseURL)',
+              },
+              assetPrefix: {
+                type: 'string',
+                description: 'URL prefix the icon files are served from, e.g. https://cdn.example.com; used instead of basePath for icon URLs. Defaults to the project config, then the framework config (Next.js assetPrefix, SvelteKit paths.assets, Nuxt app.cdnURL)',
+              },
+              hash: {
+                type: 'boolean',
+                description: 'Add a content hash to the icon filenames (icon-192.3f9a1c.png) so they can be cached forever, and write web-icons.assets.json mapping each name to its hashed file. favicon.ico and apple-touch-icon.png keep their names; stale files from earlier runs are deleted. Defaults to the project config',
+              },
+            },
+          },
+        },
         {
           name: 'integrate_icons_html',
-          description: 'Add or update icon link tags in HTML files. Automatically detects HTML entry points (index.html, layout files) and inserts proper favicon, PWA manifest, and Apple icon tags.',
+          description: 'Add icon tags to the file that owns the document head, in that framework\'s own form: the metadata export of a Next.js root layout, <Head> in pages/_document, <svelte:head> in a SvelteKit layout, the links export of a Remix root route, the <head> of an Astro layout, app.head in nuxt.config, or <head> in index.html. JavaScript and TypeScript files are edited through their syntax tree. The tags match the icons the same options generate, worked out without rendering (hashed filenames come from the asset map the last run wrote): pass the options used with generate_web_icons, or keep them in the project config. Without a source image the tags follow the icons already in the output directory. Existing icon tags are replaced by a block between web-icons:start/end markers, so running it again is safe; returns a diff of the change.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -152,12 +528,77 @@ server.onerror = (error) => console.error('[MCP Error]', error);
               },
               htmlPath: {
                 type: 'string',
-                description: 'Optional: specific HTML file path relative to project root. If not provided, auto-detects index.html or framework layout files.',
+                description: 'Optional: specific file relative to project root (HTML page, root layout, _document, +layout.svelte, root route, Astro layout or nuxt.config). If not provided, auto-detects the framework\'s head file or index.html.',
+              },
+              sourcePath: {
+                type: 'string',
+                description: 'Path to source image file. Defaults to "source" in the project config, then app-icon.svg/app-icon.png in the project root; without one the tags follow the icons already in the output directory',
+              },
+              outputDir: {
+                type: 'string',
+                description: 'Output directory the icons were generated into (auto-detected based on framework if not provided)',
               },
               color: {
                 type: 'string',
                 description: 'Hex color for Safari pinned tab icon (default: #5bbad5)',
               },
+              mode: {
+                type: 'string',
+                enum: ['traditional', 'nextjs', 'auto'],
+                description: 'Generation mode: traditional (public/ with manual HTML), nextjs (app/ with auto-linking, so no tags are added), or auto-detect (default)',
+              },
+              manifest: {
+                type: 'object',
+                description: 'Web app manifest fields the icons were generated with; filename picks the manifest that is linked',
+                properties: {
+                  filename: { type: 'string', enum: ['site.webmanifest', 'manifest.webmanifest', 'manifest.json'] },
+                },
+              },
+              dark: {
+                type: 'object',
+                description: 'Dark color scheme settings the icons were generated with; adds the dark favicon links',
+                properties: {
+                  source: { type: 'string', description: 'Separate image for dark backgrounds (relative to project root)' },
+                  strategy: { type: 'string', enum: ['invert', 'recolor'], description: 'Derive the dark variant from the main source' },
+                  color: { type: 'string', description: 'Color for the recolor strategy (default: #ffffff)' },
+                },
+              },
+              splash: {
+                type: 'object',
+                description: 'Set when iOS splash screens were generated; adds the apple-touch-startup-image links',
+                properties: {
+                  backgroundColor: { type: 'string', description: 'Background color (default: manifest background color or #ffffff)' },
+                },
+              },
+              tiles: {
+                type: 'object',
+                description: 'Set when Windows tiles were generated; adds the msapplication meta tags. Without it they are added when a generated browserconfig.xml exists, with its TileColor',
+                properties: {
+                  color: { type: 'string', description: 'TileColor (default: manifest theme color or #da532c)' },
+                },
+              },
+              og: {
+                type: 'object',
+                description: 'Set when social sharing images were generated; adds the og:image/twitter:image meta tags',
+                properties: {
+                  background: { type: 'string', description: 'Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background color or #ffffff)' },
+                  title: { type: 'string', description: 'Title text next to the icon' },
+                  subtitle: { type: 'string', description: 'Subtitle text below the title' },
+                  textColor: { type: 'string', description: 'Text color (default: black or white, whichever contrasts with the background)' },
+                },
+              },
+              basePath: {
+                type: 'string',
+                description: 'URL path the site is served under (e.g. /docs for a GitHub Pages project site); prefixes every icon URL in the manifest and the tags. Defaults to the project config, then the framework config (Next.js basePath, Vite/Astro base, SvelteKit paths.base, Nuxt app.baseURL)',
+              },
+              assetPrefix: {
+                type: 'string',
+                description: 'URL prefix the icon files are served from, e.g. https://cdn.example.com; used instead of basePath for icon URLs. Defaults to the project config, then the framework config (Next.js assetPrefix, SvelteKit paths.assets, Nuxt app.cdnURL)',
+              },
+              hash: {
+                type: 'boolean',
+                description: 'Set when the icons were generated with content-hashed filenames; links the hashed files. Defaults to the project config',
+              },
             },
             required: ['projectPath'],
           },
@@ -175,6 +616,8 @@ server.onerror = (error) => console.error('[MCP Error]', error);
             return await handleAutoGenerateIcons(request.params.arguments);
           case 'check_icons_status':
             return await handleCheckIconsStatus(request.params.arguments);
+          case 'check_icons_up_to_date':
+            return await handleCheckIconsUpToDate(request.params.arguments);
           case 'integrate_icons_html':
             return await handleIntegrateIconsHTML(request.params.arguments);
           default:
@@ -203,57 +646,35 @@ async function handleGenerateWebIcons(args: unknown) {
     const parsed = GenerateWebIconsSchema.parse(args);
     const projectPath = parsed.projectPath || process.cwd();
 
+    // Project config fills in anything not passed explicitly
+    const { config } = await loadProjectConfig(projectPath);
+    const sourceArg = parsed.sourcePath || config.source;
+    if (!sourceArg) {
+      throw new Error('No sourcePath provided and no "source" set in the project config.');
+    }
+
     // Resolve absolute paths
-    const sourcePath = path.resolve(projectPath, parsed.sourcePath);
+    const sourcePath = path.resolve(projectPath, sourceArg);
 
     // Validate source file
     await validateSourceFile(sourcePath);
 
-    // Detect framework and determine output directory
-    const detector = new FrameworkDetector(projectPath);
-    const framework = await detector.detect();
-    const hasAppRouter = await detector.hasAppRouter();
-
-    let mode = parsed.mode || 'auto';
-    let outputDir: string;
+    const { generatorOptions, framework } = await resolveGeneratorOptions(parsed, config, projectPath, sourcePath);
+    const outputDir = generatorOptions.outputDir;
+    const generator = new IconGenerator(generatorOptions);
 
-    if (parsed.outputDir) {
-      outputDir = path.resolve(projectPath, parsed.outputDir);
-      // If output is explicitly set and mode is auto, determine mode from path
-      if (mode === 'auto') {
-        const outputBasename = path.basename(outputDir);
-        mode = (outputBasename === 'app' || outputDir.includes('/app')) ? 'nextjs' : 'traditional';
-      }
-    } else {
-      // Auto-detect output directory based on mode and framework
-      if (mode === 'auto' && hasAppRouter && framework?.name === 'Next.js') {
-        mode = 'nextjs';
-      } else if (mode === 'auto') {
-        mode = 'traditional';
-      }
-
-      // Set output directory based on mode
-      if (mode === 'nextjs' && hasAppRouter) {
-        outputDir = await detector.getAppDir() || await detector.getPublicDir();
-      } else {
-        outputDir = await detector.getPublicDir();
-      }
+    if (parsed.dryRun) {
+      return formatPlanResponse(await generator.plan(), generator, projectPath);
     }
 
-    // Generate icons
-    const generator = new IconGenerator({
-      sourcePath,
-      outputDir,
-      projectRoot: projectPath,
-      color: parsed.color,
-      mode: mode as 'traditional' | 'nextjs' | 'auto',
-    });
-
     await generator.generate();
+    if (generator.getTarget() !== 'web') {
+      return formatNativeResponse(generator, framework, projectPath, outputDir);
+    }
     const actualMode = generator.getMode();
 
     const frameworkInfo = framework
-      ? `Detected ${framework.name} → using ${actualMode === 'nextjs' ? 'app' : framework.publicDir}/ directory (${actualMode} mode)`
+      ? `Detected ${framework.name} (${framework.confidence} confidence) → using ${path.relative(projectPath, outputDir) || '.'}/ directory (${actualMode} mode)`
       : `No framework detected → using public/ directory (${actualMode} mode)`;
 
     const outputDirRelative = path.relative(projectPath, outputDir);
@@ -264,18 +685,18 @@ async function handleGenerateWebIcons(args: unknown) {
     let filesList: string;
 
     if (actualMode === 'nextjs') {
-      htmlSnippet = `Next.js App Router Mode - Icons are automatically linked!\n\nGenerated files in ${outputDirRelative}/:\n- favicon.ico (32×32)\n- icon.png (512×512) - auto-linked\n- apple-icon.png (180×180) - auto-linked\n${sourcePath.toLowerCase().endsWith('.svg') ? '- icon.svg - auto-linked' : ''}\n\nNo manual <link> tags needed!`;
-      filesList = '- favicon.ico, icon.png, apple-icon.png, apple-touch-icon.png (compatibility)';
+      htmlSnippet = `Next.js App Router Mode - Icons are automatically linked!\n\nGenerated files in ${outputDirRelative}/:\n- favicon.ico (${generator.getFaviconSizes()})\n- icon.png (512×512) - auto-linked\n- apple-icon.png (180×180) - auto-linked\n${sourcePath.toLowerCase().endsWith('.svg') ? '- icon.svg - auto-linked' : ''}\n\nNo manual <link> tags needed!\n\n${generator.getNextjsGuide()}`;
+      filesList = `- favicon.ico, icon.png, apple-icon.png, apple-touch-icon.png (compatibility)${generatorOptions.og ? '\n- opengraph-image.png, twitter-image.png (auto-linked social images)' : ''}\n- ${generator.getManifestFilename()} (PWA manifest route)\n- public/icon-192.png, icon-512.png, icon-maskable.png (manifest icons)`;
     } else {
-      htmlSnippet = `<!-- Favicon (modern + fallback) -->\n<link rel="icon" href="/icon.svg" type="image/svg+xml">\n<link rel="icon" href="/favicon.ico" sizes="any">\n\n<!-- Apple Touch Icon -->\n<link rel="apple-touch-icon" href="/apple-touch-icon.png">\n\n<!-- Web App Manifest (PWA) -->\n<link rel="manifest" href="/site.webmanifest">\n\n<!-- Safari Pinned Tab -->\n<link rel="mask-icon" href="/safari-pinned-tab.svg" color="${parsed.color || '#5bbad5'}">`;
-      filesList = '- favicon.ico (32×32)\n- icon.svg (scalable)\n- icon-192.png (192×192)\n- icon-512.png (512×512)\n- apple-touch-icon.png (180×180)\n- icon-maskable.png (512×512, with padding)\n- safari-pinned-tab.svg (monochrome)\n- site.webmanifest (PWA manifest)';
+      htmlSnippet = generator.getHTMLSnippet();
+      filesList = `- favicon.ico (${generator.getFaviconSizes()})\n- icon.svg (scalable)\n- icon-192.png (192×192)\n- icon-512.png (512×512)\n- apple-touch-icon.png (180×180)\n- icon-maskable.png (512×512, safe zone on a solid background)\n- safari-pinned-tab.svg (monochrome)\n- ${generator.getManifestFilename()} (PWA manifest)${generatorOptions.tiles ? '\n- mstile-*.png, browserconfig.xml (Windows tiles)' : ''}${generatorOptions.splash ? `\n- splash/ (${SPLASH_SCREEN_CONFIGS.length} iOS launch images)` : ''}${generatorOptions.og ? '\n- og-image.png, twitter-image.png (social sharing images)' : ''}`;
     }
 
     return {
       content: [
         {
           type: 'text',
-          text: `✨ Successfully generated web icons!\n\n${frameworkInfo}\nOutput: ${outputDirRelative}/\n\nGenerated files:\n${filesList}\n- Integration guide: ${instructionsFile}\n\n📝 ${actualMode === 'nextjs' ? 'Next.js Integration:' : 'Add these tags to your HTML <head>:'}\n\n${htmlSnippet}\n\n🤖 AI Assistant Prompt:\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${aiPrompt}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
+          text: `✨ Successfully generated web icons!\n\n${frameworkInfo}\nOutput: ${outputDirRelative}/\n\nGenerated files:\n${filesList}\n- Integration guide: ${instructionsFile}\n${formatPreviews(generator, projectPath)}${formatAssetHashing(generator, projectPath)}${formatWarnings(generator.getWarnings())}\n📝 ${actualMode === 'nextjs' ? 'Next.js Integration:' : 'Add these tags to your HTML <head>:'}\n\n${htmlSnippet}\n\n🤖 AI Assistant Prompt:\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${aiPrompt}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
         },
       ],
     };
@@ -285,48 +706,39 @@ async function handleAutoGenerateIcons(args: unknown) {
     const parsed = AutoGenerateIconsSchema.parse(args);
     const projectPath = path.resolve(parsed.projectPath);
 
-    // Find app-icon
-    const appIconPath = await findAppIcon(projectPath);
-    if (!appIconPath) {
-      throw new Error('No app-icon.svg or app-icon.png found in project directory. Please create one first.');
+    // Monorepo root: generate for each app instead
+    const workspaces = await findWorkspaceTargets(projectPath, parsed);
+    if (workspaces) {
+      return handleAutoGenerateWorkspaces(parsed, projectPath, workspaces);
     }
 
-    // Detect framework and determine output directory
-    const detector = new FrameworkDetector(projectPath);
-    const framework = await detector.detect();
-    const hasAppRouter = await detector.hasAppRouter();
-
-    let mode = parsed.mode || 'auto';
-    let outputDir: string;
+    // Project config fills in anything not passed explicitly
+    const { config } = await loadProjectConfig(projectPath);
 
-    // Auto-detect output directory based on mode and framework
-    if (mode === 'auto' && hasAppRouter && framework?.name === 'Next.js') {
-      mode = 'nextjs';
-    } else if (mode === 'auto') {
-      mode = 'traditional';
+    // Find app-icon (a configured source takes precedence)
+    const appIconPath = config.source ? path.resolve(projectPath, config.source) : await findAppIcon(projectPath);
+    if (!appIconPath) {
+      throw new Error('No app-icon.svg or app-icon.png found in project directory. Please create one first.');
     }
+    await validateSourceFile(appIconPath);
 
-    // Set output directory based on mode
-    if (mode === 'nextjs' && hasAppRouter) {
-      outputDir = await detector.getAppDir() || await detector.getPublicDir();
-    } else {
-      outputDir = await detector.getPublicDir();
-    }
+    // Same output directory, mode and config merging as generate_web_icons
+    const { generatorOptions, framework } = await resolveGeneratorOptions(parsed, config, projectPath, appIconPath);
+    const outputDir = generatorOptions.outputDir;
+    const generator = new IconGenerator(generatorOptions);
 
-    // Generate icons
-    const generator = new IconGenerator({
-      sourcePath: appIconPath,
-      outputDir,
-      projectRoot: projectPath,
-      color: parsed.color,
-      mode: mode as 'traditional' | 'nextjs' | 'auto',
-    });
+    if (parsed.dryRun) {
+      return formatPlanResponse(await generator.plan(), generator, projectPath);
+    }
 
     await generator.generate();
+    if (generator.getTarget() !== 'web') {
+      return formatNativeResponse(generator, framework, projectPath, outputDir);
+    }
     const actualMode = generator.getMode();
 
     const frameworkInfo = framework
-      ? `Detected ${framework.name} → using ${actualMode === 'nextjs' ? 'app' : framework.publicDir}/ directory (${actualMode} mode)`
+      ? `Detected ${framework.name} (${framework.confidence} confidence) → using ${path.relative(projectPath, outputDir) || '.'}/ directory (${actualMode} mode)`
       : `No framework detected → using public/ directory (${actualMode} mode)`;
 
     const outputDirRelative = path.relative(projectPath, outputDir);
@@ -337,18 +749,18 @@ async function handleAutoGenerateIcons(args: unknown) {
     let filesList: string;
 
     if (actualMode === 'nextjs') {
-      htmlSnippet = `Next.js App Router Mode - Icons are automatically linked!\n\nNo manual <link> tags needed!`;
-      filesList = '- favicon.ico, icon.png, apple-icon.png, apple-touch-icon.png';
+      htmlSnippet = `Next.js App Router Mode - Icons are automatically linked!\n\nNo manual <link> tags needed!\n\n${generator.getNextjsGuide()}`;
+      filesList = `- favicon.ico, icon.png, apple-icon.png, apple-touch-icon.png${generatorOptions.og ? '\n- opengraph-image.png, twitter-image.png (auto-linked social images)' : ''}\n- ${generator.getManifestFilename()} (PWA manifest route)\n- public/icon-192.png, icon-512.png, icon-maskable.png (manifest icons)`;
     } else {
-      htmlSnippet = `<!-- Favicon (modern + fallback) -->\n<link rel="icon" href="/icon.svg" type="image/svg+xml">\n<link rel="icon" href="/favicon.ico" sizes="any">\n\n<!-- Apple Touch Icon -->\n<link rel="apple-touch-icon" href="/apple-touch-icon.png">\n\n<!-- Web App Manifest (PWA) -->\n<link rel="manifest" href="/site.webmanifest">\n\n<!-- Safari Pinned Tab -->\n<link rel="mask-icon" href="/safari-pinned-tab.svg" color="${parsed.color || '#5bbad5'}">`;
-      filesList = '- 8 icon files (favicon, PWA icons, Apple touch icon, maskable icon)\n- site.webmanifest (PWA manifest)';
+      htmlSnippet = generator.getHTMLSnippet();
+      filesList = `- 8 icon files (favicon, PWA icons, Apple touch icon, maskable icon)\n- ${generator.getManifestFilename()} (PWA manifest)${generatorOptions.tiles ? '\n- mstile-*.png, browserconfig.xml (Windows tiles)' : ''}${generatorOptions.splash ? `\n- splash/ (${SPLASH_SCREEN_CONFIGS.length} iOS launch images)` : ''}${generatorOptions.og ? '\n- og-image.png, twitter-image.png (social sharing images)' : ''}`;
     }
 
     return {
       content: [
         {
           type: 'text',
-          text: `✨ Successfully generated web icons!\n\nFound: ${path.basename(appIconPath)}\n${frameworkInfo}\nOutput: ${outputDirRelative}/\n\nGenerated files:\n${filesList}\n- Integration guide: ${instructionsFile}\n\n📝 ${actualMode === 'nextjs' ? 'Next.js Integration:' : 'Add these tags to your HTML <head>:'}\n\n${htmlSnippet}\n\n🤖 AI Assistant Prompt:\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${aiPrompt}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
+          text: `✨ Successfully generated web icons!\n\nFound: ${path.basename(appIconPath)}\n${frameworkInfo}\nOutput: ${outputDirRelative}/\n\nGenerated files:\n${filesList}\n- Integration guide: ${instructionsFile}\n${formatPreviews(generator, projectPath)}${formatAssetHashing(generator, projectPath)}${formatWarnings(generator.getWarnings())}\n📝 ${actualMode === 'nextjs' ? 'Next.js Integration:' : 'Add these tags to your HTML <head>:'}\n\n${htmlSnippet}\n\n🤖 AI Assistant Prompt:\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${aiPrompt}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
         },
       ],
     };
@@ -358,6 +770,11 @@ async function handleCheckIconsStatus(args: unknown) {
     const parsed = CheckIconsStatusSchema.parse(args);
     const projectPath = path.resolve(parsed.projectPath);
 
+    const workspaces = await findWorkspaceTargets(projectPath, parsed);
+    if (workspaces) {
+      return handleCheckWorkspacesStatus(projectPath, workspaces);
+    }
+
     // Detect framework to know where to look
     const detector = new FrameworkDetector(projectPath);
     const framework = await detector.detect();
@@ -367,17 +784,7 @@ async function handleCheckIconsStatus(args: unknown) {
     const appIcon = await findAppIcon(projectPath);
 
     // Check which required icons exist
-    const iconStatus = await Promise.all(
-      REQUIRED_ICONS.map(async (icon) => {
-        const iconPath = path.join(publicDir, icon);
-        try {
-          await fs.access(iconPath);
-          return { name: icon, exists: true, path: iconPath };
-        } catch {
-          return { name: icon, exists: false, path: iconPath };
-        }
-      })
-    );
+    const iconStatus = await getRequiredIconStatus(publicDir);
 
     const existing = iconStatus.filter(i => i.exists);
     const missing = iconStatus.filter(i => !i.exists);
@@ -385,7 +792,7 @@ async function handleCheckIconsStatus(args: unknown) {
     let statusText = `📊 Icon Status for ${projectPath}\n\n`;
 
     if (framework) {
-      statusText += `Framework: ${framework.name}\n`;
+      statusText += `Framework: ${framework.name} (${framework.confidence} confidence: ${framework.evidence.join(', ')})\n`;
     }
     statusText += `Icon directory: ${path.relative(projectPath, publicDir)}/\n\n`;
 
@@ -429,18 +836,67 @@ async function handleCheckIconsStatus(args: unknown) {
     };
 }
 
+async function handleCheckIconsUpToDate(args: unknown) {
+    const parsed = CheckIconsUpToDateSchema.parse(args);
+    const projectPath = path.resolve(parsed.projectPath || process.cwd());
+
+    const { config } = await loadProjectConfig(projectPath);
+    const sourceArg = parsed.sourcePath || config.source || await findAppIcon(projectPath);
+    if (!sourceArg) {
+      throw new Error('No sourcePath provided, no "source" set in the project config, and no app-icon.svg or app-icon.png found.');
+    }
+    const sourcePath = path.resolve(projectPath, sourceArg);
+    await validateSourceFile(sourcePath);
+
+    const { generatorOptions } = await resolveGeneratorOptions(parsed, config, projectPath, sourcePath);
+    const result = await new IconGenerator(generatorOptions).check();
+    const stampFile = path.relative(projectPath, result.stampPath);
+
+    if (result.upToDate) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Icons are up to date with ${path.relative(projectPath, sourcePath)} (${stampFile})`,
+          },
+        ],
+      };
+    }
+
+    const reasons: string[] = [];
+    if (!result.stampFound) {
+      reasons.push(`No generation stamp at ${stampFile}; icons were never generated here or predate stamps`);
+    }
+    if (result.sourceChanged) {
+      reasons.push('Source image changed since the icons were generated');
+    }
+    if (result.optionsChanged) {
+      reasons.push('Options or config changed since the icons were generated');
+    }
+    reasons.push(...result.missingFiles.map(file => `Missing: ${file}`));
+    reasons.push(...result.modifiedFiles.map(file => `Modified: ${file}`));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Icons are out of date:\n${reasons.map(reason => `- ${reason}`).join('\n')}\n\n💡 Run generate_web_icons or auto_generate_icons with the same options to regenerate them.`,
+        },
+      ],
+    };
+}
+
 async function handleIntegrateIconsHTML(args: unknown) {
     const parsed = IntegrateIconsHTMLSchema.parse(args);
     const projectPath = path.resolve(parsed.projectPath);
-    const color = parsed.color || '#5bbad5';
 
-    // Determine HTML file to update
+    // Determine the file that owns the document head
     let htmlFile: string;
     if (parsed.htmlPath) {
       htmlFile = path.resolve(projectPath, parsed.htmlPath);
     } else {
-      // Auto-detect HTML file
-      htmlFile = await findHTMLEntryPoint(projectPath);
+      // Auto-detect the framework's head file or an HTML entry point
+      htmlFile = await findIntegrationFile(projectPath);
     }
 
     // Check if file exists
@@ -450,95 +906,293 @@ async function handleIntegrateIconsHTML(args: unknown) {
       throw new Error(`HTML file not found: ${htmlFile}`);
     }
 
-    // Read current HTML content
+    // Read current content
     const htmlContent = await fs.readFile(htmlFile, 'utf-8');
+    const fileRelative = path.relative(projectPath, htmlFile);
+
+    // The tags follow the icon set these options generate, under the names the last run
+    // wrote; nothing is rendered. Without a source they follow the files already there
+    const { config } = await loadProjectConfig(projectPath);
+    const sourceArg = parsed.sourcePath || config.source || await findAppIcon(projectPath);
+    const sourcePath = sourceArg ? path.resolve(projectPath, sourceArg) : '';
+    if (sourcePath) {
+      await validateSourceFile(sourcePath);
+    }
 
-    // Generate icon tags
-    const iconTags = `<!-- Favicon (modern + fallback) -->
-<link rel="icon" href="/icon.svg" type="image/svg+xml">
-<link rel="icon" href="/favicon.ico" sizes="any">
-
-<!-- Apple Touch Icon -->
-<link rel="apple-touch-icon" href="/apple-touch-icon.png">
-
-<!-- Web App Manifest (PWA) -->
-<link rel="manifest" href="/site.webmanifest">
-
-<!-- Safari Pinned Tab -->
-<link rel="mask-icon" href="/safari-pinned-tab.svg" color="${color}">`;
+    const { generatorOptions } = await resolveGeneratorOptions({ ...parsed, target: 'web' }, config, projectPath, sourcePath);
+    // Windows tile tags also when tiles were generated without asking for them here
+    if (!generatorOptions.tiles) {
+      const tileColor = await readTileColor(path.join(generatorOptions.outputDir, 'browserconfig.xml'));
+      if (tileColor) {
+        generatorOptions.tiles = { color: tileColor };
+      }
+    }
 
-    // Check if icon tags already exist
-    if (htmlContent.includes('apple-touch-icon') || htmlContent.includes('site.webmanifest')) {
+    const generator = new IconGenerator(generatorOptions);
+    if (generator.getMode() === 'nextjs') {
       return {
         content: [
           {
             type: 'text',
-            text: `\u26a0\ufe0f Icon tags appear to already exist in ${path.relative(projectPath, htmlFile)}\\n\\nIf you want to update them, please remove the existing icon link tags first, then run this tool again.\\n\\n\ud83d\udcdd Icon tags to add:\\n\\n${iconTags}`,
+            text: `\u2705 Nothing to add to ${fileRelative}: Next.js links the icons in ${path.relative(projectPath, generatorOptions.outputDir)}/ and the manifest route itself`,
           },
         ],
       };
     }
+    if (!sourcePath && !(await getRequiredIconStatus(generatorOptions.outputDir)).some(icon => icon.exists)) {
+      throw new Error(`No source image and no icons in ${path.relative(projectPath, generatorOptions.outputDir) || '.'}: generate the icons first, or pass sourcePath.`);
+    }
+    const groups = await generator.readHeadTags();
 
-    // Insert icon tags into <head>
-    let updatedHTML = '';
-    const headMatch = htmlContent.match(/(<head[^>]*>)/i);
-
-    if (headMatch) {
-      const headEndIndex = headMatch.index! + headMatch[0].length;
-      updatedHTML =
-        htmlContent.slice(0, headEndIndex) +
-        '\\n  ' + iconTags.split('\\n').join('\\n  ') + '\\n' +
-        htmlContent.slice(headEndIndex);
-
-      // Write updated HTML
-      await fs.writeFile(htmlFile, updatedHTML);
+    const result = integrateHeadTags(htmlContent, htmlFile, groups);
+    const where = INTEGRATION_TARGETS[result.kind];
 
+    if (result.updated === null) {
       return {
         content: [
           {
             type: 'text',
-            text: `\u2705 Successfully added icon tags to ${path.relative(projectPath, htmlFile)}\\n\\nAdded tags:\\n${iconTags.split('\\n').map(line => '  ' + line).join('\\n')}\\n\\n\ud83d\udca1 Make sure your icon files exist in the public directory. Use generate_web_icons or auto_generate_icons to create them.`,
+            text: `\u26a0\ufe0f Could not update ${fileRelative}: ${result.error}\n\nPlease add the icon tags manually (${where}):\n\n${result.snippet}`,
           },
         ],
       };
-    } else {
+    }
+
+    if (result.updated === htmlContent) {
       return {
         content: [
           {
             type: 'text',
-            text: `\u26a0\ufe0f Could not find <head> tag in ${path.relative(projectPath, htmlFile)}\\n\\nPlease add these tags manually to your HTML <head>:\\n\\n${iconTags}`,
+            text: `\u2705 Icon tags in ${fileRelative} are already up to date (${where})`,
           },
         ],
       };
     }
+
+    // Write updated file
+    await fs.writeFile(htmlFile, result.updated);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `\u2705 Updated icon tags in ${fileRelative} (${where}):\n\n\`\`\`diff\n${formatUnifiedDiff(fileRelative, htmlContent, result.updated)}\n\`\`\`\n\n\ud83d\udca1 The tags are kept between web-icons:start and web-icons:end markers; run this tool again to update them in place. Make sure your icon files exist in the public directory. Use generate_web_icons or auto_generate_icons to create them.`,
+        },
+      ],
+    };
+}
+
+// Which REQUIRED_ICONS exist in the directory
+async function getRequiredIconStatus(publicDir: string): Promise<{ name: string; exists: boolean; path: string }[]> {
+  return Promise.all(
+    REQUIRED_ICONS.map(async (icon) => {
+      // Any recognised manifest filename satisfies the manifest requirement
+      if (icon === 'site.webmanifest') {
+        const manifestFile = await findExistingManifest(publicDir);
+        if (manifestFile) {
+          return { name: manifestFile, exists: true, path: path.join(publicDir, manifestFile) };
+        }
+      }
+
+      const iconPath = path.join(publicDir, icon);
+      try {
+        await fs.access(iconPath);
+        return { name: icon, exists: true, path: iconPath };
+      } catch {
+        return { name: icon, exists: false, path: iconPath };
+      }
+    })
+  );
+}
+
+// At a monorepo root, the selected workspaces (null for a single project)
+async function findWorkspaceTargets(projectPath: string, parsed: { apps?: string[]; workspaces?: boolean }): Promise<Workspace[] | null> {
+  if (parsed.workspaces === false) {
+    return null;
+  }
+
+  const workspaces = await findWorkspaces(projectPath);
+  if (workspaces.length === 0) {
+    if (parsed.apps?.length) {
+      throw new Error('apps can only be used at the root of a monorepo (pnpm-workspace.yaml, package.json "workspaces", turbo.json or nx.json).');
+    }
+    return null;
+  }
+
+  const selected = selectWorkspaces(workspaces, parsed.apps);
+  return selected.length > 0 ? selected : null;
 }
 
-// Helper function to find HTML entry point
-async function findHTMLEntryPoint(projectPath: string): Promise<string> {
-  // Common HTML entry point locations
-  const candidates = [
-    'index.html',
-    'public/index.html',
-    'src/index.html',
-    'app/index.html',
-    'src/app/layout.tsx', // Next.js App Router
-    'src/routes/+layout.svelte', // SvelteKit
-    'src/pages/_document.tsx', // Next.js Pages Router
-    'app/root.tsx', // Remix
-  ];
-
-  for (const candidate of candidates) {
-    const candidatePath = path.join(projectPath, candidate);
+// Source for a workspace app: its own config or app-icon, else the shared root one
+async function findWorkspaceSource(workspace: Workspace, config: WebIconsConfig, sharedSource: string | null): Promise<string | null> {
+  if (config.source) {
+    return path.resolve(workspace.dir, config.source);
+  }
+  return await findAppIcon(workspace.dir) || sharedSource;
+}
+
+async function findSharedSource(projectPath: string): Promise<string | null> {
+  const { config } = await loadProjectConfig(projectPath);
+  return config.source ? path.resolve(projectPath, config.source) : findAppIcon(projectPath);
+}
+
+async function handleAutoGenerateWorkspaces(
+  parsed: z.infer<typeof AutoGenerateIconsSchema>,
+  projectPath: string,
+  workspaces: Workspace[]
+) {
+  const sharedSource = await findSharedSource(projectPath);
+  const rows: string[][] = [];
+  const warnings: string[] = [];
+  let failed = 0;
+
+  // One app at a time keeps memory bounded; a failing app doesn't stop the others
+  for (const workspace of workspaces) {
     try {
-      await fs.access(candidatePath);
-      return candidatePath;
-    } catch {
-      // Continue to next candidate
+      const { config } = await loadProjectConfig(workspace.dir);
+      const sourcePath = await findWorkspaceSource(workspace, config, sharedSource);
+      if (!sourcePath) {
+        throw new Error('no app-icon.svg or app-icon.png in the app or the monorepo root');
+      }
+      await validateSourceFile(sourcePath);
+
+      const { generatorOptions, framework } = await resolveGeneratorOptions(parsed, config, workspace.dir, sourcePath);
+      const generator = new IconGenerator(generatorOptions);
+
+      let files: number;
+      if (parsed.dryRun) {
+        files = (await generator.plan()).filter(file => file.changed).length;
+      } else {
+        await generator.generate();
+        files = generator.getWrittenFiles().length;
+      }
+
+      warnings.push(...generator.getWarnings().map(warning => `${workspace.name}: ${warning}`));
+      rows.push([
+        workspace.name,
+        framework?.name || '-',
+        generator.getTarget() === 'web' ? generator.getMode() : generator.getTarget(),
+        path.relative(projectPath, sourcePath),
+        path.relative(projectPath, generatorOptions.outputDir),
+        String(files),
+        'ok',
+      ]);
+    } catch (error) {
+      failed++;
+      rows.push([workspace.name, workspace.framework?.name || '-', '-', '-', '-', '-', `error: ${error instanceof Error ? error.message : String(error)}`]);
     }
   }
 
-  // Default to index.html in project root
-  return path.join(projectPath, 'index.html');
+  const table = formatTable(['App', 'Framework', 'Mode', 'Source', 'Output', parsed.dryRun ? 'Changes' : 'Files', 'Status'], rows);
+  const heading = parsed.dryRun
+    ? `📋 Dry run for ${workspaces.length} app(s) – no files were written`
+    : failed === 0
+      ? `✨ Successfully generated web icons for ${workspaces.length} app(s)!`
+      : `⚠️ Generated web icons for ${workspaces.length - failed} of ${workspaces.length} app(s)`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${heading}\n\n${table}\n${formatWarnings(warnings)}\nEach app has its own icon-integration-guide.txt with the tags to add.`,
+      },
+    ],
+    ...(failed > 0 ? { isError: true } : {}),
+  };
+}
+
+async function handleCheckWorkspacesStatus(projectPath: string, workspaces: Workspace[]) {
+  const sharedSource = await findSharedSource(projectPath);
+
+  const rows = await Promise.all(workspaces.map(async (workspace) => {
+    const { config } = await loadProjectConfig(workspace.dir);
+    const sourcePath = await findWorkspaceSource(workspace, config, sharedSource);
+    const publicDir = await new FrameworkDetector(workspace.dir).getPublicDir();
+    const iconStatus = await getRequiredIconStatus(publicDir);
+    const missing = iconStatus.filter(icon => !icon.exists).map(icon => icon.name);
+
+    return [
+      workspace.name,
+      workspace.framework ? `${workspace.framework.name} (${workspace.framework.confidence})` : '-',
+      path.relative(projectPath, publicDir),
+      sourcePath ? path.relative(projectPath, sourcePath) : 'none',
+      `${iconStatus.length - missing.length}/${iconStatus.length}`,
+      missing.join(', ') || '-',
+    ];
+  }));
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `📊 Icon Status for ${workspaces.length} app(s) in ${projectPath}\n\n${formatTable(['App', 'Framework', 'Icon directory', 'Source', 'Icons', 'Missing'], rows)}\n\n💡 Tip: Run auto_generate_icons on the monorepo root to create missing icons for every app`,
+      },
+    ],
+  };
+}
+
+function formatPlanResponse(plan: PlannedFile[], generator: IconGenerator, projectPath: string) {
+  const labels = { create: '+ create   ', overwrite: '~ overwrite', unchanged: '= unchanged', delete: '- delete   ' };
+  const lines = plan.map(file =>
+    `${labels[file.action]} ${path.relative(projectPath, file.path)}${file.dimensions ? ` (${file.dimensions})` : ''}`
+  );
+  const count = (action: PlannedFile['action']) => plan.filter(file => file.action === action).length;
+  const deletions = count('delete') ? `, ${count('delete')} to delete` : '';
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `📋 Dry run (${generator.getTarget() === 'web' ? `${generator.getMode()} mode` : `${generator.getTarget()} target`}) – no files were written\n\n${lines.join('\n')}\n\n${count('create')} to create, ${count('overwrite')} to overwrite, ${count('unchanged')} unchanged${deletions}\n${formatWarnings(generator.getWarnings())}\nRun again without dryRun to apply these changes.`,
+      },
+    ],
+  };
+}
+
+function formatNativeResponse(generator: IconGenerator, framework: DetectedFramework | null, projectPath: string, outputDir: string) {
+  const outputDirRelative = path.relative(projectPath, outputDir) || '.';
+  const instructionsFile = path.relative(projectPath, generator.getInstructionsFilePath());
+  const filesList = generator.getNativeFileList().map(file => `- ${file}`).join('\n');
+  const aiPrompt = generator.generateAIPrompt(framework?.name || null, outputDirRelative);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `✨ Successfully generated ${generator.getTarget()} app icons!\n\nOutput: ${outputDirRelative}/\n\nGenerated files:\n${filesList}\n\n📝 Integration:\n\n${generator.getHTMLSnippet()}\n\n🤖 AI Assistant Prompt:\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${aiPrompt}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
+      },
+    ],
+  };
+}
+
+// The asset map and any stale fingerprinted files that were deleted (hash option)
+function formatAssetHashing(generator: IconGenerator, projectPath: string): string {
+  const assetMap = generator.getAssetMapPath();
+  const removed = generator.getRemovedFiles();
+  return (assetMap ? `- Asset map: ${path.relative(projectPath, assetMap)} (content-hashed filenames)\n` : '')
+    + (removed.length > 0 ? `\n🧹 Removed stale fingerprinted files: ${removed.map(file => path.relative(projectPath, file)).join(', ')}\n` : '');
+}
+
+// The preview page and maskable preview sheet, when requested
+function formatPreviews(generator: IconGenerator, projectPath: string): string {
+  const preview = generator.getPreviewPath();
+  const maskablePreview = generator.getMaskablePreviewPath();
+  return (preview ? `- Icon preview: ${path.relative(projectPath, preview)} (self-contained page with every image in context; open it in a browser)\n` : '')
+    + (maskablePreview ? `- Maskable icon preview: ${path.relative(projectPath, maskablePreview)} (check that no launcher mask cuts off the artwork)\n` : '');
+}
+
+function formatWarnings(warnings: string[]): string {
+  return warnings.length > 0 ? `\n⚠️ Warnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}\n` : '';
+}
+
+// TileColor from an existing browserconfig.xml
+async function readTileColor(browserConfigPath: string): Promise<string | null> {
+  try {
+    const match = /<TileColor>\s*([^<\s]+)\s*<\/TileColor>/i.exec(await fs.readFile(browserConfigPath, 'utf-8'));
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
 }
 
 // Start the server
@@ -0,0 +1,533 @@
+import sharp from 'sharp';
+import { parseSvg, getRootSvg, serializeSvg, localName, textContent, walkSvg, type SvgElement, type SvgNode } from './svg.js';
+
+// Elements that paint with fill/stroke
+const SHAPE_ELEMENTS = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan', 'textPath', 'use']);
+
+// Elements that cannot be represented in a single-color icon
+const REMOVED_ELEMENTS = new Set(['style', 'script', 'linearGradient', 'radialGradient', 'pattern', 'filter', 'image', 'foreignObject']);
+
+// Subtrees whose paint is geometry or luminance data, not visible color
+const PRESERVED_PAINT_ELEMENTS = new Set(['clipPath', 'mask']);
+
+const PAINT_PROPERTIES = ['fill', 'stroke', 'color', 'opacity', 'fill-opacity', 'stroke-opacity', 'stop-color', 'stop-opacity', 'filter'];
+
+interface PaintState {
+  fill: string;
+  stroke: string;
+  fillOpacity: number;
+  strokeOpacity: number;
+}
+
+interface CSSRule {
+  selector: string;
+  specificity: number;
+  order: number;
+  declarations: Record<string, string>;
+}
+
+/**
+ * Convert an SVG to a single color, as required for Safari pinned tabs.
+ *
+ * Styles from <style> blocks, style attributes and presentation attributes are
+ * resolved per element, then every visible fill/stroke is set to `color`.
+ * Unpainted and fully transparent regions stay unpainted, gradients are
+ * flattened to the solid color, and opacity is removed.
+ */
+export function convertSvgToMonochrome(source: string, color: string): string {
+  const document = parseSvg(source);
+  const root = getRootSvg(document);
+  const rules = collectCSSRules(root);
+
+  applyStyles(root, rules);
+  recolor(root, color, { fill: 'black', stroke: 'none', fillOpacity: 1, strokeOpacity: 1 }, 1);
+
+  return serializeSvg(document);
+}
+
+function collectCSSRules(root: SvgElement): CSSRule[] {
+  const rules: CSSRule[] = [];
+  walkSvg(root, (element) => {
+    if (localName(element.name) === 'style') {
+      rules.push(...parseCSS(textContent(element), rules.length));
+    }
+  });
+  // Cascade order: lower specificity first, then source order
+  return rules.sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+}
+
+function parseCSS(css: string, orderOffset: number): CSSRule[] {
+  const rules: CSSRule[] = [];
+  const stripped = stripAtRules(css.replace(/\/\*[\s\S]*?\*\//g, ''));
+  const rulePattern = /([^{}]+)\{([^{}]*)\}/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = rulePattern.exec(stripped))) {
+    const declarations = parseDeclarations(match[2]);
+    for (const selector of match[1].split(',').map(part => part.trim()).filter(Boolean)) {
+      rules.push({ selector, specificity: specificity(selector), order: orderOffset + rules.length, declarations });
+    }
+  }
+  return rules;
+}
+
+// Drop @media/@font-face/... blocks; conditional styles cannot be flattened to one color
+function stripAtRules(css: string): string {
+  let result = '';
+  let index = 0;
+  while (index < css.length) {
+    const at = css.indexOf('@', index);
+    if (at === -1) {
+      result += css.slice(index);
+      break;
+    }
+    result += css.slice(index, at);
+
+    const semicolon = css.indexOf(';', at);
+    const brace = css.indexOf('{', at);
+    if (brace === -1 || (semicolon !== -1 && semicolon < brace)) {
+      index = semicolon === -1 ? css.length : semicolon + 1;
+      continue;
+    }
+
+    let depth = 0;
+    let cursor = brace;
+    for (; cursor < css.length; cursor++) {
+      if (css[cursor] === '{') depth++;
+      else if (css[cursor] === '}' && --depth === 0) break;
+    }
+    index = cursor + 1;
+  }
+  return result;
+}
+
+function parseDeclarations(text: string): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  for (const part of text.split(';')) {
+    const colon = part.indexOf(':');
+    if (colon === -1) continue;
+    const property = part.slice(0, colon).trim().toLowerCase();
+    const value = part.slice(colon + 1).replace(/!important/i, '').trim();
+    if (property && value) {
+      declarations[property] = value;
+    }
+  }
+  return declarations;
+}
+
+function serializeDeclarations(declarations: Record<string, string>): string {
+  return Object.entries(declarations).map(([property, value]) => `${property}:${value}`).join(';');
+}
+
+function specificity(selector: string): number {
+  const last = lastCompound(selector);
+  const ids = (last.match(/#[\w-]+/g) || []).length;
+  const classes = (last.match(/\.[\w-]+/g) || []).length;
+  const types = /^[a-zA-Z]/.test(last) ? 1 : 0;
+  return ids * 10000 + classes * 100 + types;
+}
+
+// Only the rightmost compound selector is matched; ancestors are not checked
+function lastCompound(selector: string): string {
+  const parts = selector.split(/\s*[\s>+~]\s*/).filter(Boolean);
+  return parts[parts.length - 1] || '';
+}
+
+function matchesSelector(element: SvgElement, selector: string): boolean {
+  const compound = lastCompound(selector);
+  if (!compound || /[[:]/.test(compound)) {
+    return false; // Attribute and pseudo selectors are not supported
+  }
+
+  const match = /^([a-zA-Z][\w-]*|\*)?((?:[.#][\w-]+)*)$/.exec(compound);
+  if (!match) {
+    return false;
+  }
+
+  const [, type, qualifiers] = match;
+  if (type && type !== '*' && localName(element.name) !== type) {
+    return false;
+  }
+
+  const classes = (element.attributes.class || '').split(/\s+/);
+  for (const qualifier of qualifiers.match(/[.#][\w-]+/g) || []) {
+    if (qualifier[0] === '#' && element.attributes.id !== qualifier.slice(1)) return false;
+    if (qualifier[0] === '.' && !classes.includes(qualifier.slice(1))) return false;
+  }
+  return true;
+}
+
+/**
+ * Inline the cascade (presentation attribute < <style> rules < style attribute)
+ * into each element's style attribute so <style> blocks can be dropped.
+ */
+function applyStyles(root: SvgElement, rules: CSSRule[]): void {
+  walkSvg(root, (element) => {
+    const matched: Record<string, string> = {};
+    for (const rule of rules) {
+      if (matchesSelector(element, rule.selector)) {
+        Object.assign(matched, rule.declarations);
+      }
+    }
+
+    const declarations = { ...matched, ...parseDeclarations(element.attributes.style || '') };
+    if (Object.keys(declarations).length > 0) {
+      element.attributes.style = serializeDeclarations(declarations);
+    }
+  });
+}
+
+function property(element: SvgElement, name: string): string | undefined {
+  const style = parseDeclarations(element.attributes.style || '');
+  return style[name] ?? element.attributes[name];
+}
+
+function recolor(element: SvgElement, color: string, inherited: PaintState, opacity: number): void {
+  const name = localName(element.name);
+
+  const fill = resolveValue(property(element, 'fill'), inherited.fill);
+  const stroke = resolveValue(property(element, 'stroke'), inherited.stroke);
+  const state: PaintState = {
+    fill,
+    stroke,
+    fillOpacity: resolveNumber(property(element, 'fill-opacity'), inherited.fillOpacity),
+    strokeOpacity: resolveNumber(property(element, 'stroke-opacity'), inherited.strokeOpacity),
+  };
+  const elementOpacity = opacity * resolveNumber(property(element, 'opacity'), 1);
+
+  stripPaint(element);
+
+  if (SHAPE_ELEMENTS.has(name)) {
+    element.attributes.fill = isVisiblePaint(state.fill, state.fillOpacity * elementOpacity) ? color : 'none';
+    element.attributes.stroke = isVisiblePaint(state.stroke, state.strokeOpacity * elementOpacity) ? color : 'none';
+  }
+
+  element.children = element.children.filter((child: SvgNode) => {
+    if (child.type !== 'element') return true;
+    const childName = localName(child.name);
+    if (REMOVED_ELEMENTS.has(childName)) return false;
+    if (property(child, 'display') === 'none') return false;
+    return true;
+  });
+
+  for (const child of element.children) {
+    if (child.type !== 'element') continue;
+    if (PRESERVED_PAINT_ELEMENTS.has(localName(child.name))) {
+      // Clip paths and masks keep their paint, only unsupported children are dropped
+      walkSvg(child, (descendant) => {
+        descendant.children = descendant.children.filter(
+          node => node.type !== 'element' || !REMOVED_ELEMENTS.has(localName(node.name))
+        );
+      });
+      continue;
+    }
+    recolor(child, color, state, elementOpacity);
+  }
+}
+
+// Remove color, opacity and filter properties; explicit fill/stroke are re-added for shapes
+function stripPaint(element: SvgElement): void {
+  for (const name of PAINT_PROPERTIES) {
+    delete element.attributes[name];
+  }
+
+  if (element.attributes.style !== undefined) {
+    const declarations = parseDeclarations(element.attributes.style);
+    for (const name of PAINT_PROPERTIES) {
+      delete declarations[name];
+    }
+    const style = serializeDeclarations(declarations);
+    if (style) {
+      element.attributes.style = style;
+    } else {
+      delete element.attributes.style;
+    }
+  }
+}
+
+function resolveValue(value: string | undefined, inherited: string): string {
+  if (value === undefined || value === 'inherit') {
+    return inherited;
+  }
+  return value.trim();
+}
+
+function resolveNumber(value: string | undefined, inherited: number): number {
+  if (value === undefined || value === 'inherit') {
+    return inherited;
+  }
+  const number = value.trim().endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+  return Number.isNaN(number) ? inherited : number;
+}
+
+function isVisiblePaint(paint: string, opacity: number): boolean {
+  if (opacity <= 0) return false;
+
+  const value = paint.toLowerCase();
+  if (value === 'none' || value === 'transparent') return false;
+
+  // Gradients and patterns are flattened to the solid color
+  if (value.startsWith('url(')) return true;
+
+  return colorAlpha(value) > 0;
+}
+
+function colorAlpha(color: string): number {
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 4) return parseInt(digits[3] + digits[3], 16) / 255;
+    if (digits.length === 8) return parseInt(digits.slice(6), 16) / 255;
+    return 1;
+  }
+
+  const functional = /^(?:rgba?|hsla?)\((.*)\)$/.exec(color);
+  if (functional) {
+    const parts = functional[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length === 4) {
+      return resolveNumber(parts[3], 1);
+    }
+  }
+
+  return 1;
+}
+
+export interface TraceOptions {
+  resolution?: number; // Tracing grid size in pixels (default: 256)
+  threshold?: number; // 0–255 luminance cutoff (default: automatic)
+}
+
+// How clear the automatic split must be before transparent images get holes: the share of the
+// luminance variance it explains (a linear gradient explains 0.75) and the gap between the class means
+const MIN_SEPARABILITY = 0.85;
+const MIN_CONTRAST = 64;
+
+/**
+ * Trace a raster image into a single-color SVG path.
+ *
+ * Pixels are split by a luminance threshold (Otsu's method unless one is
+ * given). In opaque images the class of the border pixels is the
+ * background. In images with transparency the transparent pixels are the
+ * background and the class along the shape's outline is the shape, so
+ * detail inside it (a glyph on a badge) comes out as holes; when the
+ * automatic split is weak (gradients, one color) the alpha outline is used.
+ */
+export async function traceRasterToSvg(source: string | Buffer, color: string, options: TraceOptions = {}): Promise<string> {
+  const size = options.resolution || 256;
+  const { data } = await sharp(source)
+    .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const mask = createMask(data, size, options.threshold);
+  const path = traceMask(mask, size);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}"><path fill="${color}" fill-rule="evenodd" d="${path}"/></svg>\n`;
+}
+
+function createMask(rgba: Buffer, size: number, threshold?: number): Uint8Array {
+  const pixels = size * size;
+  const mask = new Uint8Array(pixels);
+
+  // Letterboxing from fit: 'contain' is transparent, so only count the image area
+  let transparent = 0;
+  let opaque = 0;
+  for (let i = 0; i < pixels; i++) {
+    const alpha = rgba[i * 4 + 3];
+    if (alpha < 128) transparent++;
+    else opaque++;
+  }
+
+  const hasTransparency = opaque > 0 && transparent > 0 && !isLetterboxOnly(rgba, size);
+
+  const luminance = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    luminance[i] = Math.round(0.2126 * rgba[i * 4] + 0.7152 * rgba[i * 4 + 1] + 0.0722 * rgba[i * 4 + 2]);
+  }
+
+  const otsu = otsuThreshold(luminance, rgba);
+  if (hasTransparency && threshold === undefined && (otsu.separability < MIN_SEPARABILITY || otsu.contrast < MIN_CONTRAST)) {
+    for (let i = 0; i < pixels; i++) {
+      mask[i] = rgba[i * 4 + 3] >= 128 ? 1 : 0;
+    }
+    return mask;
+  }
+
+  const cutoff = threshold ?? otsu.threshold;
+  const isDark = (i: number) => luminance[i] <= cutoff;
+
+  // The class most border pixels of the opaque area belong to
+  let darkBorder = 0;
+  let border = 0;
+  forEachBorderPixel(rgba, size, (i) => {
+    border++;
+    if (isDark(i)) darkBorder++;
+  });
+  const borderIsDark = darkBorder > border / 2;
+
+  // That class is the background of an opaque image, and the shape itself when transparency surrounds it
+  for (let i = 0; i < pixels; i++) {
+    if (rgba[i * 4 + 3] < 128) continue;
+    mask[i] = (isDark(i) === borderIsDark) === hasTransparency ? 1 : 0;
+  }
+  return mask;
+}
+
+// True when every transparent pixel lies in the padding added by fit: 'contain'
+function isLetterboxOnly(rgba: Buffer, size: number): boolean {
+  let minX = size, minY = size, maxX = -1, maxY = -1;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (rgba[(y * size + x) * 4 + 3] >= 128) {
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (rgba[(y * size + x) * 4 + 3] < 128) return false;
+    }
+  }
+  return true;
+}
+
+function forEachBorderPixel(rgba: Buffer, size: number, visit: (index: number) => void): void {
+  // Border of the opaque image area (skips contain padding)
+  for (let y = 0; y < size; y++) {
+    let first = -1;
+    let last = -1;
+    for (let x = 0; x < size; x++) {
+      if (rgba[(y * size + x) * 4 + 3] >= 128) {
+        if (first === -1) first = x;
+        last = x;
+      }
+    }
+    if (first !== -1) {
+      visit(y * size + first);
+      visit(y * size + last);
+    }
+  }
+  for (let x = 0; x < size; x++) {
+    let first = -1;
+    let last = -1;
+    for (let y = 0; y < size; y++) {
+      if (rgba[(y * size + x) * 4 + 3] >= 128) {
+        if (first === -1) first = y;
+        last = y;
+      }
+    }
+    if (first !== -1) {
+      visit(first * size + x);
+      visit(last * size + x);
+    }
+  }
+}
+
+// Otsu's threshold over the opaque pixels, with how well it separates them: the share of the
+// luminance variance the split explains, and the difference between the two class means
+function otsuThreshold(luminance: Uint8Array, rgba: Buffer): { threshold: number; separability: number; contrast: number } {
+  const histogram = new Array<number>(256).fill(0);
+  let total = 0;
+  for (let i = 0; i < luminance.length; i++) {
+    if (rgba[i * 4 + 3] < 128) continue;
+    histogram[luminance[i]]++;
+    total++;
+  }
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < 256; i++) {
+    sum += i * histogram[i];
+    sumOfSquares += i * i * histogram[i];
+  }
+
+  let backgroundSum = 0;
+  let backgroundWeight = 0;
+  let bestVariance = -1;
+  let best = 127;
+  let contrast = 0;
+  for (let t = 0; t < 256; t++) {
+    backgroundWeight += histogram[t];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += t * histogram[t];
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (sum - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+      contrast = foregroundMean - backgroundMean;
+    }
+  }
+
+  // Between-class variance over total variance, both scaled by total²
+  const totalVariance = total * sumOfSquares - sum * sum;
+  return { threshold: best, separability: totalVariance > 0 && bestVariance > 0 ? bestVariance / totalVariance : 0, contrast };
+}
+
+/**
+ * Trace the outlines of filled pixels into closed, axis-aligned subpaths.
+ * Edges run clockwise around filled pixels, so holes come out reversed.
+ */
+function traceMask(mask: Uint8Array, size: number): string {
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < size && y < size && mask[y * size + x] === 1;
+  const key = (x: number, y: number) => y * (size + 1) + x;
+
+  // Directed boundary edges keyed by start vertex
+  const edges = new Map<number, number[]>();
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const start = key(x1, y1);
+    const list = edges.get(start);
+    if (list) list.push(key(x2, y2));
+    else edges.set(start, [key(x2, y2)]);
+  };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const commands: string[] = [];
+  for (const [start] of edges) {
+    while (edges.get(start)?.length) {
+      const points: number[] = [start];
+      let current = start;
+      for (;;) {
+        const next = edges.get(current)!.pop()!;
+        if (edges.get(current)!.length === 0) edges.delete(current);
+        if (next === start) break;
+        points.push(next);
+        current = next;
+      }
+      commands.push(polygonToPath(points, size));
+    }
+  }
+  return commands.join('');
+}
+
+function polygonToPath(points: number[], size: number): string {
+  const coords = points.map(point => [point % (size + 1), Math.floor(point / (size + 1))]);
+
+  // Drop vertices in the middle of straight runs
+  const corners = coords.filter((point, index) => {
+    const previous = coords[(index - 1 + coords.length) % coords.length];
+    const next = coords[(index + 1) % coords.length];
+    return !((previous[0] === point[0] && point[0] === next[0]) || (previous[1] === point[1] && point[1] === next[1]));
+  });
+
+  let d = `M${corners[0][0]} ${corners[0][1]}`;
+  for (let i = 1; i < corners.length; i++) {
+    d += corners[i][0] !== corners[i - 1][0] ? `H${corners[i][0]}` : `V${corners[i][1]}`;
+  }
+  return d + 'Z';
+}
@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { File } from '@babel/types';
+import { applyEdits, detectQuote, findExport, getProperty, insertProperties, parseModule, toSource, type TextEdit } from './codemod.js';
+
+// First line of files we generate, so later runs know they may overwrite them
+export const GENERATED_HEADER = '// Generated by web-icons-generator-cli-mcp. Changes are overwritten on the next run.';
+
+// App Router files that define the web app manifest (only one may exist)
+const MANIFEST_FILENAMES = ['manifest.ts', 'manifest.js', 'manifest.json', 'manifest.webmanifest'];
+const LAYOUT_FILENAMES = ['layout.tsx', 'layout.jsx', 'layout.ts', 'layout.js'];
+
+// Fields for the root layout's `metadata` and `viewport` exports
+export interface LayoutExports {
+  metadata: Record<string, unknown>;
+  viewport: Record<string, unknown>;
+}
+
+const EXPORT_TYPES: Record<keyof LayoutExports, string> = {
+  metadata: 'Metadata',
+  viewport: 'Viewport',
+};
+
+/**
+ * Find the manifest route in an App Router directory, and whether we
+ * generated it.
+ */
+export async function findAppManifest(appDir: string): Promise<{ filename: string; generated: boolean } | null> {
+  for (const filename of MANIFEST_FILENAMES) {
+    try {
+      const content = await fs.readFile(path.join(appDir, filename), 'utf-8');
+      return { filename, generated: content.startsWith(GENERATED_HEADER) };
+    } catch {
+      // Not there, try the next one
+    }
+  }
+  return null;
+}
+
+export async function findRootLayout(appDir: string): Promise<string | null> {
+  for (const filename of LAYOUT_FILENAMES) {
+    try {
+      await fs.access(path.join(appDir, filename));
+      return path.join(appDir, filename);
+    } catch {
+      // Not there, try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Source of an `app/manifest.ts` (or `.js`) route returning the manifest.
+ */
+export function renderManifestModule(manifest: Record<string, unknown>, typescript: boolean): string {
+  const signature = typescript
+    ? "import type { MetadataRoute } from 'next';\n\nexport default function manifest(): MetadataRoute.Manifest {"
+    : "/** @returns {import('next').MetadataRoute.Manifest} */\nexport default function manifest() {";
+
+  return `${GENERATED_HEADER}\n${signature}\n  return ${toSource(manifest, '  ')};\n}\n`;
+}
+
+/**
+ * Standalone `metadata` and `viewport` exports, for a layout that has neither.
+ */
+export function renderLayoutExports(exports: LayoutExports, typescript: boolean): string {
+  const names = exportNames(exports);
+  const imports = typescript ? `import type { ${names.map(name => EXPORT_TYPES[name]).join(', ')} } from 'next';\n\n` : '';
+  return imports + names.map(name => renderExport(name, exports[name], typescript)).join('\n\n') + '\n';
+}
+
+/**
+ * Add the fields to the `metadata` and `viewport` exports of a root layout,
+ * creating either export when it is missing. Fields the layout already sets
+ * are left alone. Returns null when the layout computes them in
+ * generateMetadata/generateViewport or exports something other than an
+ * object literal, which cannot be patched safely.
+ */
+export function patchLayout(source: string, filePath: string, exports: LayoutExports): string | null {
+  const ast = parseModule(source, filePath);
+  const typescript = /\.tsx?$/.test(filePath);
+  const quote = detectQuote(source);
+  const edits: TextEdit[] = [];
+  const newExports: (keyof LayoutExports)[] = [];
+
+  for (const name of exportNames(exports)) {
+    if (findExport(ast, `generate${EXPORT_TYPES[name]}`)) {
+      return null;
+    }
+
+    const existing = findExport(ast, name);
+    if (existing) {
+      if (existing.value.type !== 'ObjectExpression') {
+        return null;
+      }
+      const object = existing.value;
+      const missing = Object.entries(exports[name]).filter(([key]) => !getProperty(object, key));
+      if (missing.length > 0) {
+        edits.push(insertProperties(source, object, missing, quote));
+      }
+    } else {
+      newExports.push(name);
+    }
+  }
+
+  if (newExports.length > 0) {
+    // The type import first: with no imports it lands at the same offset as the exports, and must stay above them
+    if (typescript) {
+      edits.push(addNextTypeImports(ast, newExports.map(name => EXPORT_TYPES[name]), quote));
+    }
+    // New exports go right above the layout component
+    const blocks = newExports.map(name => renderExport(name, exports[name], typescript, quote)).join('\n\n');
+    const defaultExport = ast.program.body.find(statement => statement.type === 'ExportDefaultDeclaration');
+    edits.push(defaultExport
+      ? { start: defaultExport.start!, end: defaultExport.start!, text: `${blocks}\n\n` }
+      : { start: source.length, end: source.length, text: `${source.endsWith('\n') ? '\n' : '\n\n'}${blocks}\n` });
+  }
+
+  return applyEdits(source, edits);
+}
+
+function exportNames(exports: LayoutExports): (keyof LayoutExports)[] {
+  return (Object.keys(EXPORT_TYPES) as (keyof LayoutExports)[]).filter(name => Object.keys(exports[name]).length > 0);
+}
+
+function renderExport(name: keyof LayoutExports, fields: Record<string, unknown>, typescript: boolean, quote = "'"): string {
+  return `export const ${name}${typescript ? `: ${EXPORT_TYPES[name]}` : ''} = ${toSource(fields, '', quote)};`;
+}
+
+// Add types to the layout's `import ... from 'next'`, or add a type import after the others
+function addNextTypeImports(ast: File, types: string[], quote: string): TextEdit {
+  const imports = ast.program.body.filter(statement => statement.type === 'ImportDeclaration');
+  const nextImport = imports.find(statement => statement.source.value === 'next' && statement.specifiers.every(specifier => specifier.type === 'ImportSpecifier'));
+
+  if (nextImport && nextImport.specifiers.length > 0) {
+    const imported = new Set(nextImport.specifiers.map(specifier => specifier.local.name));
+    const prefix = nextImport.importKind === 'type' ? '' : 'type ';
+    const names = types.filter(type => !imported.has(type)).map(type => `, ${prefix}${type}`).join('');
+    const last = nextImport.specifiers[nextImport.specifiers.length - 1];
+    return { start: last.end!, end: last.end!, text: names };
+  }
+
+  const statement = `import type { ${types.join(', ')} } from ${quote}next${quote};`;
+  const lastImport = imports[imports.length - 1];
+  return lastImport
+    ? { start: lastImport.end!, end: lastImport.end!, text: `\n${statement}` }
+    : { start: 0, end: 0, text: `${statement}\n\n` };
+}
@@ -0,0 +1,133 @@
+import path from 'path';
+
+export const ICON_PREVIEW_FILENAME = 'icon-preview.html';
+
+export interface PreviewImage {
+  name: string; // Path shown on the page, relative to the project root
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface IconPreviewInput {
+  title: string; // App name under the home screen icons and in the browser tab
+  files: PreviewImage[];
+  favicon?: PreviewImage;
+  darkFavicon?: PreviewImage; // Defaults to the favicon
+  touchIcon?: PreviewImage;
+  maskableIcon?: PreviewImage;
+  pinnedTab?: PreviewImage;
+  pinnedTabColor: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.svg': 'image/svg+xml',
+};
+
+const STYLES = `
+  body { margin: 0; padding: 32px; font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #202124; background: #f8f9fa; }
+  h1 { font-size: 22px; margin: 0 0 24px; }
+  h2 { font-size: 16px; margin: 32px 0 12px; }
+  .contexts { display: flex; flex-wrap: wrap; gap: 24px; }
+  .context { background: #fff; border: 1px solid #dadce0; border-radius: 8px; padding: 16px; }
+  .context h3 { font-size: 12px; font-weight: 600; color: #5f6368; margin: 0 0 12px; text-transform: uppercase; letter-spacing: .04em; }
+  .tabs { display: flex; align-items: flex-end; gap: 4px; width: 320px; padding: 8px 8px 0; border-radius: 8px 8px 0 0; }
+  .tabs.light { background: #dee1e6; color: #202124; }
+  .tabs.dark { background: #202124; color: #e8eaed; }
+  .tab { display: flex; align-items: center; gap: 8px; width: 200px; height: 32px; padding: 0 12px; border-radius: 8px 8px 0 0; white-space: nowrap; overflow: hidden; font-size: 12px; }
+  .light .tab.active { background: #fff; }
+  .dark .tab.active { background: #35363a; }
+  .tab img, .tab .pinned { width: 16px; height: 16px; flex: none; }
+  .tab.pinned-tab { width: auto; }
+  .pinned { -webkit-mask: var(--icon) center / contain no-repeat; mask: var(--icon) center / contain no-repeat; }
+  .safari { background: #e5e5ea; }
+  .safari .tab.active { background: #fff; }
+  .wallpaper { display: flex; gap: 20px; padding: 24px; border-radius: 24px; color: #fff; font-size: 11px; text-shadow: 0 1px 2px rgba(0, 0, 0, .4); }
+  .ios { background: linear-gradient(160deg, #4f46e5, #db2777); }
+  .android { background: linear-gradient(160deg, #0f766e, #1e3a8a); }
+  .app { display: flex; flex-direction: column; align-items: center; gap: 6px; width: 64px; }
+  .app img, .app .placeholder { display: block; }
+  .ios img, .ios .placeholder { width: 60px; height: 60px; border-radius: 13.4px; background: #000; }
+  .android img, .android .placeholder { width: 56px; height: 56px; border-radius: 50%; }
+  .placeholder { background: rgba(255, 255, 255, .35) !important; }
+  table { border-collapse: collapse; background: #fff; border: 1px solid #dadce0; }
+  th, td { padding: 12px 16px; border-bottom: 1px solid #dadce0; text-align: left; vertical-align: top; }
+  th { font-size: 12px; color: #5f6368; }
+  td.file { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; white-space: nowrap; }
+  td.image { max-width: 640px; overflow-x: auto; }
+  td.image img { display: block; background: repeating-conic-gradient(#e8eaed 0% 25%, #fff 0% 50%) 0 0 / 16px 16px; }
+`;
+
+/**
+ * Build a self-contained HTML page for reviewing generated icons: each
+ * context they show up in (browser tabs, home screens, Safari's pinned
+ * tab), then every image at its real size and at 2×. Images are inlined
+ * as data URIs so the page works on its own, e.g. as a CI artifact.
+ */
+export function renderIconPreview(input: IconPreviewInput): string {
+  const title = escapeHtml(input.title);
+  const contexts = [
+    input.favicon && browserTabs('Browser tab, light', 'light', input.favicon, title),
+    input.favicon && browserTabs('Browser tab, dark', 'dark', input.darkFavicon || input.favicon, title),
+    input.touchIcon && homeScreen('iOS home screen', 'ios', input.touchIcon, title),
+    input.maskableIcon && homeScreen('Android launcher (circle mask)', 'android', input.maskableIcon, title),
+    input.pinnedTab && pinnedTab(input.pinnedTab, input.pinnedTabColor, title),
+  ].filter(Boolean);
+
+  const rows = input.files.map(file => {
+    const src = dataUri(file);
+    const image = (scale: number) =>
+      `<img src="${src}" width="${file.width * scale}" height="${file.height * scale}" alt="">`;
+    return `<tr><td class="file">${escapeHtml(file.name)}<br>${file.width}×${file.height}</td><td class="image">${image(1)}</td><td class="image">${image(2)}</td></tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Icon preview: ${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Icon preview: ${title}</h1>
+${contexts.length > 0 ? `<h2>In context</h2>\n<div class="contexts">\n${contexts.join('\n')}\n</div>\n` : ''}<h2>Generated files</h2>
+<table>
+<tr><th>File</th><th>Real size</th><th>2×</th></tr>
+${rows.join('\n')}
+</table>
+</body>
+</html>
+`;
+}
+
+function browserTabs(heading: string, theme: 'light' | 'dark', favicon: PreviewImage, title: string): string {
+  return `<div class="context"><h3>${heading}</h3><div class="tabs ${theme}">`
+    + `<div class="tab active"><img src="${dataUri(favicon)}" alt="">${title}</div>`
+    + '<div class="tab">New Tab</div></div></div>';
+}
+
+function homeScreen(heading: string, platform: 'ios' | 'android', icon: PreviewImage, title: string): string {
+  const placeholder = '<div class="app"><div class="placeholder"></div>&nbsp;</div>';
+  return `<div class="context"><h3>${heading}</h3><div class="wallpaper ${platform}">`
+    + `${placeholder}<div class="app"><img src="${dataUri(icon)}" alt="">${title}</div>${placeholder}</div></div>`;
+}
+
+// Safari ignores the artwork's colors: it fills the SVG's shape with the mask-icon color when active, gray otherwise
+function pinnedTab(icon: PreviewImage, color: string, title: string): string {
+  const tab = (active: boolean) =>
+    `<div class="tab pinned-tab${active ? ' active' : ''}" title="${active ? 'Active' : 'Inactive'}">`
+    + `<span class="pinned" style="--icon: url('${dataUri(icon)}'); background: ${active ? escapeHtml(color) : '#6e6e73'}"></span></div>`;
+  return `<div class="context"><h3>Safari pinned tab</h3><div class="tabs safari">${tab(true)}${tab(false)}<div class="tab">${title}</div></div></div>`;
+}
+
+function dataUri(image: PreviewImage): string {
+  const mimeType = MIME_TYPES[path.extname(image.name).toLowerCase()] || 'application/octet-stream';
+  return `data:${mimeType};base64,${image.data.toString('base64')}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
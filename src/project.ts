@@ -0,0 +1,102 @@
+import path from 'path';
+import { FrameworkDetector, validateSourceFile } from './utils.js';
+import { mergeDarkModeOptions, mergeManifestOptions, mergeMaskableOptions, mergeOpenGraphImageOptions, mergeSplashScreenOptions, mergeWindowsTileOptions, resolveConfigOutputDir, resolveIconConfigs } from './config.js';
+import { resolveUrlPrefix } from './basepath.js';
+import type { DetectedFramework, GeneratorOptions, ProjectOptions, WebIconsConfig } from './types.js';
+
+export interface ResolvedProject {
+  generatorOptions: GeneratorOptions;
+  framework: DetectedFramework | null;
+  outputDirFrom: 'option' | 'config' | 'detected'; // Where the output directory came from
+}
+
+/**
+ * Resolve the output directory, mode and merged project config for a run:
+ * explicit options win, then the project config, then framework detection.
+ * Shared by the CLI, the MCP tools, generateIcons() and the Vite plugin.
+ */
+export async function resolveGeneratorOptions(
+  options: ProjectOptions,
+  config: WebIconsConfig,
+  projectPath: string,
+  sourcePath: string
+): Promise<ResolvedProject> {
+  // Detect framework and determine output directory
+  const detector = new FrameworkDetector(projectPath);
+  const framework = await detector.detect();
+  const hasAppRouter = await detector.hasAppRouter();
+
+  let mode = options.mode || config.mode || 'auto';
+  let outputDir: string;
+  let outputDirFrom: ResolvedProject['outputDirFrom'] = 'detected';
+  const target = options.target || config.target || 'web';
+  const explicitOutput = options.outputDir || (typeof config.outputDir === 'string' ? config.outputDir : undefined);
+
+  if (target !== 'web') {
+    // Native resources go into the Capacitor/React Native project
+    const configOutputDir = resolveConfigOutputDir(config, target, projectPath);
+    outputDirFrom = options.outputDir ? 'option' : configOutputDir ? 'config' : 'detected';
+    outputDir = options.outputDir
+      ? path.resolve(projectPath, options.outputDir)
+      : configOutputDir || await detector.getNativeDir(target);
+  } else if (explicitOutput) {
+    outputDir = path.resolve(projectPath, explicitOutput);
+    outputDirFrom = options.outputDir ? 'option' : 'config';
+    // If output is explicitly set and mode is auto, determine mode from path
+    if (mode === 'auto') {
+      const outputBasename = path.basename(outputDir);
+      mode = (outputBasename === 'app' || outputDir.includes('/app')) ? 'nextjs' : 'traditional';
+    }
+  } else {
+    // Auto-detect output directory based on mode and framework
+    if (mode === 'auto' && hasAppRouter && framework?.name === 'Next.js') {
+      mode = 'nextjs';
+    } else if (mode === 'auto') {
+      mode = 'traditional';
+    }
+
+    // Set output directory based on mode
+    const configOutputDir = resolveConfigOutputDir(config, mode === 'nextjs' ? 'nextjs' : 'traditional', projectPath);
+    if (configOutputDir) {
+      outputDir = configOutputDir;
+      outputDirFrom = 'config';
+    } else if (mode === 'nextjs' && hasAppRouter) {
+      outputDir = await detector.getAppDir() || await detector.getPublicDir();
+    } else {
+      outputDir = await detector.getPublicDir();
+    }
+  }
+
+  const dark = mergeDarkModeOptions(config, options.dark || {}, projectPath);
+  if (dark?.source) {
+    await validateSourceFile(dark.source);
+  }
+
+  // Electron/Tauri get the extra files their packager expects
+  const desktopApp = target === 'desktop' ? await detector.detectDesktopApp() : null;
+
+  return {
+    framework,
+    outputDirFrom,
+    generatorOptions: {
+      sourcePath,
+      outputDir,
+      projectRoot: projectPath,
+      color: options.color || config.color || '#5bbad5',
+      mode: mode as 'traditional' | 'nextjs' | 'auto',
+      target,
+      desktop: desktopApp ? { tool: desktopApp.tool } : undefined,
+      icons: resolveIconConfigs(config.icons),
+      manifest: mergeManifestOptions(config, options.manifest || {}),
+      dark,
+      splash: mergeSplashScreenOptions(config, options.splash),
+      tiles: mergeWindowsTileOptions(config, options.tiles),
+      og: mergeOpenGraphImageOptions(config, options.og),
+      maskable: mergeMaskableOptions(config, options.maskable || {}, projectPath),
+      ...await resolveUrlPrefix(projectPath, framework, config, options),
+      hash: options.hash ?? config.hash,
+      strict: options.strict,
+      preview: options.preview ?? config.preview,
+    },
+  };
+}
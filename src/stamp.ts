@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const STAMP_FILENAME = '.web-icons-stamp.json';
+const STAMP_VERSION = 1;
+
+/**
+ * Record of what a generation run was produced from, written to the project
+ * root (never among the icons, so it isn't deployed) so later runs and CI
+ * can tell whether the output is still current.
+ * All paths are relative to the project root and use forward slashes, so the
+ * stamp stays valid on other machines and checkouts.
+ */
+export interface IconStamp {
+  version: number;
+  source: { path: string; hash: string };
+  darkSource?: { path: string; hash: string };
+  maskableSource?: { path: string; hash: string };
+  optionsHash: string;
+  files: Record<string, string>; // Generated file → content hash
+}
+
+// Native targets get their own stamp, so web and app icons generated in one project don't replace each other's
+export function getStampFilename(target: string): string {
+  return target === 'web' ? STAMP_FILENAME : `.web-icons-stamp.${target}.json`;
+}
+
+export function hashContent(data: Buffer | string): string {
+  return 'sha256-' + createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash a plain options object. Keys are sorted and undefined values dropped,
+ * so the hash only changes when an option's value does.
+ */
+export function hashOptions(options: unknown): string {
+  return hashContent(canonicalJSON(options));
+}
+
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJSON(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function toStampPath(projectRoot: string, filePath: string): string {
+  return path.relative(projectRoot, filePath).split(path.sep).join('/');
+}
+
+export function serializeStamp(stamp: Omit<IconStamp, 'version'>): string {
+  return JSON.stringify({ version: STAMP_VERSION, ...stamp }, null, 2) + '\n';
+}
+
+/**
+ * Read a stamp file. Returns null when it doesn't exist or was written by an
+ * incompatible version (both mean the icons need regenerating).
+ */
+export async function readStamp(stampPath: string): Promise<IconStamp | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(stampPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  try {
+    const stamp = JSON.parse(content) as IconStamp;
+    return stamp.version === STAMP_VERSION && stamp.files && typeof stamp.files === 'object' ? stamp : null;
+  } catch (error) {
+    throw new Error(`Could not parse ${stampPath}: ${(error as Error).message}`);
+  }
+}
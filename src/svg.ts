@@ -0,0 +1,196 @@
+export interface SvgElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>; // Decoded values
+  children: SvgNode[];
+}
+
+export interface SvgText {
+  type: 'text';
+  value: string; // Raw (still entity-encoded) text
+}
+
+export interface SvgRaw {
+  type: 'raw';
+  value: string; // Comments, CDATA sections, processing instructions, doctype
+}
+
+export type SvgNode = SvgElement | SvgText | SvgRaw;
+
+const NAME_PATTERN = /[^\s/>=]+/y;
+const ATTRIBUTE_PATTERN = /\s*([^\s/>=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/y;
+
+/**
+ * Parse an SVG/XML document into a tree. The returned node is a synthetic
+ * "#document" element whose children are the top-level nodes.
+ */
+export function parseSvg(source: string): SvgElement {
+  const document: SvgElement = { type: 'element', name: '#document', attributes: {}, children: [] };
+  const stack: SvgElement[] = [document];
+  let index = 0;
+
+  const current = () => stack[stack.length - 1];
+
+  while (index < source.length) {
+    const tagStart = source.indexOf('<', index);
+    if (tagStart === -1) {
+      current().children.push({ type: 'text', value: source.slice(index) });
+      break;
+    }
+    if (tagStart > index) {
+      current().children.push({ type: 'text', value: source.slice(index, tagStart) });
+    }
+
+    if (source.startsWith('<!--', tagStart)) {
+      index = readUntil(source, tagStart, '-->');
+      current().children.push({ type: 'raw', value: source.slice(tagStart, index) });
+    } else if (source.startsWith('<![CDATA[', tagStart)) {
+      index = readUntil(source, tagStart, ']]>');
+      current().children.push({ type: 'raw', value: source.slice(tagStart, index) });
+    } else if (source.startsWith('<?', tagStart)) {
+      index = readUntil(source, tagStart, '?>');
+      current().children.push({ type: 'raw', value: source.slice(tagStart, index) });
+    } else if (source.startsWith('<!', tagStart)) {
+      index = readDoctype(source, tagStart);
+      current().children.push({ type: 'raw', value: source.slice(tagStart, index) });
+    } else if (source.startsWith('</', tagStart)) {
+      const tagEnd = source.indexOf('>', tagStart);
+      if (tagEnd === -1) {
+        throw new Error('Invalid SVG: unterminated closing tag');
+      }
+      const name = source.slice(tagStart + 2, tagEnd).trim();
+      const open = current();
+      if (open.name !== name) {
+        throw new Error(`Invalid SVG: expected </${open.name}> but found </${name}>`);
+      }
+      stack.pop();
+      index = tagEnd + 1;
+    } else {
+      NAME_PATTERN.lastIndex = tagStart + 1;
+      const nameMatch = NAME_PATTERN.exec(source);
+      if (!nameMatch) {
+        throw new Error('Invalid SVG: malformed tag');
+      }
+
+      const element: SvgElement = { type: 'element', name: nameMatch[0], attributes: {}, children: [] };
+      let cursor = NAME_PATTERN.lastIndex;
+
+      for (;;) {
+        ATTRIBUTE_PATTERN.lastIndex = cursor;
+        const match = ATTRIBUTE_PATTERN.exec(source);
+        if (!match) break;
+        element.attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+        cursor = ATTRIBUTE_PATTERN.lastIndex;
+      }
+
+      while (/\s/.test(source[cursor] || '')) cursor++;
+
+      current().children.push(element);
+      if (source.startsWith('/>', cursor)) {
+        index = cursor + 2;
+      } else if (source[cursor] === '>') {
+        stack.push(element);
+        index = cursor + 1;
+      } else {
+        throw new Error(`Invalid SVG: malformed <${element.name}> tag`);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid SVG: unclosed <${current().name}> element`);
+  }
+
+  return document;
+}
+
+function readUntil(source: string, start: number, terminator: string): number {
+  const end = source.indexOf(terminator, start);
+  if (end === -1) {
+    throw new Error(`Invalid SVG: missing "${terminator}"`);
+  }
+  return end + terminator.length;
+}
+
+function readDoctype(source: string, start: number): number {
+  // Doctypes may contain an internal subset in [...]
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '[') depth++;
+    else if (source[i] === ']') depth--;
+    else if (source[i] === '>' && depth === 0) return i + 1;
+  }
+  throw new Error('Invalid SVG: unterminated doctype');
+}
+
+/**
+ * Return the outermost <svg> element of a parsed document.
+ */
+export function getRootSvg(document: SvgElement): SvgElement {
+  const root = document.children.find(
+    (node): node is SvgElement => node.type === 'element' && localName(node.name) === 'svg'
+  );
+  if (!root) {
+    throw new Error('Invalid SVG: no <svg> root element');
+  }
+  return root;
+}
+
+export function serializeSvg(node: SvgNode): string {
+  if (node.type !== 'element') {
+    return node.value;
+  }
+
+  const children = node.children.map(serializeSvg).join('');
+  if (node.name === '#document') {
+    return children;
+  }
+
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${encodeAttribute(value)}"`)
+    .join('');
+
+  return node.children.length > 0
+    ? `<${node.name}${attributes}>${children}</${node.name}>`
+    : `<${node.name}${attributes}/>`;
+}
+
+// Element name without a namespace prefix ("svg:path" → "path")
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Text content of an element, with CDATA sections unwrapped and entities decoded.
+ */
+export function textContent(element: SvgElement): string {
+  return element.children.map((child) => {
+    if (child.type === 'text') return decodeEntities(child.value);
+    if (child.type === 'raw' && child.value.startsWith('<![CDATA[')) return child.value.slice(9, -3);
+    if (child.type === 'element') return textContent(child);
+    return '';
+  }).join('');
+}
+
+export function walkSvg(node: SvgElement, visit: (element: SvgElement, parent: SvgElement | null) => void, parent: SvgElement | null = null): void {
+  visit(node, parent);
+  for (const child of node.children) {
+    if (child.type === 'element') {
+      walkSvg(child, visit, node);
+    }
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[lower] ?? entity;
+  });
+}
+
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
@@ -1,49 +1,448 @@
 export interface IconConfig {
+  id?: string; // Stable identifier when the filename is renamed (defaults to filename)
   filename: string;
   size: number;
   format: 'png' | 'ico' | 'svg';
   mode?: 'traditional' | 'nextjs' | 'both'; // Which generation mode uses this icon
+  icoSizes?: number[]; // Sizes embedded in an .ico container (defaults to 16, 32, 48)
+  icoPayload?: 'png' | 'bmp' | 'auto'; // Image encoding inside the .ico (auto: BMP below 256px, PNG at 256px)
+  purpose?: 'any' | 'maskable'; // Maskable icons get safe zone padding
+  manifest?: boolean; // Listed in the web app manifest
 }
 
+export const DEFAULT_ICO_SIZES = [16, 32, 48];
+
 export type GenerationMode = 'traditional' | 'nextjs' | 'auto';
 
+// Platform the icons are generated for; native targets write app resources instead of web icons
+export type IconTarget = 'web' | 'android' | 'ios' | 'desktop';
+export type NativeTarget = Exclude<IconTarget, 'web'>;
+
 export interface GeneratorOptions {
   sourcePath: string;
   outputDir: string;
   projectRoot?: string; // Project root directory for placing instructions file
   color?: string; // For safari-pinned-tab.svg
   mode?: GenerationMode; // Generation mode (traditional web app vs Next.js App Router)
+  target?: IconTarget; // Platform to generate for (default: web)
+  desktop?: DesktopOptions; // Desktop target only
+  icons?: IconConfig[]; // Icon set to generate (defaults to ICON_CONFIGS)
+  manifest?: ManifestOptions; // Web app manifest fields (app/manifest.ts in Next.js mode)
+  dark?: DarkModeOptions; // Dark color scheme variants of the favicon
+  splash?: SplashScreenOptions; // iOS launch images (traditional mode, opt-in)
+  tiles?: WindowsTileOptions; // Windows tiles and browserconfig.xml (traditional mode, opt-in)
+  og?: OpenGraphImageOptions; // Open Graph and Twitter card images (opt-in)
+  maskable?: MaskableOptions; // Maskable manifest icon artwork, background and preview sheet
+  preview?: boolean; // Also write icon-preview.html, every image inlined and shown in context, next to the integration guide
+  basePath?: string; // URL path the site is served under (e.g. /docs); prefixes every generated URL
+  assetPrefix?: string; // Where the icon files are served from (e.g. a CDN origin); takes the place of basePath in their URLs
+  hash?: boolean; // Content-hashed filenames (icon-192.3f9a1c.png) and a web-icons.assets.json map
+  strict?: boolean; // Fail on source image warnings, not just errors
+}
+
+// Per-run options layered over the project config (MCP tools, generateIcons() and the Vite plugin)
+export interface ProjectOptions {
+  outputDir?: string; // Relative to the project root (auto-detected if not set)
+  color?: string;
+  mode?: GenerationMode;
+  target?: IconTarget;
+  manifest?: ManifestOptions;
+  dark?: DarkModeOptions;
+  splash?: SplashScreenOptions; // Presence enables splash screens
+  tiles?: WindowsTileOptions; // Presence enables Windows tiles
+  og?: OpenGraphImageOptions; // Presence enables Open Graph/Twitter images
+  maskable?: MaskableOptions;
+  basePath?: string;
+  assetPrefix?: string;
+  hash?: boolean;
+  strict?: boolean;
+  preview?: boolean;
+}
+
+// A generated file, rendered in memory
+export interface RenderedFile {
+  path: string;
+  data: Buffer;
+  dimensions?: string; // e.g. "192x192", or "16x16 32x32 48x48" for .ico
+}
+
+// The images outputs are rendered from: the main source feeds every output, the others only their own
+export type IconSourceKind = 'source' | 'dark' | 'maskable';
+
+// Desktop app packagers whose icon layout we follow, detected from their config files
+export type DesktopTool = 'electron-builder' | 'tauri';
+
+export interface DesktopOptions {
+  tool?: DesktopTool; // Also writes the extra files this packager expects
+  appName?: string; // Icon name in the Linux hicolor theme (default: package.json name)
+}
+
+export interface SplashScreenOptions {
+  backgroundColor?: string; // Defaults to the manifest background_color, then #ffffff
+}
+
+export interface MaskableOptions {
+  source?: string; // Separate artwork for the maskable icon (default: the main source)
+  safeZone?: number; // Artwork size as a percentage of the icon (default: 60); launchers keep the centered circle 80% across
+  background?: string; // Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background_color, then #ffffff)
+  preview?: boolean; // Also write maskable-preview.png, the icon under common launcher masks, next to the integration guide
+}
+
+export interface OpenGraphImageOptions {
+  background?: string; // Hex color, or comma-separated hex colors for a diagonal gradient (default: manifest background_color, then #ffffff)
+  title?: string;
+  subtitle?: string;
+  textColor?: string; // Defaults to near-black or white, whichever contrasts with the background
+}
+
+export interface WindowsTileOptions {
+  color?: string; // TileColor; defaults to the manifest theme_color, then #da532c
+}
+
+export interface DarkModeOptions {
+  source?: string; // Separate image for dark backgrounds (takes precedence over strategy)
+  strategy?: 'invert' | 'recolor'; // Derive the dark variant from the main source
+  color?: string; // Color used by the recolor strategy (default: #ffffff)
+}
+
+export interface ManifestOptions {
+  filename?: string; // site.webmanifest, manifest.webmanifest or manifest.json (defaults to an existing one)
+  name?: string;
+  shortName?: string;
+  description?: string;
+  themeColor?: string;
+  backgroundColor?: string;
+  display?: 'fullscreen' | 'standalone' | 'minimal-ui' | 'browser';
+  startUrl?: string;
+  scope?: string;
+  id?: string;
+}
+
+// Project config file (web-icons.config.json or the "webIcons" key in package.json)
+export interface WebIconsConfig {
+  source?: string; // Source image, relative to the project root
+  outputDir?: string | { traditional?: string; nextjs?: string; android?: string; ios?: string; desktop?: string }; // One web directory, or one per mode/target
+  mode?: GenerationMode;
+  target?: IconTarget;
+  color?: string;
+  manifest?: ManifestOptions;
+  dark?: DarkModeOptions;
+  splash?: SplashScreenOptions; // Presence enables splash screens
+  tiles?: WindowsTileOptions; // Presence enables Windows tiles
+  og?: OpenGraphImageOptions; // Presence enables Open Graph/Twitter images
+  maskable?: MaskableOptions;
+  basePath?: string; // Defaults to the framework config's base path
+  assetPrefix?: string;
+  hash?: boolean; // Content-hashed filenames for cache busting
+  preview?: boolean; // Write icon-preview.html on every run
+  icons?: {
+    add?: IconConfig[]; // Extra entries (replace existing entries with the same filename)
+    remove?: string[]; // Filenames to drop from the default set
+    rename?: Record<string, string>; // Default filename → custom filename
+  };
+}
+
+// One file in a dry-run plan
+export interface PlannedFile {
+  path: string;
+  action: 'create' | 'overwrite' | 'unchanged' | 'delete'; // delete: a stale fingerprinted file from an earlier run
+  changed: boolean; // Content differs from what is on disk (always true for create and delete)
+  dimensions?: string; // Target pixel size, e.g. "192x192" (".ico" lists every layer)
+}
+
+// Result of comparing the output directory with the generation stamp
+export interface IconCheckResult {
+  upToDate: boolean;
+  stampPath: string;
+  stampFound: boolean;
+  sourceChanged: boolean; // Source (or dark source) content differs from the stamped hash
+  optionsChanged: boolean;
+  missingFiles: string[];
+  modifiedFiles: string[]; // Generated files edited or replaced since generation
 }
 
 export interface Framework {
   name: string;
   configFiles: string[];
+  dependencies?: string[]; // package.json (dev)dependencies that identify the framework
+  markers?: string[]; // Other files or directories typical for the framework (weaker evidence)
   publicDir: string;
+  altPublicDirs?: string[]; // Used instead of publicDir when it doesn't exist (older project layouts)
+  basedOn?: string; // Underlying tool this framework builds on; the framework wins when both match
   appDir?: string; // For Next.js App Router
+  headFiles?: string[]; // Files that own the document head, in lookup order (integrate_icons_html)
+  urlConfig?: { basePath?: string[]; assetPrefix?: string[] }; // Property paths of the base path and asset prefix in the config file
+}
+
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+export interface DetectedFramework extends Framework {
+  confidence: DetectionConfidence;
+  evidence: string[]; // What matched, e.g. "nuxt.config.ts", "dependency nuxt"
 }
 
 export const ICON_CONFIGS: IconConfig[] = [
   // Traditional web app icons (used in public/)
-  { filename: 'favicon.ico', size: 32, format: 'ico', mode: 'both' },
-  { filename: 'icon-192.png', size: 192, format: 'png', mode: 'traditional' },
-  { filename: 'icon-512.png', size: 512, format: 'png', mode: 'traditional' },
+  { filename: 'favicon.ico', size: 32, format: 'ico', mode: 'both', icoSizes: [16, 32, 48] },
+  { filename: 'icon-192.png', size: 192, format: 'png', mode: 'traditional', manifest: true },
+  { filename: 'icon-512.png', size: 512, format: 'png', mode: 'traditional', manifest: true },
   { filename: 'apple-touch-icon.png', size: 180, format: 'png', mode: 'both' }, // Keep for compatibility
-  { filename: 'icon-maskable.png', size: 512, format: 'png', mode: 'traditional' },
+  { filename: 'icon-maskable.png', size: 512, format: 'png', mode: 'traditional', purpose: 'maskable', manifest: true },
 
   // Next.js App Router specific icons (used in app/)
   { filename: 'icon.png', size: 512, format: 'png', mode: 'nextjs' }, // Next.js auto-detects this
   { filename: 'apple-icon.png', size: 180, format: 'png', mode: 'nextjs' }, // Next.js naming convention
 ];
 
+// Dark variants of the favicon, linked with media="(prefers-color-scheme: dark)" (traditional mode)
+export const DARK_ICON_CONFIGS: IconConfig[] = [
+  { filename: 'icon-dark-32.png', size: 32, format: 'png', mode: 'traditional' },
+  { filename: 'icon-dark-192.png', size: 192, format: 'png', mode: 'traditional' },
+];
+
+// Windows Start menu tile image, referenced from browserconfig.xml
+export interface TileConfig {
+  filename: string;
+  width: number;
+  height: number;
+  element: 'square70x70logo' | 'square150x150logo' | 'wide310x150logo' | 'square310x310logo';
+}
+
+export const TILE_CONFIGS: TileConfig[] = [
+  { filename: 'mstile-70x70.png', width: 70, height: 70, element: 'square70x70logo' },
+  { filename: 'mstile-150x150.png', width: 150, height: 150, element: 'square150x150logo' },
+  { filename: 'mstile-310x150.png', width: 310, height: 150, element: 'wide310x150logo' }, // Icon centered
+  { filename: 'mstile-310x310.png', width: 310, height: 310, element: 'square310x310logo' },
+];
+
+// Social sharing image; Next.js auto-links the App Router file names from app/
+export interface SocialImageConfig {
+  filename: string;
+  nextjsFilename: string;
+  width: number;
+  height: number;
+}
+
+export const SOCIAL_IMAGE_CONFIGS: SocialImageConfig[] = [
+  { filename: 'og-image.png', nextjsFilename: 'opengraph-image.png', width: 1200, height: 630 },
+  { filename: 'twitter-image.png', nextjsFilename: 'twitter-image.png', width: 1200, height: 600 }, // summary_large_image (2:1)
+];
+
+// Launcher shapes for the maskable icon preview, as paths in a 100×100 box (Android's built-in icon shapes)
+export const MASKABLE_MASKS: { name: string; path: string }[] = [
+  { name: 'Circle', path: 'M50 0A50 50 0 1 1 50 100A50 50 0 1 1 50 0Z' },
+  { name: 'Squircle', path: 'M50 0C10 0 0 10 0 50S10 100 50 100S100 90 100 50S90 0 50 0Z' },
+  { name: 'Rounded square', path: 'M12 0H88A12 12 0 0 1 100 12V88A12 12 0 0 1 88 100H12A12 12 0 0 1 0 88V12A12 12 0 0 1 12 0Z' },
+  { name: 'Teardrop', path: 'M50 0A50 50 0 0 1 100 50V85A15 15 0 0 1 85 100H50A50 50 0 0 1 50 0Z' },
+];
+
+// iOS launch image for one device viewport and orientation (apple-touch-startup-image)
+export interface SplashScreenConfig {
+  filename: string;
+  width: number; // Image size in device pixels
+  height: number;
+  deviceWidth: number; // Portrait viewport in CSS pixels, as matched by the media query
+  deviceHeight: number;
+  pixelRatio: number;
+  orientation: 'portrait' | 'landscape';
+}
+
+// Portrait CSS viewport and pixel ratio of current iPhones and iPads
+const SPLASH_SCREEN_DEVICES: [deviceWidth: number, deviceHeight: number, pixelRatio: number][] = [
+  [440, 956, 3], // iPhone 16 Pro Max
+  [402, 874, 3], // iPhone 16 Pro
+  [430, 932, 3], // iPhone 14 Pro Max, 15 Plus/Pro Max, 16 Plus
+  [393, 852, 3], // iPhone 14 Pro, 15, 15 Pro, 16
+  [428, 926, 3], // iPhone 12/13 Pro Max, 14 Plus
+  [390, 844, 3], // iPhone 12, 13, 14, 12/13 Pro
+  [375, 812, 3], // iPhone X, XS, 11 Pro, 12/13 mini
+  [414, 896, 3], // iPhone XS Max, 11 Pro Max
+  [414, 896, 2], // iPhone XR, 11
+  [414, 736, 3], // iPhone 6/7/8 Plus
+  [375, 667, 2], // iPhone 6/7/8, SE (2nd/3rd gen)
+  [320, 568, 2], // iPhone SE (1st gen)
+  [1032, 1376, 2], // iPad Pro 13" (M4)
+  [1024, 1366, 2], // iPad Pro 12.9"
+  [834, 1210, 2], // iPad Pro 11" (M4)
+  [834, 1194, 2], // iPad Pro 11"
+  [820, 1180, 2], // iPad Air 10.9", iPad (10th gen)
+  [834, 1112, 2], // iPad Air 10.5"
+  [810, 1080, 2], // iPad 10.2"
+  [744, 1133, 2], // iPad mini (6th gen)
+  [768, 1024, 2], // iPad mini, iPad 9.7"
+];
+
+export const SPLASH_SCREEN_CONFIGS: SplashScreenConfig[] = SPLASH_SCREEN_DEVICES.flatMap(([deviceWidth, deviceHeight, pixelRatio]) => {
+  const width = deviceWidth * pixelRatio;
+  const height = deviceHeight * pixelRatio;
+  return [
+    { filename: `splash/apple-splash-${width}-${height}.png`, width, height, deviceWidth, deviceHeight, pixelRatio, orientation: 'portrait' as const },
+    { filename: `splash/apple-splash-${height}-${width}.png`, width: height, height: width, deviceWidth, deviceHeight, pixelRatio, orientation: 'landscape' as const },
+  ];
+});
+
+// Android launcher icon densities: 48dp legacy icons, 108dp adaptive icon layers
+export const ANDROID_DENSITIES: { name: string; scale: number }[] = [
+  { name: 'mdpi', scale: 1 },
+  { name: 'hdpi', scale: 1.5 },
+  { name: 'xhdpi', scale: 2 },
+  { name: 'xxhdpi', scale: 3 },
+  { name: 'xxxhdpi', scale: 4 },
+];
+
+// One image slot of an Xcode AppIcon.appiconset
+export interface AppIconSetImage {
+  idiom: 'iphone' | 'ipad' | 'ios-marketing';
+  size: number; // Points
+  scale: 1 | 2 | 3;
+}
+
+export const APP_ICON_SET_IMAGES: AppIconSetImage[] = [
+  { idiom: 'iphone', size: 20, scale: 2 }, // Notifications
+  { idiom: 'iphone', size: 20, scale: 3 },
+  { idiom: 'iphone', size: 29, scale: 2 }, // Settings
+  { idiom: 'iphone', size: 29, scale: 3 },
+  { idiom: 'iphone', size: 40, scale: 2 }, // Spotlight
+  { idiom: 'iphone', size: 40, scale: 3 },
+  { idiom: 'iphone', size: 60, scale: 2 }, // Home screen
+  { idiom: 'iphone', size: 60, scale: 3 },
+  { idiom: 'ipad', size: 20, scale: 1 },
+  { idiom: 'ipad', size: 20, scale: 2 },
+  { idiom: 'ipad', size: 29, scale: 1 },
+  { idiom: 'ipad', size: 29, scale: 2 },
+  { idiom: 'ipad', size: 40, scale: 1 },
+  { idiom: 'ipad', size: 40, scale: 2 },
+  { idiom: 'ipad', size: 76, scale: 1 },
+  { idiom: 'ipad', size: 76, scale: 2 },
+  { idiom: 'ipad', size: 83.5, scale: 2 }, // iPad Pro
+  { idiom: 'ios-marketing', size: 1024, scale: 1 }, // App Store
+];
+
+// Desktop icon sizes: Windows .ico layers and the Linux hicolor theme
+export const DESKTOP_ICO_SIZES = [16, 24, 32, 48, 64, 128, 256];
+export const HICOLOR_SIZES = [16, 24, 32, 48, 64, 128, 256, 512];
+
+// PNGs listed in the bundle.icon array of a default Tauri project
+export const TAURI_ICON_FILES: { filename: string; size: number }[] = [
+  { filename: '32x32.png', size: 32 },
+  { filename: '128x128.png', size: 128 },
+  { filename: '128x128@2x.png', size: 256 },
+];
+
+// Meta-frameworks come before the tools they build on; list order breaks confidence ties
 export const FRAMEWORKS: Framework[] = [
   {
     name: 'Next.js',
-    configFiles: ['next.config.js', 'next.config.mjs', 'next.config.ts'],
+    configFiles: ['next.config.js', 'next.config.mjs', 'next.config.ts', 'next.config.cjs'],
+    dependencies: ['next'],
+    publicDir: 'public',
+    appDir: 'app', // Next.js App Router directory
+    headFiles: [
+      'app/layout.tsx', 'app/layout.jsx', 'app/layout.js',
+      'src/app/layout.tsx', 'src/app/layout.jsx', 'src/app/layout.js',
+      'pages/_document.tsx', 'pages/_document.jsx', 'pages/_document.js',
+      'src/pages/_document.tsx', 'src/pages/_document.jsx', 'src/pages/_document.js',
+    ],
+    urlConfig: { basePath: ['basePath'], assetPrefix: ['assetPrefix'] },
+  },
+  {
+    name: 'Nuxt',
+    configFiles: ['nuxt.config.ts', 'nuxt.config.js', 'nuxt.config.mjs'],
+    dependencies: ['nuxt', 'nuxt3'],
+    markers: ['app.vue'],
+    publicDir: 'public',
+    altPublicDirs: ['static'], // Nuxt 2
+    basedOn: 'Vite',
+    headFiles: ['nuxt.config.ts', 'nuxt.config.js', 'nuxt.config.mjs'],
+    urlConfig: { basePath: ['app', 'baseURL'], assetPrefix: ['app', 'cdnURL'] },
+  },
+  {
+    name: 'Remix',
+    configFiles: ['remix.config.js', 'remix.config.mjs'],
+    dependencies: ['@remix-run/dev', '@remix-run/react'],
+    markers: ['app/root.tsx', 'app/root.jsx'],
+    publicDir: 'public',
+    basedOn: 'Vite', // Remix v2 runs as a Vite plugin
+    headFiles: ['app/root.tsx', 'app/root.jsx'],
+  },
+  {
+    name: 'SvelteKit',
+    configFiles: ['svelte.config.js', 'svelte.config.mjs'],
+    dependencies: ['@sveltejs/kit'],
+    markers: ['src/app.html'],
+    publicDir: 'static',
+    basedOn: 'Vite',
+    headFiles: ['src/routes/+layout.svelte', 'src/app.html'],
+    urlConfig: { basePath: ['kit', 'paths', 'base'], assetPrefix: ['kit', 'paths', 'assets'] },
+  },
+  {
+    name: 'Astro',
+    configFiles: ['astro.config.mjs', 'astro.config.js', 'astro.config.ts', 'astro.config.mts'],
+    dependencies: ['astro'],
+    publicDir: 'public',
+    basedOn: 'Vite',
+    headFiles: ['src/layouts/Layout.astro', 'src/layouts/BaseLayout.astro', 'src/layouts/Base.astro'],
+    urlConfig: { basePath: ['base'] },
+  },
+  {
+    name: 'SolidStart',
+    configFiles: ['app.config.ts', 'app.config.js'],
+    dependencies: ['@solidjs/start', 'solid-start'],
+    markers: ['src/entry-server.tsx'],
+    publicDir: 'public',
+    basedOn: 'Vite',
+  },
+  {
+    name: 'Qwik',
+    configFiles: [],
+    dependencies: ['@builder.io/qwik-city', '@builder.io/qwik', '@qwik.dev/core'],
+    markers: ['src/root.tsx', 'src/entry.ssr.tsx'],
+    publicDir: 'public',
+    basedOn: 'Vite',
+  },
+  {
+    name: 'Angular',
+    configFiles: ['angular.json'],
+    dependencies: ['@angular/core'],
+    publicDir: 'public', // Angular 17+
+    altPublicDirs: ['src'], // Older projects list src/favicon.ico in angular.json assets
+  },
+  {
+    name: 'Gatsby',
+    configFiles: ['gatsby-config.js', 'gatsby-config.ts', 'gatsby-config.mjs'],
+    dependencies: ['gatsby'],
+    publicDir: 'static', // public/ is Gatsby's build output
+  },
+  {
+    name: 'Docusaurus',
+    configFiles: ['docusaurus.config.js', 'docusaurus.config.ts', 'docusaurus.config.mjs'],
+    dependencies: ['@docusaurus/core'],
+    publicDir: 'static',
+  },
+  {
+    name: 'Eleventy',
+    configFiles: ['eleventy.config.js', 'eleventy.config.mjs', 'eleventy.config.cjs', '.eleventy.js'],
+    dependencies: ['@11ty/eleventy'],
+    publicDir: 'public', // Needs addPassthroughCopy("public") in the Eleventy config
+  },
+  {
+    name: 'Hugo',
+    configFiles: ['hugo.toml', 'hugo.yaml', 'hugo.json'],
+    markers: ['archetypes', 'layouts', 'config.toml'],
+    publicDir: 'static',
+  },
+  {
+    name: 'Create React App',
+    configFiles: [],
+    dependencies: ['react-scripts'],
+    markers: ['public/index.html'],
+    publicDir: 'public',
+  },
+  {
+    name: 'Vite',
+    configFiles: ['vite.config.js', 'vite.config.ts', 'vite.config.mjs', 'vite.config.mts', 'vite.config.cjs'],
+    dependencies: ['vite'],
     publicDir: 'public',
-    appDir: 'app' // Next.js App Router directory
+    urlConfig: { basePath: ['base'] },
   },
-  { name: 'Astro', configFiles: ['astro.config.mjs', 'astro.config.js', 'astro.config.ts'], publicDir: 'public' },
-  { name: 'SvelteKit', configFiles: ['svelte.config.js'], publicDir: 'static' },
-  { name: 'Remix', configFiles: ['remix.config.js'], publicDir: 'public' },
-  { name: 'Vite', configFiles: ['vite.config.js', 'vite.config.ts'], publicDir: 'public' },
 ];
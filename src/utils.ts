@@ -1,33 +1,97 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { FRAMEWORKS, type Framework } from './types.js';
+import { lintSourceImage, type SourceIssue } from './lint.js';
+import { FRAMEWORKS, type DesktopTool, type DetectedFramework, type DetectionConfidence, type NativeTarget } from './types.js';
+
+const CONFIDENCE_RANK: Record<DetectionConfidence, number> = { high: 3, medium: 2, low: 1 };
 
 export class FrameworkDetector {
   private cwd: string;
+  private detection: Promise<DetectedFramework | null> | null = null;
 
   constructor(cwd: string = process.cwd()) {
     this.cwd = cwd;
   }
 
-  async detect(): Promise<Framework | null> {
+  /**
+   * Detect the project's framework from config files, package.json dependencies
+   * and framework-specific files. When several match, frameworks win over the
+   * tools they are built on (SvelteKit over Vite), then higher confidence wins.
+   */
+  async detect(): Promise<DetectedFramework | null> {
+    this.detection ??= this.detectAll().then(matches => matches[0] || null);
+    return this.detection;
+  }
+
+  // Every matching framework, best match first
+  async detectAll(): Promise<DetectedFramework[]> {
+    const dependencies = await this.readDependencies();
+    const matches: DetectedFramework[] = [];
+
     for (const framework of FRAMEWORKS) {
-      for (const configFile of framework.configFiles) {
-        const configPath = path.join(this.cwd, configFile);
-        try {
-          await fs.access(configPath);
-          return framework;
-        } catch {
-          // Config file doesn't exist, continue
-        }
+      const configFiles = await this.existing(framework.configFiles);
+      const deps = (framework.dependencies || []).filter(name => dependencies.has(name));
+      const markers = await this.existing(framework.markers || []);
+
+      const strong = (configFiles.length > 0 ? 1 : 0) + (deps.length > 0 ? 1 : 0);
+      let confidence: DetectionConfidence;
+      if (strong === 2 || (strong === 1 && markers.length > 0)) {
+        confidence = 'high';
+      } else if (strong === 1) {
+        confidence = 'medium';
+      } else if (markers.length > 0 && !framework.dependencies) {
+        // Only trust bare markers for frameworks that can't show up in package.json (Hugo)
+        confidence = 'low';
+      } else {
+        continue;
       }
+
+      matches.push({
+        ...framework,
+        confidence,
+        evidence: [...configFiles, ...deps.map(name => `dependency ${name}`), ...markers],
+      });
     }
-    return null;
+
+    const underlying = new Set(matches.map(match => match.basedOn).filter(Boolean));
+    return matches
+      .filter(match => !underlying.has(match.name))
+      .sort((a, b) => CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence]); // Stable: list order breaks ties
+  }
+
+  private async readDependencies(): Promise<Set<string>> {
+    try {
+      const packageJson = JSON.parse(await fs.readFile(path.join(this.cwd, 'package.json'), 'utf-8'));
+      return new Set([
+        ...Object.keys(packageJson.dependencies || {}),
+        ...Object.keys(packageJson.devDependencies || {}),
+        ...Object.keys(packageJson.peerDependencies || {}),
+      ]);
+    } catch {
+      return new Set();
+    }
+  }
+
+  // Subset of the given project-relative paths that exist
+  private async existing(files: string[]): Promise<string[]> {
+    const found: string[] = [];
+    for (const file of files) {
+      try {
+        await fs.access(path.join(this.cwd, file));
+        found.push(file);
+      } catch {
+        // Doesn't exist, continue
+      }
+    }
+    return found;
   }
 
   async getPublicDir(): Promise<string> {
     const framework = await this.detect();
     if (framework) {
-      return path.join(this.cwd, framework.publicDir);
+      // Older layouts (Nuxt 2 static/, Angular src/) are only used when the current one is absent
+      const [dir] = await this.existing([framework.publicDir, ...(framework.altPublicDirs || [])]);
+      return path.join(this.cwd, dir || framework.publicDir);
     }
     // Default to 'public' directory if no framework detected
     return path.join(this.cwd, 'public');
@@ -59,6 +123,69 @@ export class FrameworkDetector {
     const appDir = await this.getAppDir();
     return appDir !== null;
   }
+
+  /**
+   * Where native app icons go: the Android res/ directory or the iOS asset
+   * catalog of a Capacitor or React Native project, or the icon directory of
+   * an Electron/Tauri app. Falls back to android-icons/, ios-icons/ or
+   * desktop-icons/ when there is no native project.
+   */
+  async getNativeDir(target: NativeTarget): Promise<string> {
+    if (target === 'desktop') {
+      const desktopApp = await this.detectDesktopApp();
+      return desktopApp?.iconDir || path.join(this.cwd, 'desktop-icons');
+    }
+
+    if (target === 'android') {
+      const [resDir] = await this.existing(['android/app/src/main/res']);
+      return path.join(this.cwd, resDir || 'android-icons');
+    }
+
+    // Capacitor uses ios/App/App/, React Native ios/<AppName>/
+    const [capacitorCatalog] = await this.existing(['ios/App/App/Assets.xcassets']);
+    if (capacitorCatalog) {
+      return path.join(this.cwd, capacitorCatalog);
+    }
+    try {
+      const entries = await fs.readdir(path.join(this.cwd, 'ios'), { withFileTypes: true });
+      for (const entry of entries.filter(entry => entry.isDirectory())) {
+        const [catalog] = await this.existing([`ios/${entry.name}/Images.xcassets`, `ios/${entry.name}/Assets.xcassets`]);
+        if (catalog) {
+          return path.join(this.cwd, catalog);
+        }
+      }
+    } catch {
+      // No ios/ directory
+    }
+    return path.join(this.cwd, 'ios-icons');
+  }
+
+  /**
+   * Detect an Electron (electron-builder) or Tauri app from the packager's
+   * config file, with the directory that packager reads icons from.
+   */
+  async detectDesktopApp(): Promise<{ tool: DesktopTool; iconDir: string } | null> {
+    const [tauriConfig] = await this.existing(['src-tauri/tauri.conf.json', 'src-tauri/tauri.conf.json5', 'src-tauri/Tauri.toml']);
+    if (tauriConfig) {
+      return { tool: 'tauri', iconDir: path.join(this.cwd, 'src-tauri', 'icons') };
+    }
+
+    const [builderConfig] = await this.existing([
+      'electron-builder.yml',
+      'electron-builder.yaml',
+      'electron-builder.json',
+      'electron-builder.json5',
+      'electron-builder.toml',
+    ]);
+    if (builderConfig) {
+      // directories.buildResources, "build" by default
+      const content = await fs.readFile(path.join(this.cwd, builderConfig), 'utf-8');
+      const match = /["']?buildResources["']?\s*[:=]\s*["']?([^"'\s,}]+)/.exec(content);
+      return { tool: 'electron-builder', iconDir: path.join(this.cwd, match ? match[1] : 'build') };
+    }
+
+    return null;
+  }
 }
 
 export async function findAppIcon(cwd: string = process.cwd()): Promise<string | null> {
@@ -77,7 +204,12 @@ export async function findAppIcon(cwd: string = process.cwd()): Promise<string |
   return null;
 }
 
-export async function validateSourceFile(sourcePath: string): Promise<void> {
+/**
+ * Check that a source image exists and has a supported format (throws if
+ * not), then inspect it: the returned issues are errors the icons can't be
+ * generated with and warnings about how they will come out.
+ */
+export async function validateSourceFile(sourcePath: string): Promise<SourceIssue[]> {
   try {
     await fs.access(sourcePath);
   } catch {
@@ -90,4 +222,6 @@ export async function validateSourceFile(sourcePath: string): Promise<void> {
   if (!validExtensions.includes(ext)) {
     throw new Error(`Invalid file format. Supported formats: ${validExtensions.join(', ')}`);
   }
+
+  return lintSourceImage(sourcePath);
 }
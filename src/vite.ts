@@ -0,0 +1,183 @@
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { IconGenerator } from './generator.js';
+import { findAppIcon, validateSourceFile } from './utils.js';
+import { loadProjectConfig } from './config.js';
+import { resolveGeneratorOptions } from './project.js';
+import { toStampPath } from './stamp.js';
+import type { ProjectOptions, RenderedFile } from './types.js';
+
+export interface WebIconsPluginOptions extends Omit<ProjectOptions, 'outputDir' | 'mode' | 'target' | 'preview'> {
+  source?: string; // Relative to the Vite root; default: the project config, then app-icon.svg/app-icon.png
+}
+
+// The parts of Vite's plugin API used here, so vite doesn't have to be a dependency
+interface ViteConfig {
+  root: string;
+  base: string;
+  publicDir: string; // Empty when disabled
+  command: 'build' | 'serve';
+  build: { ssr: boolean | string };
+  logger: { warn(message: string): void };
+}
+
+interface ViteDevServer {
+  middlewares: { use(handler: (req: IncomingMessage, res: ServerResponse, next: () => void) => void): void };
+  watcher: { add(file: string): void; on(event: 'change', listener: (file: string) => void): void };
+  ws: { send(payload: { type: 'full-reload' }): void };
+}
+
+interface BuildContext {
+  emitFile(file: { type: 'asset'; fileName: string; source: Uint8Array }): string;
+  addWatchFile(file: string): void;
+}
+
+interface HtmlTagDescriptor {
+  tag: string;
+  attrs: Record<string, string>;
+  injectTo: 'head';
+}
+
+export interface WebIconsPlugin {
+  name: string;
+  configResolved(config: ViteConfig): void;
+  configureServer(server: ViteDevServer): void;
+  buildStart(this: BuildContext): Promise<void>;
+  transformIndexHtml(): Promise<HtmlTagDescriptor[]>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.svg': 'image/svg+xml',
+  '.webmanifest': 'application/manifest+json',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+};
+
+/**
+ * Vite plugin that renders the icons in memory when the build or dev server
+ * starts, so they never need to be committed: `vite build` emits them into
+ * the output directory, the dev server serves them, and the link tags are
+ * added to index.html. The project config applies as for the CLI; the
+ * base path defaults to Vite's `base`.
+ */
+export function webIcons(options: WebIconsPluginOptions = {}): WebIconsPlugin {
+  let config: ViteConfig;
+  let server: ViteDevServer | null = null;
+  let watchedFiles: string[] = [];
+  let assets = new Map<string, RenderedFile>(); // Path under the base → file
+  let tags: HtmlTagDescriptor[] = [];
+  let ready: Promise<void> = Promise.resolve();
+
+  async function render(): Promise<void> {
+    const projectRoot = config.root;
+    const { config: projectConfig } = await loadProjectConfig(projectRoot);
+    const sourceArg = options.source || projectConfig.source || await findAppIcon(projectRoot);
+    if (!sourceArg) {
+      throw new Error(`[web-icons] No source image: pass "source", set "source" in the project config, or add app-icon.svg or app-icon.png to ${projectRoot}`);
+    }
+    const sourcePath = path.resolve(projectRoot, sourceArg);
+    await validateSourceFile(sourcePath);
+
+    // Nothing is written here: the directory only anchors URLs and an existing manifest to merge with
+    const outputDir = config.publicDir || path.join(projectRoot, 'public');
+    const { source, ...projectOptions } = options;
+    const { generatorOptions } = await resolveGeneratorOptions(
+      {
+        ...projectOptions,
+        outputDir,
+        mode: 'traditional',
+        target: 'web',
+        preview: false, // Served files only
+        basePath: options.basePath ?? projectConfig.basePath ?? config.base,
+      },
+      projectConfig,
+      projectRoot,
+      sourcePath
+    );
+
+    const generator = new IconGenerator(generatorOptions);
+    const files = await generator.renderFiles();
+
+    // Only what the browser loads: not the stamp or the integration guide
+    assets = new Map(
+      files
+        .filter(file => file.path.startsWith(outputDir + path.sep))
+        .map(file => [toStampPath(outputDir, file.path), file])
+    );
+    tags = generator.getHeadTags()
+      .flatMap(group => group.tags)
+      .map(({ tag, attributes }) => ({ tag, attrs: attributes, injectTo: 'head' as const }));
+    watchedFiles = [
+      sourcePath,
+      ...(generatorOptions.dark?.source ? [generatorOptions.dark.source] : []),
+      ...(generatorOptions.maskable?.source ? [generatorOptions.maskable.source] : []),
+    ];
+    for (const warning of generator.getWarnings()) {
+      config.logger.warn(`[web-icons] ${warning}`);
+    }
+  }
+
+  return {
+    name: 'web-icons',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    configureServer(devServer) {
+      server = devServer;
+
+      // Re-render when the source image changes
+      devServer.watcher.on('change', file => {
+        if (!watchedFiles.includes(path.resolve(file))) return;
+        ready = render().then(
+          () => devServer.ws.send({ type: 'full-reload' }),
+          error => config.logger.warn(`[web-icons] ${(error as Error).message}`)
+        );
+      });
+
+      devServer.middlewares.use((req, res, next) => {
+        const url = decodeURIComponent((req.url || '').split(/[?#]/)[0]);
+        const base = config.base.endsWith('/') ? config.base : `${config.base}/`;
+        const relative = url.startsWith(base) ? url.slice(base.length) : url.replace(/^\//, '');
+
+        ready.then(() => {
+          const file = assets.get(relative);
+          if (!file) {
+            next();
+            return;
+          }
+          res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file.path)] || 'application/octet-stream');
+          res.setHeader('Cache-Control', 'no-cache');
+          res.end(file.data);
+        }, () => next());
+      });
+    },
+
+    async buildStart() {
+      ready = render();
+      await ready;
+
+      for (const file of watchedFiles) {
+        this.addWatchFile(file);
+        server?.watcher.add(file);
+      }
+
+      // Client builds only: an SSR bundle doesn't serve static files
+      if (config.command === 'build' && !config.build.ssr) {
+        for (const [fileName, file] of assets) {
+          this.emitFile({ type: 'asset', fileName, source: file.data });
+        }
+      }
+    },
+
+    async transformIndexHtml() {
+      await ready;
+      return tags;
+    },
+  };
+}
+
+export default webIcons;
@@ -0,0 +1,79 @@
+import { watch, type FSWatcher } from 'fs';
+import path from 'path';
+
+/**
+ * Watch a set of files and report changes once per burst of events (editors
+ * often write a file several times per save). The directories are watched
+ * rather than the files, so saves that replace the file through a rename
+ * keep being picked up, and so do files that don't exist yet.
+ */
+export class FileWatcher {
+  private onChange: (files: string[]) => void;
+  private debounceMs: number;
+  private files = new Set<string>();
+  private watchers = new Map<string, FSWatcher>();
+  private changed = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(onChange: (files: string[]) => void, debounceMs = 200) {
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+  }
+
+  // Replace the watched files, e.g. after the config points at another source
+  setFiles(files: string[]): void {
+    this.files = new Set(files.map(file => path.resolve(file)));
+    const dirs = new Set([...this.files].map(file => path.dirname(file)));
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+
+    for (const dir of dirs) {
+      if (this.watchers.has(dir)) continue;
+      try {
+        const watcher = watch(dir, (_event, filename) => {
+          const file = filename ? path.join(dir, filename.toString()) : null;
+          if (file && this.files.has(file)) {
+            this.schedule(file);
+          }
+        });
+        // A directory that disappears just stops reporting
+        watcher.on('error', () => {
+          watcher.close();
+          this.watchers.delete(dir);
+        });
+        this.watchers.set(dir, watcher);
+      } catch {
+        // Directory doesn't exist (yet); picked up on the next setFiles()
+      }
+    }
+  }
+
+  close(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(file: string): void {
+    this.changed.add(file);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const files = [...this.changed];
+      this.changed.clear();
+      this.onChange(files);
+    }, this.debounceMs);
+  }
+}
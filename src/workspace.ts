@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FrameworkDetector } from './utils.js';
+import type { DetectedFramework } from './types.js';
+
+export interface Workspace {
+  name: string; // package.json/project.json name, or the directory name
+  dir: string;
+  relativeDir: string; // Relative to the monorepo root, with forward slashes
+  framework: DetectedFramework | null; // Workspaces without a framework are treated as libraries
+}
+
+// Directories never searched for workspaces
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'build', 'out', 'coverage']);
+const MAX_DEPTH = 5;
+
+/**
+ * Find the packages of a monorepo rooted at `root`, from pnpm-workspace.yaml,
+ * package.json "workspaces" (npm, Yarn, Bun) or a Turborepo/Nx layout.
+ * Returns an empty list when `root` is not a monorepo root.
+ */
+export async function findWorkspaces(root: string): Promise<Workspace[]> {
+  const patterns = await readWorkspacePatterns(root);
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  const include = patterns.filter(pattern => !pattern.startsWith('!')).map(globToRegExp);
+  const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(pattern.slice(1)));
+
+  // Only walk below the literal part of each pattern ("apps" for "apps/*")
+  const bases = new Set(patterns.filter(pattern => !pattern.startsWith('!')).map(literalPrefix));
+  const candidates = new Set<string>();
+  for (const base of bases) {
+    for (const dir of await findPackageDirs(root, base)) candidates.add(dir);
+  }
+
+  const workspaces: Workspace[] = [];
+  for (const relativeDir of candidates) {
+    if (!include.some(regex => regex.test(relativeDir)) || exclude.some(regex => regex.test(relativeDir))) {
+      continue;
+    }
+
+    const dir = path.join(root, relativeDir);
+    workspaces.push({
+      name: await readPackageName(dir) || path.basename(dir),
+      dir,
+      relativeDir,
+      framework: await new FrameworkDetector(dir).detect(),
+    });
+  }
+
+  return workspaces.sort((a, b) => a.relativeDir.localeCompare(b.relativeDir));
+}
+
+/**
+ * Workspace globs for the monorepo at `root`. Turborepo and Nx use the package
+ * manager's workspaces; without them they fall back to their default layouts.
+ */
+export async function readWorkspacePatterns(root: string): Promise<string[]> {
+  const pnpmWorkspace = await readText(path.join(root, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace !== null) {
+    const packages = parseYamlList(pnpmWorkspace, 'packages');
+    if (packages.length > 0) return packages;
+  }
+
+  const packageJson = await readJSON(path.join(root, 'package.json'));
+  // npm/Bun use an array; Yarn classic also allows { "packages": [...], "nohoist": [...] }
+  const workspaces = Array.isArray(packageJson?.workspaces)
+    ? packageJson.workspaces
+    : (packageJson?.workspaces as Record<string, unknown> | undefined)?.packages;
+  if (Array.isArray(workspaces) && workspaces.length > 0) {
+    return workspaces.filter((pattern): pattern is string => typeof pattern === 'string');
+  }
+
+  const nx = await readJSON(path.join(root, 'nx.json'));
+  if (nx) {
+    const layout = (nx.workspaceLayout || {}) as { appsDir?: string; libsDir?: string };
+    return [`${layout.appsDir || 'apps'}/*`, `${layout.libsDir || 'libs'}/*`];
+  }
+
+  if (await readText(path.join(root, 'turbo.json')) !== null) {
+    return ['apps/*', 'packages/*'];
+  }
+
+  return [];
+}
+
+/**
+ * Pick workspaces by package name or directory ("web", "@acme/web", "apps/web").
+ * Without selectors, every workspace with a detected framework is selected.
+ */
+export function selectWorkspaces(workspaces: Workspace[], selectors: string[] = []): Workspace[] {
+  if (selectors.length === 0) {
+    return workspaces.filter(workspace => workspace.framework);
+  }
+
+  return selectors.map(selector => {
+    const normalized = selector.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+    const match = workspaces.find(workspace =>
+      workspace.name === normalized ||
+      workspace.relativeDir === normalized ||
+      workspace.name.replace(/^@[^/]+\//, '') === normalized ||
+      path.basename(workspace.dir) === normalized
+    );
+    if (!match) {
+      const available = workspaces.map(workspace => workspace.name).join(', ');
+      throw new Error(`Unknown workspace "${selector}". Available: ${available || 'none'}`);
+    }
+    return match;
+  });
+}
+
+/**
+ * Render rows as a plain-text table with padded columns.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] || '').length))
+  );
+  const line = (cells: string[]) => cells.map((cell, column) => (cell || '').padEnd(widths[column])).join('  ').trimEnd();
+
+  return [line(headers), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+// Relative paths of directories with a package.json or Nx project.json
+async function findPackageDirs(root: string, relativeDir = '', depth = 0): Promise<string[]> {
+  if (depth > MAX_DEPTH) {
+    return [];
+  }
+
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const found: string[] = [];
+  if (relativeDir && entries.some(entry => entry.isFile() && (entry.name === 'package.json' || entry.name === 'project.json'))) {
+    found.push(relativeDir);
+  }
+
+  for (const entry of entries) {
+    if (entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name)) {
+      found.push(...await findPackageDirs(root, relativeDir ? `${relativeDir}/${entry.name}` : entry.name, depth + 1));
+    }
+  }
+  return found;
+}
+
+function literalPrefix(pattern: string): string {
+  const segments = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+  const globIndex = segments.findIndex(segment => /[*?[{]/.test(segment));
+  return (globIndex === -1 ? segments : segments.slice(0, globIndex)).join('/');
+}
+
+// "apps/*" → /^apps\/[^/]*$/, "packages/**" → any depth below packages/
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  let source = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      source += normalized[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += normalized[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Items of a top-level YAML list, in block ("- item") or flow ("[a, b]") style
+function parseYamlList(yaml: string, key: string): string[] {
+  const lines = yaml.split(/\r?\n/);
+  const start = lines.findIndex(line => new RegExp(`^${key}\\s*:`).test(line));
+  if (start === -1) {
+    return [];
+  }
+
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  const stripComment = (value: string) => value.replace(/\s+#.*$/, '');
+
+  const inline = stripComment(lines[start].slice(lines[start].indexOf(':') + 1)).trim();
+  if (inline.startsWith('[')) {
+    return inline.replace(/^\[|\]$/g, '').split(',').map(unquote).filter(Boolean);
+  }
+
+  const items: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break; // Next top-level key
+    const match = /^\s*-\s*(.+)$/.exec(stripComment(line));
+    if (match) items.push(unquote(match[1]));
+  }
+  return items;
+}
+
+async function readPackageName(dir: string): Promise<string | undefined> {
+  for (const filename of ['package.json', 'project.json']) {
+    const json = await readJSON(path.join(dir, filename));
+    if (typeof json?.name === 'string' && json.name) {
+      return json.name;
+    }
+  }
+  return undefined;
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// Parsed JSON object, or null when missing or invalid
+async function readJSON(filePath: string): Promise<Record<string, unknown> | null> {
+  const content = await readText(filePath);
+  if (content === null) return null;
+  try {
+    const json = JSON.parse(content);
+    return json && typeof json === 'object' ? json : null;
+  } catch {
+    return null;
+  }
+}
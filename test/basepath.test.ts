@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { normalizePrefix, readFrameworkUrlPrefix, resolveUrlPrefix, toAssetUrl } from '../src/basepath.js';
+import { FRAMEWORKS, type DetectedFramework } from '../src/types.js';
+
+const framework = (name: string): DetectedFramework => ({
+  ...FRAMEWORKS.find(candidate => candidate.name === name)!,
+  confidence: 'high',
+  evidence: [],
+});
+
+// A throwaway project with one framework config file
+async function readPrefix(t: { after(fn: () => Promise<void>): void }, name: string, file: string, source: string) {
+  const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-basepath-'));
+  t.after(() => fs.rm(projectRoot, { recursive: true, force: true }));
+  await fs.writeFile(path.join(projectRoot, file), source);
+  return readFrameworkUrlPrefix(projectRoot, framework(name));
+}
+
+test('normalizes prefixes to a leading slash and no trailing one', () => {
+  assert.equal(normalizePrefix('docs/'), '/docs');
+  assert.equal(normalizePrefix('/docs//'), '/docs');
+  assert.equal(normalizePrefix(' /app/v2 '), '/app/v2');
+  assert.equal(normalizePrefix('./docs/'), '/docs');
+  assert.equal(normalizePrefix('/'), '');
+  assert.equal(normalizePrefix('./'), '');
+  assert.equal(normalizePrefix(''), '');
+});
+
+test('keeps absolute and protocol-relative URLs as they are', () => {
+  assert.equal(normalizePrefix('https://cdn.example.com/'), 'https://cdn.example.com');
+  assert.equal(normalizePrefix('https://cdn.example.com/assets'), 'https://cdn.example.com/assets');
+  assert.equal(normalizePrefix('//cdn.example.com/'), '//cdn.example.com');
+  assert.equal(toAssetUrl({ basePath: '/docs', assetPrefix: 'https://cdn.example.com/' }, 'icon.svg'), 'https://cdn.example.com/icon.svg');
+  assert.equal(toAssetUrl({ basePath: 'docs/' }, 'icon.svg'), '/docs/icon.svg');
+  assert.equal(toAssetUrl({}, 'icon.svg'), '/icon.svg');
+});
+
+test('reads basePath and assetPrefix from the Next.js config', async (t) => {
+  assert.deepEqual(
+    await readPrefix(t, 'Next.js', 'next.config.mjs', `
+      const nextConfig = { basePath: '/docs', assetPrefix: \`https://cdn.example.com\` };
+      export default nextConfig;
+    `),
+    { basePath: '/docs', assetPrefix: 'https://cdn.example.com' }
+  );
+  // Computed at build time, so unknown here
+  assert.deepEqual(
+    await readPrefix(t, 'Next.js', 'next.config.js', 'module.exports = { basePath: process.env.BASE_PATH };'),
+    { basePath: undefined, assetPrefix: undefined }
+  );
+});
+
+test('reads base from the Vite and Astro configs', async (t) => {
+  assert.deepEqual(
+    await readPrefix(t, 'Vite', 'vite.config.ts', `
+      import { defineConfig } from 'vite';
+      export default defineConfig(({ command }) => ({ base: '/app/' }));
+    `),
+    { basePath: '/app/' }
+  );
+  assert.deepEqual(
+    await readPrefix(t, 'Astro', 'astro.config.mjs', `
+      import { defineConfig } from 'astro/config';
+      export default defineConfig({ site: 'https://example.com', base: '/blog' });
+    `),
+    { basePath: '/blog' }
+  );
+});
+
+test('reads kit.paths from the SvelteKit config', async (t) => {
+  assert.deepEqual(
+    await readPrefix(t, 'SvelteKit', 'svelte.config.js', `
+      /** @type {import('@sveltejs/kit').Config} */
+      const config = { kit: { paths: { base: '/shop', assets: 'https://cdn.example.com' } } };
+      export default config;
+    `),
+    { basePath: '/shop', assetPrefix: 'https://cdn.example.com' }
+  );
+});
+
+test('reads app.baseURL and app.cdnURL from the Nuxt config', async (t) => {
+  assert.deepEqual(
+    await readPrefix(t, 'Nuxt', 'nuxt.config.ts', `
+      export default defineNuxtConfig({ app: { baseURL: '/portal/' } });
+    `),
+    { basePath: '/portal/', assetPrefix: undefined }
+  );
+});
+
+test('prefers explicit options and the project config over the framework config', async (t) => {
+  const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-basepath-'));
+  t.after(() => fs.rm(projectRoot, { recursive: true, force: true }));
+  await fs.writeFile(path.join(projectRoot, 'vite.config.ts'), "export default { base: '/from-vite/' };");
+
+  assert.deepEqual(await resolveUrlPrefix(projectRoot, framework('Vite'), {}, {}), { basePath: '/from-vite/' });
+  assert.deepEqual(await resolveUrlPrefix(projectRoot, framework('Vite'), { basePath: '/from-config' }, {}), { basePath: '/from-config', assetPrefix: undefined });
+  assert.deepEqual(await resolveUrlPrefix(projectRoot, framework('Vite'), { basePath: '/from-config' }, { basePath: '' }), { basePath: '', assetPrefix: undefined });
+  assert.deepEqual(await resolveUrlPrefix(projectRoot, null, {}, {}), {});
+});
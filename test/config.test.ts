@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MaskableOptionsSchema, resolveIconConfigs } from '../src/config.js';
+import { ICON_CONFIGS } from '../src/types.js';
+
+const filenames = (configs: { filename: string }[]) => configs.map(config => config.filename);
+
+test('uses the default icon set without an icons config', () => {
+  assert.equal(resolveIconConfigs(undefined), ICON_CONFIGS);
+});
+
+test('removes, adds and replaces icons by filename', () => {
+  const resolved = resolveIconConfigs({
+    remove: ['apple-touch-icon.png'],
+    add: [
+      { filename: 'icon-1024.png', size: 1024, format: 'png', manifest: true },
+      { filename: 'icon-192.png', size: 192, format: 'png' },
+    ],
+  });
+
+  const names = filenames(resolved);
+  assert.ok(!names.includes('apple-touch-icon.png'));
+  assert.ok(names.includes('icon-1024.png'));
+  // An added icon with a default's filename replaces it rather than duplicating it
+  assert.equal(names.filter(name => name === 'icon-192.png').length, 1);
+  assert.equal(resolved.find(config => config.filename === 'icon-192.png')?.manifest, undefined);
+});
+
+test('renames icons but keeps their original name as the id', () => {
+  const resolved = resolveIconConfigs({ rename: { 'favicon.ico': 'favicon-v2.ico' } });
+  const favicon = resolved.find(config => config.id === 'favicon.ico');
+
+  assert.equal(favicon?.filename, 'favicon-v2.ico');
+  assert.ok(!filenames(resolved).includes('favicon.ico'));
+});
+
+test('rejects two icons with the same filename', () => {
+  assert.throws(
+    () => resolveIconConfigs({ rename: { 'icon-192.png': 'icon-512.png' } }),
+    /Duplicate icon filename in config: icon-512.png/
+  );
+});
+
+test('rejects a maskable safe zone outside 10 to 100 percent', () => {
+  assert.ok(MaskableOptionsSchema.safeParse({ safeZone: 10 }).success);
+  assert.ok(MaskableOptionsSchema.safeParse({ safeZone: 100 }).success);
+  assert.ok(!MaskableOptionsSchema.safeParse({ safeZone: 9 }).success);
+  assert.ok(!MaskableOptionsSchema.safeParse({ safeZone: 101 }).success);
+});
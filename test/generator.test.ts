@@ -0,0 +1,209 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { IconGenerator } from '../src/generator.js';
+import type { GeneratorOptions } from '../src/types.js';
+
+// A throwaway project with a transparent 512px source, as SVG or PNG
+async function createProject(t: { after(fn: () => Promise<void>): void }, format: 'svg' | 'png' = 'svg'): Promise<GeneratorOptions> {
+  const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-generator-'));
+  t.after(() => fs.rm(projectRoot, { recursive: true, force: true }));
+
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512" width="512" height="512"><circle cx="256" cy="256" r="200" fill="#2563eb"/></svg>';
+  const sourcePath = path.join(projectRoot, `app-icon.${format}`);
+  await fs.writeFile(sourcePath, format === 'svg' ? svg : await sharp(Buffer.from(svg)).png().toBuffer());
+  return { sourcePath, outputDir: path.join(projectRoot, 'public'), projectRoot, mode: 'traditional' };
+}
+
+const hrefs = (generator: IconGenerator) =>
+  generator.getHeadTags().flatMap(group => group.tags).map(tag => tag.attributes.href).filter(Boolean);
+
+test('links icon.svg only for SVG sources', async (t) => {
+  const svgGenerator = new IconGenerator(await createProject(t, 'svg'));
+  await svgGenerator.renderFiles();
+  assert.ok(hrefs(svgGenerator).includes('/icon.svg'));
+  assert.match(svgGenerator.getHTMLSnippet(), /<link rel="icon" href="\/icon.svg" type="image\/svg\+xml">/);
+
+  const pngGenerator = new IconGenerator(await createProject(t, 'png'));
+  await pngGenerator.renderFiles();
+  assert.ok(!hrefs(pngGenerator).includes('/icon.svg'));
+  assert.doesNotMatch(pngGenerator.getHTMLSnippet(), /icon\.svg/);
+});
+
+test('links the files as generated: hashed, renamed, removed and under the existing manifest name', async (t) => {
+  const options = await createProject(t, 'svg');
+  await fs.mkdir(options.outputDir, { recursive: true });
+  await fs.writeFile(path.join(options.outputDir, 'manifest.json'), '{ "name": "App" }\n');
+
+  const generator = new IconGenerator({
+    ...options,
+    hash: true,
+    icons: [
+      { filename: 'favicon-v2.ico', id: 'favicon.ico', size: 48, format: 'ico' },
+      { filename: 'icon-192.png', size: 192, format: 'png', manifest: true },
+    ],
+  });
+  await generator.renderFiles();
+  const links = hrefs(generator);
+
+  assert.ok(links.includes('/favicon-v2.ico'));
+  assert.ok(!links.includes('/apple-touch-icon.png'));
+  assert.ok(links.includes('/manifest.json'));
+  assert.ok(links.some(href => /^\/icon\.[0-9a-f]+\.svg$/.test(href)));
+});
+
+test('has no head tags in Next.js mode, which links app/ itself', async (t) => {
+  const options = await createProject(t, 'svg');
+  const generator = new IconGenerator({ ...options, outputDir: path.join(options.projectRoot!, 'app'), mode: 'nextjs' });
+  await generator.renderFiles();
+  assert.deepEqual(generator.getHeadTags(), []);
+});
+
+const listIcons = async (dir: string) => (await fs.readdir(dir)).filter(file => file.startsWith('icon-192')).sort();
+
+test('hashes filenames, maps them in web-icons.assets.json and links the hashed names', async (t) => {
+  const options = await createProject(t);
+  const generator = new IconGenerator({ ...options, hash: true });
+  await generator.generate();
+
+  const assets = JSON.parse(await fs.readFile(path.join(options.outputDir, 'web-icons.assets.json'), 'utf-8'));
+  assert.match(assets['icon-192.png'], /^icon-192\.[0-9a-f]+\.png$/);
+  // Browsers request these by their well-known names
+  assert.equal(assets['favicon.ico'], 'favicon.ico');
+  assert.equal(assets['apple-touch-icon.png'], 'apple-touch-icon.png');
+
+  assert.deepEqual(await listIcons(options.outputDir), [assets['icon-192.png']]);
+  assert.match(assets['icon.svg'], /^icon\.[0-9a-f]+\.svg$/);
+  assert.ok(generator.getHTMLSnippet().includes(`href="/${assets['icon.svg']}"`));
+});
+
+test('removes hashed files of earlier runs, and the asset map once hashing is off', async (t) => {
+  const options = await createProject(t);
+  await new IconGenerator({ ...options, hash: true }).generate();
+  const first = await listIcons(options.outputDir);
+
+  // A different image, so every hash changes
+  const sourcePath = path.join(options.projectRoot!, 'app-icon-red.svg');
+  await fs.writeFile(sourcePath, (await fs.readFile(options.sourcePath, 'utf-8')).replace('#2563eb', '#dc2626'));
+  await new IconGenerator({ ...options, sourcePath, hash: true }).generate();
+  const second = await listIcons(options.outputDir);
+  assert.equal(second.length, 1);
+  assert.notDeepEqual(second, first);
+
+  await new IconGenerator(options).generate();
+  assert.deepEqual(await listIcons(options.outputDir), ['icon-192.png']);
+  await assert.rejects(fs.access(path.join(options.outputDir, 'web-icons.assets.json')));
+});
+
+test('removes the unhashed files of earlier runs once hashing is on', async (t) => {
+  const options = await createProject(t);
+  await new IconGenerator(options).generate();
+  assert.deepEqual(await listIcons(options.outputDir), ['icon-192.png']);
+
+  await new IconGenerator({ ...options, hash: true }).generate();
+  const assets = JSON.parse(await fs.readFile(path.join(options.outputDir, 'web-icons.assets.json'), 'utf-8'));
+  assert.deepEqual(await listIcons(options.outputDir), [assets['icon-192.png']]);
+  await assert.rejects(fs.access(path.join(options.outputDir, 'icon.svg')));
+  // Requested by name, so never fingerprinted or removed
+  await fs.access(path.join(options.outputDir, 'favicon.ico'));
+});
+
+test('writes the stamp to the project root, not among the icons', async (t) => {
+  const options = await createProject(t);
+  const generator = new IconGenerator(options);
+  await generator.generate();
+
+  assert.equal(generator.getStampPath(), path.join(options.projectRoot!, '.web-icons-stamp.json'));
+  await assert.rejects(fs.access(path.join(options.outputDir, '.web-icons-stamp.json')));
+  assert.equal((await new IconGenerator(options).check()).upToDate, true);
+});
+
+test('reports a changed source and a modified file', async (t) => {
+  const options = await createProject(t);
+  await new IconGenerator(options).generate();
+
+  await fs.writeFile(path.join(options.outputDir, 'icon-192.png'), 'edited');
+  await fs.writeFile(options.sourcePath, (await fs.readFile(options.sourcePath, 'utf-8')).replace('#2563eb', '#dc2626'));
+  const result = await new IconGenerator(options).check();
+
+  assert.equal(result.upToDate, false);
+  assert.equal(result.sourceChanged, true);
+  assert.deepEqual(result.modifiedFiles, ['public/icon-192.png']);
+});
+
+test('escapes quotes in browserconfig.xml URLs', async (t) => {
+  const options = await createProject(t, 'svg');
+  const generator = new IconGenerator({ ...options, tiles: {}, assetPrefix: 'https://cdn.example.com/a"b' });
+  const files = await generator.renderFiles();
+  const browserConfig = files.find(file => file.path.endsWith('browserconfig.xml'))!.data.toString();
+
+  assert.match(browserConfig, /src="https:\/\/cdn\.example\.com\/a&quot;b\/mstile-150x150\.png"/);
+});
+
+test('rejects a social image text color that is not a hex color', async (t) => {
+  const options = await createProject(t, 'svg');
+  const generator = new IconGenerator({ ...options, og: { textColor: '#fff" onload="alert(1)' } });
+  await assert.rejects(generator.renderFiles(), /Invalid hex color/);
+});
+
+test('reads the head tags of generated icons without rendering them', async (t) => {
+  const options = { ...await createProject(t, 'svg'), hash: true };
+  const generator = new IconGenerator(options);
+  await generator.generate();
+
+  assert.deepEqual(await new IconGenerator(options).readHeadTags(), generator.getHeadTags());
+  // Without a source, icon.svg is linked because it was generated
+  assert.deepEqual(await new IconGenerator({ ...options, sourcePath: '' }).readHeadTags(), generator.getHeadTags());
+
+  const pngOptions = await createProject(t, 'png');
+  await new IconGenerator(pngOptions).generate();
+  assert.ok(!(await new IconGenerator({ ...pngOptions, sourcePath: '' }).readHeadTags())
+    .some(group => group.tags.some(tag => tag.attributes.href === '/icon.svg')));
+});
+
+test('lists the configured favicon.ico sizes', async (t) => {
+  const options = await createProject(t, 'svg');
+  assert.equal(new IconGenerator(options).getFaviconSizes(), '16, 32, 48');
+
+  const generator = new IconGenerator({
+    ...options,
+    outputDir: path.join(options.projectRoot!, 'app'),
+    mode: 'nextjs',
+    icons: [{ filename: 'favicon.ico', size: 64, format: 'ico', icoSizes: [64, 16] }],
+  });
+  await generator.renderFiles();
+  assert.equal(generator.getFaviconSizes(), '16, 64');
+  assert.match(generator.getHTMLSnippet(), /- favicon\.ico \(16, 64\)/);
+});
+
+test('rejects a maskable safe zone outside 10 to 100 percent', async (t) => {
+  const options = await createProject(t);
+  for (const safeZone of [5, 120]) {
+    await assert.rejects(
+      new IconGenerator({ ...options, maskable: { safeZone } }).renderFiles(),
+      new RegExp(`Invalid maskable safe zone: ${safeZone} \\(expected a percentage from 10 to 100\\)`)
+    );
+  }
+});
+
+test('pads the maskable icon to the safe zone on an opaque background', async (t) => {
+  const options = await createProject(t);
+  const sourcePath = path.join(options.projectRoot!, 'app-icon-square.png');
+  await fs.writeFile(sourcePath, await sharp({ create: { width: 512, height: 512, channels: 4, background: '#ff0000' } }).png().toBuffer());
+
+  const files = await new IconGenerator({ ...options, sourcePath, maskable: { safeZone: 50, background: '#000000' } }).renderFiles();
+  const icon = files.find(file => file.path === path.join(options.outputDir, 'icon-maskable.png'))!;
+  const { data, info } = await sharp(icon.data).raw().toBuffer({ resolveWithObject: true });
+  const pixel = (x: number, y: number) => [...data.subarray((y * info.width + x) * info.channels, (y * info.width + x) * info.channels + 3)];
+
+  assert.equal(info.channels, 3); // No alpha: launchers crop it, they don't see through it
+  // 50% of 512: the artwork spans 128 to 384
+  assert.deepEqual(pixel(0, 0), [0, 0, 0]);
+  assert.deepEqual(pixel(120, 256), [0, 0, 0]);
+  assert.deepEqual(pixel(136, 256), [255, 0, 0]);
+  assert.deepEqual(pixel(256, 256), [255, 0, 0]);
+  assert.deepEqual(pixel(256, 392), [0, 0, 0]);
+});
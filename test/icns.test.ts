@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeIcns } from '../src/icns.js';
+
+test('writes the icns header and one typed entry per image, smallest first', () => {
+  const images = [1024, 128, 512, 256].map(size => ({ size, data: Buffer.alloc(size / 64, size / 128) }));
+  const icns = encodeIcns(images);
+
+  assert.equal(icns.toString('ascii', 0, 4), 'icns');
+  assert.equal(icns.readUInt32BE(4), icns.length);
+
+  const entries: { type: string; data: Buffer }[] = [];
+  for (let offset = 8; offset < icns.length;) {
+    const length = icns.readUInt32BE(offset + 4);
+    entries.push({ type: icns.toString('ascii', offset, offset + 4), data: icns.subarray(offset + 8, offset + length) });
+    offset += length;
+  }
+
+  assert.deepEqual(entries.map(entry => entry.type), ['ic07', 'ic08', 'ic09', 'ic10']);
+  assert.deepEqual(entries.map(entry => entry.data.length), [2, 4, 8, 16]);
+  assert.deepEqual(entries[3].data, Buffer.alloc(16, 8));
+});
+
+test('rejects an empty image list and sizes without an entry type', () => {
+  assert.throws(() => encodeIcns([]), /without images/);
+  assert.throws(() => encodeIcns([{ size: 64, data: Buffer.alloc(1) }]), /Invalid ICNS image size 64/);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeIco } from '../src/ico.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Solid RGBA pixels, with the top-left one fully transparent
+function rgba(size: number): Buffer {
+  const data = Buffer.alloc(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    data.set([10, 20, 30, i === 0 ? 0 : 255], i * 4);
+  }
+  return data;
+}
+
+test('writes the ICONDIR header and one entry per image, smallest first', () => {
+  const png = Buffer.concat([PNG_SIGNATURE, Buffer.alloc(24)]);
+  const ico = encodeIco([
+    { size: 256, payload: 'png', data: png },
+    { size: 16, payload: 'bmp', data: rgba(16) },
+    { size: 32, payload: 'bmp', data: rgba(32) },
+  ]);
+
+  assert.equal(ico.readUInt16LE(0), 0);
+  assert.equal(ico.readUInt16LE(2), 1);
+  assert.equal(ico.readUInt16LE(4), 3);
+
+  const entries = [0, 1, 2].map(index => {
+    const entry = 6 + index * 16;
+    return {
+      width: ico.readUInt8(entry),
+      height: ico.readUInt8(entry + 1),
+      planes: ico.readUInt16LE(entry + 4),
+      bitCount: ico.readUInt16LE(entry + 6),
+      length: ico.readUInt32LE(entry + 8),
+      offset: ico.readUInt32LE(entry + 12),
+    };
+  });
+
+  // 256 is stored as 0
+  assert.deepEqual(entries.map(entry => [entry.width, entry.height]), [[16, 16], [32, 32], [0, 0]]);
+  assert.ok(entries.every(entry => entry.planes === 1 && entry.bitCount === 32));
+
+  // Payloads follow the directory back to back and fill the file
+  assert.equal(entries[0].offset, 6 + 3 * 16);
+  assert.equal(entries[1].offset, entries[0].offset + entries[0].length);
+  assert.equal(entries[2].offset, entries[1].offset + entries[1].length);
+  assert.equal(entries[2].offset + entries[2].length, ico.length);
+
+  // PNG payloads are embedded as-is
+  assert.deepEqual(ico.subarray(entries[2].offset), png);
+});
+
+test('writes BMP payloads as bottom-up BGRA with an AND mask', () => {
+  const size = 16;
+  const ico = encodeIco([{ size, payload: 'bmp', data: rgba(size) }]);
+  const bmp = ico.subarray(ico.readUInt32LE(6 + 12));
+
+  assert.equal(bmp.readUInt32LE(0), 40);
+  assert.equal(bmp.readInt32LE(4), size);
+  assert.equal(bmp.readInt32LE(8), size * 2); // XOR and AND masks
+  assert.equal(bmp.readUInt16LE(14), 32);
+
+  const andRowSize = 4; // 16 pixels at 1 bpp, padded to 32 bits
+  assert.equal(bmp.length, 40 + size * size * 4 + size * andRowSize);
+
+  // The top-left source pixel is in the last stored row
+  const topLeft = 40 + (size - 1) * size * 4;
+  assert.deepEqual([...bmp.subarray(topLeft, topLeft + 4)], [30, 20, 10, 0]);
+  assert.deepEqual([...bmp.subarray(40, 44)], [30, 20, 10, 255]);
+
+  const andMask = 40 + size * size * 4;
+  assert.equal(bmp[andMask + (size - 1) * andRowSize], 0x80);
+  assert.equal(bmp[andMask], 0);
+});
+
+test('rejects an empty image list and sizes outside 1-256', () => {
+  assert.throws(() => encodeIco([]), /without images/);
+  assert.throws(() => encodeIco([{ size: 512, payload: 'png', data: PNG_SIGNATURE }]), /Invalid ICO image size 512/);
+  assert.throws(() => encodeIco([{ size: 16, payload: 'bmp', data: Buffer.alloc(4) }]), /Expected 1024 bytes/);
+});
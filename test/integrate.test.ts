@@ -0,0 +1,247 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { integrateHeadTags, type HeadTagGroup } from '../src/integrate.js';
+
+const groups: HeadTagGroup[] = [
+  { comment: 'Favicon', tags: [{ tag: 'link', attributes: { rel: 'icon', href: '/favicon.ico', sizes: 'any' } }] },
+  { comment: 'Windows Tiles', tags: [{ tag: 'meta', attributes: { name: 'msapplication-TileColor', content: '#da532c' } }] },
+];
+
+// Each strategy on a file without icon tags: the expected result, which a second run must leave alone
+const cases: { file: string; source: string; expected: string }[] = [
+  {
+    file: 'index.html',
+    source: '<!doctype html>\n<html>\n<head>\n  <title>x</title>\n  <link rel="icon" href="/old.ico">\n</head>\n</html>\n',
+    expected: `<!doctype html>
+<html>
+<head>
+  <title>x</title>
+  <!-- web-icons:start -->
+  <!-- Favicon -->
+  <link rel="icon" href="/favicon.ico" sizes="any">
+
+  <!-- Windows Tiles -->
+  <meta name="msapplication-TileColor" content="#da532c">
+  <!-- web-icons:end -->
+</head>
+</html>
+`,
+  },
+  {
+    file: 'src/layouts/Layout.astro',
+    source: '---\nconst { title } = Astro.props;\n---\n<html>\n  <head>\n    <title>{title}</title>\n  </head>\n</html>\n',
+    expected: `---
+const { title } = Astro.props;
+---
+<html>
+  <head>
+    <!-- web-icons:start -->
+    <!-- Favicon -->
+    <link rel="icon" href="/favicon.ico" sizes="any" />
+
+    <!-- Windows Tiles -->
+    <meta name="msapplication-TileColor" content="#da532c" />
+    <!-- web-icons:end -->
+
+    <title>{title}</title>
+  </head>
+</html>
+`,
+  },
+  {
+    file: 'src/routes/+layout.svelte',
+    source: '<script>\n  let { children } = $props();\n</script>\n\n{@render children()}\n',
+    expected: `<script>
+  let { children } = $props();
+</script>
+
+<svelte:head>
+  <!-- web-icons:start -->
+  <!-- Favicon -->
+  <link rel="icon" href="/favicon.ico" sizes="any" />
+
+  <!-- Windows Tiles -->
+  <meta name="msapplication-TileColor" content="#da532c" />
+  <!-- web-icons:end -->
+</svelte:head>
+
+{@render children()}
+`,
+  },
+  {
+    file: 'app/layout.tsx',
+    source: 'export default function RootLayout({ children }: { children: React.ReactNode }) {\n  return <html><body>{children}</body></html>;\n}\n',
+    expected: `import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  // web-icons:start
+  icons: {
+    icon: {
+      url: '/favicon.ico',
+      sizes: 'any',
+    },
+  },
+  other: {
+    'msapplication-TileColor': '#da532c',
+  },
+  // web-icons:end
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return <html><body>{children}</body></html>;
+}
+`,
+  },
+  {
+    file: 'pages/_document.tsx',
+    source: "import { Html, Head, Main, NextScript } from 'next/document';\n\nexport default function Document() {\n  return (\n    <Html>\n      <Head />\n      <body>\n        <Main />\n        <NextScript />\n      </body>\n    </Html>\n  );\n}\n",
+    expected: `import { Html, Head, Main, NextScript } from 'next/document';
+
+export default function Document() {
+  return (
+    <Html>
+      <Head>
+        {/* web-icons:start */}
+        <link rel="icon" href="/favicon.ico" sizes="any" />
+        <meta name="msapplication-TileColor" content="#da532c" />
+        {/* web-icons:end */}
+      </Head>
+      <body>
+        <Main />
+        <NextScript />
+      </body>
+    </Html>
+  );
+}
+`,
+  },
+  {
+    file: 'app/root.tsx',
+    source: "import { Outlet } from '@remix-run/react';\n\nexport default function App() {\n  return <Outlet />;\n}\n",
+    expected: `import { Outlet } from '@remix-run/react';
+
+export const links = () => [
+  // web-icons:start
+  {
+    rel: 'icon',
+    href: '/favicon.ico',
+    sizes: 'any',
+  },
+  // web-icons:end
+];
+
+export const meta = () => [
+  // web-icons:start
+  {
+    name: 'msapplication-TileColor',
+    content: '#da532c',
+  },
+  // web-icons:end
+];
+
+export default function App() {
+  return <Outlet />;
+}
+`,
+  },
+  {
+    file: 'nuxt.config.ts',
+    source: 'export default defineNuxtConfig({\n  devtools: { enabled: true },\n});\n',
+    expected: `export default defineNuxtConfig({
+  devtools: { enabled: true },
+  app: {
+    head: {
+      link: [
+        // web-icons:start
+        {
+          rel: 'icon',
+          href: '/favicon.ico',
+          sizes: 'any',
+        },
+        // web-icons:end
+      ],
+      meta: [
+        // web-icons:start
+        {
+          name: 'msapplication-TileColor',
+          content: '#da532c',
+        },
+        // web-icons:end
+      ],
+    },
+  },
+});
+`,
+  },
+];
+
+for (const { file, source, expected } of cases) {
+  test(`adds the tags to ${file} and leaves them alone on a second run`, () => {
+    const first = integrateHeadTags(source, `/project/${file}`, groups);
+    assert.equal(first.error, undefined);
+    assert.equal(first.updated, expected);
+
+    const second = integrateHeadTags(expected, `/project/${file}`, groups);
+    assert.equal(second.updated, expected);
+  });
+
+  test(`replaces the managed block in ${file} when the tags change`, () => {
+    const changed: HeadTagGroup[] = [{ comment: 'Favicon', tags: [{ tag: 'link', attributes: { rel: 'icon', href: '/favicon.v2.ico', sizes: 'any' } }] }];
+    const updated = integrateHeadTags(expected, `/project/${file}`, changed).updated!;
+
+    assert.match(updated, /favicon\.v2\.ico/);
+    assert.doesNotMatch(updated, /\/favicon\.ico/);
+    assert.equal(updated.split('web-icons:start').length - 1, updated.includes('msapplication') ? 2 : 1);
+    assert.equal(integrateHeadTags(updated, `/project/${file}`, changed).updated, updated);
+  });
+}
+
+test('keeps an existing <svelte:head> and its other children', () => {
+  const source = '<svelte:head>\n  <title>App</title>\n  <link rel="icon" href="/old.png" />\n</svelte:head>\n';
+  const updated = integrateHeadTags(source, '/project/src/routes/+layout.svelte', groups).updated!;
+
+  assert.equal(updated.split('<svelte:head>').length - 1, 1);
+  assert.match(updated, /<title>App<\/title>/);
+  assert.doesNotMatch(updated, /old\.png/);
+});
+
+test('adds only the icon fields to an existing Next.js metadata export', () => {
+  const source = "import type { Metadata } from 'next';\n\nexport const metadata: Metadata = {\n  title: 'App',\n};\n\nexport default function RootLayout() {\n  return null;\n}\n";
+  const updated = integrateHeadTags(source, '/project/app/layout.tsx', groups).updated!;
+
+  assert.match(updated, /^ {2}title: 'App',$/m);
+  assert.match(updated, /icons: \{/);
+  assert.equal(updated.split("import type { Metadata } from 'next';").length - 1, 1);
+});
+
+test('reports layouts whose metadata cannot be edited, with a snippet to add by hand', () => {
+  const source = 'export async function generateMetadata() {\n  return {};\n}\n';
+  const result = integrateHeadTags(source, '/project/app/layout.tsx', groups);
+
+  assert.equal(result.updated, null);
+  assert.match(result.error!, /generateMetadata/);
+  assert.match(result.snippet, /export const metadata: Metadata/);
+});
+
+test('updates and removes the social image meta tags it put in Next.js metadata.other', () => {
+  const social = (url: string): HeadTagGroup => ({
+    comment: 'Social Sharing Images',
+    tags: [
+      { tag: 'meta', attributes: { property: 'og:image', content: url } },
+      { tag: 'meta', attributes: { name: 'twitter:card', content: 'summary_large_image' } },
+    ],
+  });
+  const layout = 'export default function RootLayout() {\n  return null;\n}\n';
+  const file = '/project/app/layout.tsx';
+
+  const first = integrateHeadTags(layout, file, [...groups, social('/og-image.png')]).updated!;
+  assert.match(first, /'og:image': '\/og-image\.png'/);
+
+  const updated = integrateHeadTags(first, file, [...groups, social('/og-image.v2.png')]).updated!;
+  assert.match(updated, /'og:image': '\/og-image\.v2\.png'/);
+  assert.doesNotMatch(updated, /og-image\.png/);
+
+  const removed = integrateHeadTags(updated, file, groups).updated!;
+  assert.doesNotMatch(removed, /og:image|twitter:card/);
+  assert.match(removed, /'msapplication-TileColor': '#da532c'/);
+});
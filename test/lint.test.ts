@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { assertUsableSource, lintSourceImage } from '../src/lint.js';
+
+// Write a source image into a throwaway directory and lint it
+async function lint(t: { after(fn: () => Promise<void>): void }, filename: string, data: string | Buffer) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-lint-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await fs.writeFile(path.join(dir, filename), data);
+  return lintSourceImage(path.join(dir, filename));
+}
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+const svg = (attributes: string, body = '<circle cx="256" cy="256" r="200" fill="#2563eb"/>') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${body}</svg>`;
+
+const png = (width: number, height: number, alpha = 0) =>
+  sharp({ create: { width, height, channels: 4, background: { r: 37, g: 99, b: 235, alpha } } }).png().toBuffer();
+
+test('passes a square, transparent SVG with a viewBox', async (t) => {
+  assert.deepEqual(await lint(t, 'app-icon.svg', svg('viewBox="0 0 512 512"')), []);
+});
+
+test('reports an unreadable image as an error that stops generation', async (t) => {
+  const issues = await lint(t, 'app-icon.png', 'not a png');
+  assert.deepEqual(codes(issues), ['unreadable']);
+  assert.equal(issues[0].level, 'error');
+  assert.throws(() => assertUsableSource(issues), /can't be used:\n  - Could not read app-icon\.png/);
+
+  assert.deepEqual(codes(await lint(t, 'broken.svg', '<svg xmlns="http://www.w3.org/2000/svg"><circle')), ['unreadable']);
+});
+
+test('warns about a source that is not square', async (t) => {
+  const issues = await lint(t, 'app-icon.png', await png(1024, 512));
+  assert.deepEqual(codes(issues), ['not-square']);
+  assert.match(issues[0].message, /1024×512.*top and bottom/);
+});
+
+test('warns about a raster source smaller than 512px, but not an SVG', async (t) => {
+  assert.deepEqual(codes(await lint(t, 'app-icon.png', await png(256, 256))), ['too-small']);
+  assert.deepEqual(codes(await lint(t, 'app-icon.svg', svg('viewBox="0 0 64 64"'))), []);
+});
+
+test('warns about an SVG without a viewBox', async (t) => {
+  const issues = await lint(t, 'app-icon.svg', svg('width="512" height="512"'));
+  assert.deepEqual(codes(issues), ['svg-no-viewbox']);
+  assert.match(issues[0].fix, /viewBox="0 0 512 512"/);
+});
+
+test('warns about an SVG that embeds a bitmap', async (t) => {
+  const issues = await lint(t, 'app-icon.svg', svg('viewBox="0 0 512 512"', '<image xlink:href="logo.png" width="512" height="512"/>'));
+  assert.ok(codes(issues).includes('svg-embedded-raster'));
+
+  // SVG images are vectors too
+  const nested = await lint(t, 'nested.svg', svg('viewBox="0 0 512 512"', '<image href="data:image/svg+xml;base64,PHN2Zy8+" width="1" height="1"/>'));
+  assert.ok(!codes(nested).includes('svg-embedded-raster'));
+});
+
+test('warns about a source without transparent pixels', async (t) => {
+  const issues = await lint(t, 'app-icon.png', await png(512, 512, 1));
+  assert.deepEqual(codes(issues), ['opaque-background']);
+  assert.equal(issues[0].level, 'warning');
+  assert.doesNotThrow(() => assertUsableSource(issues));
+  assert.throws(() => assertUsableSource(issues, true), /warnings \(strict mode\)/);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { mergeManifest, type ManifestIcon } from '../src/manifest.js';
+import { IconGenerator } from '../src/generator.js';
+
+const icons: ManifestIcon[] = [
+  { src: '/icon-192.a1b2c3.png', sizes: '192x192', type: 'image/png' },
+  { src: '/icon-512.png', sizes: '512x512', type: 'image/png' },
+];
+const managed = new Set(['icon-192.png', 'icon-512.png']);
+
+test('keeps members the user added and prefers them over package.json defaults', () => {
+  const existing = {
+    name: 'My App',
+    categories: ['productivity'],
+    shortcuts: [{ name: 'New', url: '/new' }],
+  };
+  const manifest = mergeManifest(existing, { themeColor: '#000000' }, { name: 'my-app', description: 'From package.json' }, icons, managed);
+
+  assert.equal(manifest.name, 'My App');
+  assert.equal(manifest.description, 'From package.json');
+  assert.equal(manifest.theme_color, '#000000');
+  assert.deepEqual(manifest.categories, ['productivity']);
+  assert.deepEqual(manifest.shortcuts, [{ name: 'New', url: '/new' }]);
+});
+
+test('lets explicit options override the existing manifest', () => {
+  const manifest = mergeManifest({ name: 'Old', display: 'browser' }, { name: 'New' }, { name: 'pkg' }, icons, managed);
+  assert.equal(manifest.name, 'New');
+  assert.equal(manifest.display, 'browser');
+});
+
+test('replaces the generated icons but keeps the ones it does not manage', () => {
+  const existing = {
+    icons: [
+      // Earlier runs: another base path, a query string, an old content hash
+      { src: '/app/icon-192.png', sizes: '192x192', type: 'image/png' },
+      { src: '/icon-512.png?v=2', sizes: '512x512', type: 'image/png' },
+      { src: '/icon-192.0f0f0f.png', sizes: '192x192', type: 'image/png' },
+      { src: '/custom-1024.png', sizes: '1024x1024', type: 'image/png' },
+      'not an icon',
+    ],
+  };
+  const manifest = mergeManifest(existing, {}, {}, icons, managed);
+
+  assert.deepEqual(manifest.icons, [
+    ...icons,
+    { src: '/custom-1024.png', sizes: '1024x1024', type: 'image/png' },
+    'not an icon',
+  ]);
+});
+
+test('refuses to overwrite an existing manifest that is not valid JSON', async (t) => {
+  const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-manifest-'));
+  t.after(() => fs.rm(projectRoot, { recursive: true, force: true }));
+
+  const sourcePath = path.join(projectRoot, 'app-icon.svg');
+  await fs.writeFile(sourcePath, '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512" width="512" height="512"><rect width="512" height="512" fill="#2563eb"/></svg>');
+  const outputDir = path.join(projectRoot, 'public');
+  const manifestPath = path.join(outputDir, 'site.webmanifest');
+  await fs.mkdir(outputDir);
+  await fs.writeFile(manifestPath, '{ "name": "My App", }');
+
+  await assert.rejects(
+    new IconGenerator({ sourcePath, outputDir, projectRoot, mode: 'traditional' }).generate(),
+    /Could not parse existing manifest .*site\.webmanifest/
+  );
+  assert.equal(await fs.readFile(manifestPath, 'utf-8'), '{ "name": "My App", }');
+});
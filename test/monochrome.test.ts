@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { convertSvgToMonochrome, traceRasterToSvg } from '../src/monochrome.js';
+
+const svg = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">${body}</svg>`;
+
+test('recolors paint from style attributes and drops opacity', () => {
+  assert.equal(
+    convertSvgToMonochrome(svg('<rect width="10" height="10" style="fill:#ff0000;opacity:0.5"/>'), '#112233'),
+    svg('<rect width="10" height="10" fill="#112233" stroke="none"/>')
+  );
+});
+
+test('resolves <style> rules per element and removes the block', () => {
+  const result = convertSvgToMonochrome(
+    svg('<style>.a{fill:red}.b{fill:none;stroke:blue}</style><rect class="a" width="5" height="5"/><circle class="b" r="3"/>'),
+    '#112233'
+  );
+  assert.equal(result, svg('<rect class="a" width="5" height="5" fill="#112233" stroke="none"/><circle class="b" r="3" fill="none" stroke="#112233"/>'));
+});
+
+test('flattens gradients to the color and keeps unpainted shapes unpainted', () => {
+  const result = convertSvgToMonochrome(
+    svg('<defs><linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient></defs><rect fill="url(#g)" width="5" height="5"/><path fill="none" d="M0 0L5 5"/>'),
+    '#112233'
+  );
+  assert.doesNotMatch(result, /linearGradient|url\(/);
+  assert.match(result, /<rect width="5" height="5" fill="#112233" stroke="none"\/>/);
+  assert.match(result, /<path d="M0 0L5 5" fill="none" stroke="none"\/>/);
+});
+
+test('leaves fully transparent fills unpainted', () => {
+  assert.equal(
+    convertSvgToMonochrome(svg('<rect fill="#fff" fill-opacity="0" width="5" height="5"/>'), '#000'),
+    svg('<rect width="5" height="5" fill="none" stroke="none"/>')
+  );
+});
+
+test('traces transparent raster sources by luminance, so detail inside the shape survives', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-trace-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  const render = async (name: string, body: string) => {
+    const file = path.join(dir, `${name}.png`);
+    await sharp(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64">${body}</svg>`)).png().toFile(file);
+    return file;
+  };
+  const subpaths = (traced: string) => (traced.match(/M/g) || []).length;
+
+  // A white glyph on a badge is a hole in the badge
+  const badge = await render('badge', '<rect x="8" y="8" width="48" height="48" rx="8" fill="#1d4ed8"/><rect x="24" y="24" width="16" height="16" fill="#fff"/>');
+  assert.equal(subpaths(await traceRasterToSvg(badge, '#000', { resolution: 64 })), 2);
+
+  // One color, or no clear split: the alpha outline
+  const circle = await render('circle', '<circle cx="32" cy="32" r="20" fill="#e11d48"/>');
+  assert.equal(subpaths(await traceRasterToSvg(circle, '#000', { resolution: 64 })), 1);
+
+  // An explicit threshold is honored: nothing is darker than 0, so the whole badge is one class
+  assert.equal(subpaths(await traceRasterToSvg(badge, '#000', { resolution: 64, threshold: 0 })), 1);
+});
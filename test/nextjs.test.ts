@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { patchLayout, type LayoutExports } from '../src/nextjs.js';
+
+const exports: LayoutExports = {
+  metadata: { appleWebApp: { capable: true } },
+  viewport: { themeColor: '#ffffff' },
+};
+
+const layout = 'export default function RootLayout({ children }) {\n  return children;\n}\n';
+
+test('puts the type import above new exports in a layout without imports', () => {
+  assert.equal(patchLayout(layout, 'app/layout.tsx', exports), `import type { Metadata, Viewport } from 'next';
+
+export const metadata: Metadata = {
+  appleWebApp: {
+    capable: true,
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#ffffff',
+};
+
+export default function RootLayout({ children }) {
+  return children;
+}
+`);
+});
+
+test('adds the type import after the last import, and new exports above the component', () => {
+  const source = `import './globals.css';\n\n${layout}`;
+  const patched = patchLayout(source, 'app/layout.tsx', exports)!;
+
+  assert.ok(patched.startsWith("import './globals.css';\nimport type { Metadata, Viewport } from 'next';\n\nexport const metadata"));
+  assert.ok(patched.indexOf('export const viewport') < patched.indexOf('export default'));
+});
+
+test('extends an existing import from next', () => {
+  const source = `import type { Metadata } from 'next';\n\nexport const metadata: Metadata = { title: 'App' };\n\n${layout}`;
+  const patched = patchLayout(source, 'app/layout.tsx', exports)!;
+
+  assert.match(patched, /^import type \{ Metadata, Viewport \} from 'next';$/m);
+  assert.equal(patched.split("from 'next'").length - 1, 1);
+});
+
+test('only adds fields the existing exports lack', () => {
+  const source = "export const metadata = {\n  title: 'App',\n  appleWebApp: { capable: false },\n};\n\nexport const viewport = {};\n";
+  const patched = patchLayout(source, 'app/layout.js', exports)!;
+
+  assert.match(patched, /appleWebApp: \{ capable: false \}/);
+  assert.match(patched, /themeColor: '#ffffff'/);
+  assert.doesNotMatch(patched, /import/);
+});
+
+test('changes nothing when every field is already set', () => {
+  const source = "export const metadata = { appleWebApp: { capable: true } };\nexport const viewport = { themeColor: '#000000' };\n";
+  assert.equal(patchLayout(source, 'app/layout.js', exports), source);
+});
+
+test('gives up on metadata computed in generateMetadata or not an object literal', () => {
+  assert.equal(patchLayout(`export async function generateMetadata() {\n  return {};\n}\n${layout}`, 'app/layout.tsx', exports), null);
+  assert.equal(patchLayout(`export const metadata = getMetadata();\n${layout}`, 'app/layout.tsx', exports), null);
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FrameworkDetector } from '../src/utils.js';
+
+// A throwaway project with the given files; directories end in a slash
+async function createProject(t: { after(fn: () => Promise<void>): void }, files: Record<string, string>): Promise<string> {
+  const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-detect-'));
+  t.after(() => fs.rm(projectRoot, { recursive: true, force: true }));
+
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(projectRoot, file);
+    if (file.endsWith('/')) {
+      await fs.mkdir(filePath, { recursive: true });
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    }
+  }
+  return projectRoot;
+}
+
+const packageJson = (dependencies: string[], devDependencies: string[] = []) => JSON.stringify({
+  dependencies: Object.fromEntries(dependencies.map(name => [name, '*'])),
+  devDependencies: Object.fromEntries(devDependencies.map(name => [name, '*'])),
+});
+
+const detectAll = async (cwd: string) =>
+  (await new FrameworkDetector(cwd).detectAll()).map(({ name, confidence }) => ({ name, confidence }));
+
+test('prefers a framework over the tool it is based on', async (t) => {
+  const cwd = await createProject(t, {
+    'package.json': packageJson(['@sveltejs/kit'], ['vite']),
+    'svelte.config.js': '',
+    'vite.config.ts': '',
+    'src/app.html': '',
+  });
+
+  assert.deepEqual(await detectAll(cwd), [{ name: 'SvelteKit', confidence: 'high' }]);
+  assert.equal((await new FrameworkDetector(cwd).detect())?.name, 'SvelteKit');
+});
+
+test('drops the underlying tool even when it matches with higher confidence', async (t) => {
+  const cwd = await createProject(t, {
+    'package.json': packageJson(['astro'], ['vite']),
+    'vite.config.ts': '',
+  });
+
+  assert.deepEqual(await detectAll(cwd), [{ name: 'Astro', confidence: 'medium' }]);
+});
+
+test('ranks matches by confidence, then by list order', async (t) => {
+  const cwd = await createProject(t, {
+    'package.json': packageJson(['gatsby', 'next', '@11ty/eleventy']),
+    'eleventy.config.js': '',
+    'layouts/': '',
+  });
+
+  assert.deepEqual(await detectAll(cwd), [
+    { name: 'Eleventy', confidence: 'high' }, // Config file and dependency
+    { name: 'Next.js', confidence: 'medium' }, // Dependency only, listed before Gatsby
+    { name: 'Gatsby', confidence: 'medium' },
+    { name: 'Hugo', confidence: 'low' }, // Marker only
+  ]);
+});
+
+test('records the evidence and ignores bare markers of frameworks with dependencies', async (t) => {
+  const cwd = await createProject(t, {
+    'package.json': packageJson([], ['vite']),
+    'vite.config.mts': '',
+    'app.vue': '',
+  });
+
+  const [match, ...rest] = await new FrameworkDetector(cwd).detectAll();
+  assert.equal(match.name, 'Vite');
+  assert.deepEqual(match.evidence, ['vite.config.mts', 'dependency vite']);
+  assert.deepEqual(rest, []);
+});
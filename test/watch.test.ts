@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import sharp from 'sharp';
+import { FileWatcher } from '../src/watch.js';
+import { IconGenerator } from '../src/generator.js';
+
+async function createDir(t: { after(fn: () => Promise<void>): void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-watch-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+const circle = (color: string) => sharp(Buffer.from(
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512" width="512" height="512"><circle cx="256" cy="256" r="200" fill="${color}"/></svg>`
+)).png().toBuffer();
+
+test('reports a burst of changes to the watched files once', async (t) => {
+  const dir = await createDir(t);
+  const source = path.join(dir, 'app-icon.png');
+  const config = path.join(dir, 'web-icons.config.json');
+
+  const calls: string[][] = [];
+  const watcher = new FileWatcher(files => calls.push(files.sort()), 50);
+  t.after(() => watcher.close());
+  watcher.setFiles([source, config]);
+
+  // Several writes per save, a second file, and one that isn't watched
+  await fs.writeFile(source, 'a');
+  await fs.writeFile(source, 'ab');
+  await fs.writeFile(config, '{}');
+  await fs.writeFile(path.join(dir, 'notes.txt'), 'ignored');
+  await delay(300);
+
+  assert.deepEqual(calls, [[source, config].sort()]);
+
+  // A file created after watching started is picked up too
+  const dark = path.join(dir, 'app-icon-dark.png');
+  watcher.setFiles([source, config, dark]);
+  await fs.writeFile(dark, 'dark');
+  await delay(300);
+  assert.deepEqual(calls.slice(1), [[dark]]);
+});
+
+test('re-renders only the images made from the changed source', async (t) => {
+  const projectRoot = await createDir(t);
+  const sourcePath = path.join(projectRoot, 'app-icon.png');
+  const darkSource = path.join(projectRoot, 'app-icon-dark.png');
+  await fs.writeFile(sourcePath, await circle('#2563eb'));
+  await fs.writeFile(darkSource, await circle('#93c5fd'));
+
+  const outputDir = path.join(projectRoot, 'public');
+  const generator = new IconGenerator({ sourcePath, outputDir, projectRoot, mode: 'traditional', dark: { source: darkSource } });
+  await generator.generate({ onlyChanged: true });
+  const icon192 = await fs.readFile(path.join(outputDir, 'icon-192.png'));
+
+  // An edited dark source: the dark icons change, the rest is served from the last render
+  await fs.writeFile(darkSource, await circle('#fde68a'));
+  await generator.generate({ onlyChanged: true, changedSources: ['dark'] });
+  const written = generator.getWrittenFiles().map(file => path.relative(outputDir, file));
+  assert.ok(written.includes('icon-dark-32.png'));
+  assert.ok(written.includes('icon-dark-192.png'));
+  assert.ok(!written.includes('icon-192.png'));
+  assert.ok(!written.includes('favicon.ico'));
+
+  // The main source feeds everything, so it re-renders from scratch
+  await fs.writeFile(sourcePath, await circle('#dc2626'));
+  await generator.generate({ onlyChanged: true, changedSources: ['source'] });
+  assert.ok(generator.getWrittenFiles().includes(path.join(outputDir, 'icon-192.png')));
+  assert.ok(!(await fs.readFile(path.join(outputDir, 'icon-192.png'))).equals(icon192));
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { findWorkspaces, readWorkspacePatterns, selectWorkspaces } from '../src/workspace.js';
+
+// A throwaway monorepo with the given files
+async function createMonorepo(t: { after(fn: () => Promise<void>): void }, files: Record<string, string>): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'web-icons-workspace-'));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+  }
+  return root;
+}
+
+const app = (name: string, dependency: string) => JSON.stringify({ name, dependencies: { [dependency]: '*' } });
+
+test('reads pnpm-workspace.yaml lists in block and flow style', async (t) => {
+  const block = await createMonorepo(t, {
+    'pnpm-workspace.yaml': [
+      '# Workspaces',
+      'packages:',
+      '  - "apps/*"',
+      "  - 'packages/**' # Nested too",
+      '  - "!**/test/**"',
+      'catalog:',
+      '  - not-a-package',
+    ].join('\n'),
+    // Ignored while pnpm-workspace.yaml lists packages
+    'package.json': JSON.stringify({ workspaces: ['other/*'] }),
+  });
+  assert.deepEqual(await readWorkspacePatterns(block), ['apps/*', 'packages/**', '!**/test/**']);
+
+  const flow = await createMonorepo(t, { 'pnpm-workspace.yaml': 'packages: [apps/*, "tools/cli"]\n' });
+  assert.deepEqual(await readWorkspacePatterns(flow), ['apps/*', 'tools/cli']);
+});
+
+test('falls back to package.json workspaces, then the Nx and Turborepo layouts', async (t) => {
+  const yarn = await createMonorepo(t, { 'package.json': JSON.stringify({ workspaces: { packages: ['apps/*'], nohoist: ['**/react'] } }) });
+  assert.deepEqual(await readWorkspacePatterns(yarn), ['apps/*']);
+
+  const nx = await createMonorepo(t, { 'nx.json': JSON.stringify({ workspaceLayout: { appsDir: 'projects' } }) });
+  assert.deepEqual(await readWorkspacePatterns(nx), ['projects/*', 'libs/*']);
+
+  const turbo = await createMonorepo(t, { 'turbo.json': '{}' });
+  assert.deepEqual(await readWorkspacePatterns(turbo), ['apps/*', 'packages/*']);
+
+  const single = await createMonorepo(t, { 'package.json': JSON.stringify({ name: 'app' }) });
+  assert.deepEqual(await readWorkspacePatterns(single), []);
+  assert.deepEqual(await findWorkspaces(single), []);
+});
+
+test('expands workspace globs, honouring exclusions and skipping node_modules', async (t) => {
+  const root = await createMonorepo(t, {
+    'pnpm-workspace.yaml': 'packages:\n  - apps/*\n  - packages/**\n  - "!packages/internal/*"\n',
+    'apps/web/package.json': app('@acme/web', 'next'),
+    'apps/docs/package.json': app('docs', 'astro'),
+    'apps/web/node_modules/next/package.json': JSON.stringify({ name: 'next' }),
+    'apps/nested/site/package.json': app('too-deep', 'vite'), // apps/* matches one level only
+    'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+    'packages/config/eslint/package.json': JSON.stringify({ name: '@acme/eslint-config' }),
+    'packages/internal/secret/package.json': JSON.stringify({ name: 'secret' }),
+    'tools/script/package.json': JSON.stringify({ name: 'script' }),
+  });
+
+  const workspaces = await findWorkspaces(root);
+  assert.deepEqual(
+    workspaces.map(({ name, relativeDir, framework }) => [name, relativeDir, framework?.name ?? null]),
+    [
+      ['docs', 'apps/docs', 'Astro'],
+      ['@acme/web', 'apps/web', 'Next.js'],
+      ['@acme/eslint-config', 'packages/config/eslint', null],
+      ['@acme/ui', 'packages/ui', null],
+    ]
+  );
+  assert.equal(workspaces[1].dir, path.join(root, 'apps/web'));
+});
+
+test('selects the apps, or the workspaces named by --app', async (t) => {
+  const root = await createMonorepo(t, {
+    'package.json': JSON.stringify({ workspaces: ['apps/*', 'packages/*'] }),
+    'apps/web/package.json': app('@acme/web', 'next'),
+    'apps/admin/package.json': app('admin-dashboard', 'vite'),
+    'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+  });
+  const workspaces = await findWorkspaces(root);
+  const names = (selected: typeof workspaces) => selected.map(workspace => workspace.name);
+
+  // Libraries without a framework are left out by default
+  assert.deepEqual(names(selectWorkspaces(workspaces)), ['admin-dashboard', '@acme/web']);
+
+  // Package name, unscoped name, directory or directory name, in the order given
+  assert.deepEqual(names(selectWorkspaces(workspaces, ['web', 'apps/admin/'])), ['@acme/web', 'admin-dashboard']);
+  assert.deepEqual(names(selectWorkspaces(workspaces, ['@acme/ui', './apps/web', 'admin'])), ['@acme/ui', '@acme/web', 'admin-dashboard']);
+
+  assert.throws(() => selectWorkspaces(workspaces, ['mobile']), /Unknown workspace "mobile"\. Available: admin-dashboard, @acme\/web, @acme\/ui/);
+});